@@ -8,7 +8,9 @@ import ForgotPassword from './components/auth/ForgotPassword'
 import Dashboard from './components/dashboard/Dashboard'
 import Settings from './components/settings/Settings'
 import PostSchedule from './components/schedule/PostSchedule'
+import TopicCalendar from './components/schedule/TopicCalendar'
 import Analytics from './components/analytics/Analytics'
+import ContentLibrary from './components/content/ContentLibrary'
 import PaymentSuccess from './components/payment/PaymentSuccess'
 import PaymentCancel from './components/payment/PaymentCancel'
 
@@ -45,6 +47,14 @@ function App() {
               </ProtectedRoute>
             } 
           />
+          <Route 
+            path="/calendar" 
+            element={
+              <ProtectedRoute>
+                <TopicCalendar />
+              </ProtectedRoute>
+            } 
+          />
           {/* Placeholder routes for sidebar navigation */}
           <Route 
             path="/analytics" 
@@ -54,7 +64,14 @@ function App() {
               </ProtectedRoute>
             } 
           />
-          <Route path="/content" element={<ProtectedRoute><div className="p-6"><h1>Content Library - Coming Soon</h1></div></ProtectedRoute>} />
+          <Route 
+            path="/content" 
+            element={
+              <ProtectedRoute>
+                <ContentLibrary />
+              </ProtectedRoute>
+            } 
+          />
           <Route path="/audience" element={<ProtectedRoute><div className="p-6"><h1>Audience - Coming Soon</h1></div></ProtectedRoute>} />
           <Route path="/campaigns" element={<ProtectedRoute><div className="p-6"><h1>Campaigns - Coming Soon</h1></div></ProtectedRoute>} />
           <Route path="/messages" element={<ProtectedRoute><div className="p-6"><h1>Messages - Coming Soon</h1></div></ProtectedRoute>} />
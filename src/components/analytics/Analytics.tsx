@@ -93,7 +93,7 @@ const Analytics: React.FC = () => {
       const totalPosts = allPosts?.length || 0
       const publishedPosts = allPosts?.filter(post => post.status === 'published').length || 0
       const pendingPosts = allPosts?.filter(post => post.status === 'pending').length || 0
-      const failedPosts = allPosts?.filter(post => post.status === 'failed').length || 0
+      const failedPosts = allPosts?.filter(post => post.status === 'failed' || post.status === 'dead_letter').length || 0
       
       // Calculate word counts (estimate based on content length)
       const totalWords = allPosts?.reduce((sum, post) => {
@@ -92,7 +92,7 @@ const AnalyticsChart: React.FC<AnalyticsChartProps> = ({
           groupedData[dateStr].posts++
           if (post.status === 'published') {
             groupedData[dateStr].published++
-          } else if (post.status === 'failed') {
+          } else if (post.status === 'failed' || post.status === 'dead_letter') {
             groupedData[dateStr].failed++
           }
         }
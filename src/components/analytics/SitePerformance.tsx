@@ -45,7 +45,7 @@ const SitePerformance: React.FC<SitePerformanceProps> = ({ sites, userId }) => {
 
         const totalPosts = posts?.length || 0
         const publishedPosts = posts?.filter(p => p.status === 'published').length || 0
-        const failedPosts = posts?.filter(p => p.status === 'failed').length || 0
+        const failedPosts = posts?.filter(p => p.status === 'failed' || p.status === 'dead_letter').length || 0
         const pendingPosts = posts?.filter(p => p.status === 'pending').length || 0
         const successRate = totalPosts > 0 ? Math.round((publishedPosts / totalPosts) * 100) : 0
 
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { FileText, Calendar, Globe, CheckCircle, AlertCircle, Clock, ExternalLink } from 'lucide-react'
 import { supabase } from '../../lib/supabase'
+import { seoScoreStyle } from '../../lib/seo'
 
 interface PostData {
   id: string
@@ -16,6 +17,7 @@ interface PostData {
     url: string
   }
   tags: string[]
+  seo_score: number | null
 }
 
 interface TopPerformingPostsProps {
@@ -31,12 +33,13 @@ const TopPerformingPosts: React.FC<TopPerformingPostsProps> = ({
 }) => {
   const [posts, setPosts] = useState<PostData[]>([])
   const [loading, setLoading] = useState(true)
+  const [sortBy, setSortBy] = useState<'recent' | 'seo'>('recent')
 
   useEffect(() => {
     if (userId) {
       loadTopPosts()
     }
-  }, [userId, selectedSite, timeRange])
+  }, [userId, selectedSite, timeRange, sortBy])
 
   const loadTopPosts = async () => {
     try {
@@ -70,6 +73,7 @@ const TopPerformingPosts: React.FC<TopPerformingPostsProps> = ({
           published_at,
           wordpress_post_id,
           tags,
+          seo_score,
           wordpress_sites (
             name,
             url
@@ -77,8 +81,11 @@ const TopPerformingPosts: React.FC<TopPerformingPostsProps> = ({
         `)
         .eq('user_id', userId)
         .gte('created_at', startDate.toISOString())
-        .order('created_at', { ascending: false })
-        .limit(10)
+
+      query = sortBy === 'seo'
+        ? query.order('seo_score', { ascending: false, nullsFirst: false }).order('created_at', { ascending: false })
+        : query.order('created_at', { ascending: false })
+      query = query.limit(10)
 
       if (selectedSite !== 'all') {
         query = query.eq('wordpress_site_id', selectedSite)
@@ -101,8 +108,11 @@ const TopPerformingPosts: React.FC<TopPerformingPostsProps> = ({
       case 'published':
         return <CheckCircle className="w-4 h-4 text-green-500" />
       case 'failed':
+      case 'dead_letter':
         return <AlertCircle className="w-4 h-4 text-red-500" />
       case 'pending':
+      case 'scheduled':
+      case 'awaiting_review':
         return <Clock className="w-4 h-4 text-yellow-500" />
       default:
         return <FileText className="w-4 h-4 text-gray-400" />
@@ -114,8 +124,11 @@ const TopPerformingPosts: React.FC<TopPerformingPostsProps> = ({
       case 'published':
         return 'text-green-600 bg-green-50'
       case 'failed':
+      case 'dead_letter':
         return 'text-red-600 bg-red-50'
       case 'pending':
+      case 'scheduled':
+      case 'awaiting_review':
         return 'text-yellow-600 bg-yellow-50'
       default:
         return 'text-gray-600 bg-gray-50'
@@ -146,10 +159,22 @@ const TopPerformingPosts: React.FC<TopPerformingPostsProps> = ({
     >
       <div className="flex items-center justify-between mb-6">
         <div>
-          <h3 className="text-lg font-semibold text-gray-800">Recent Posts</h3>
-          <p className="text-sm text-gray-600">Latest blog posts and their status</p>
+          <h3 className="text-lg font-semibold text-gray-800">{sortBy === 'seo' ? 'Top SEO Scores' : 'Recent Posts'}</h3>
+          <p className="text-sm text-gray-600">
+            {sortBy === 'seo' ? 'Best scoring posts for on-page SEO' : 'Latest blog posts and their status'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as 'recent' | 'seo')}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+          >
+            <option value="recent">Newest first</option>
+            <option value="seo">Highest SEO score</option>
+          </select>
+          <FileText className="w-5 h-5 text-teal-600" />
         </div>
-        <FileText className="w-5 h-5 text-teal-600" />
       </div>
 
       {posts.length === 0 ? (
@@ -168,9 +193,17 @@ const TopPerformingPosts: React.FC<TopPerformingPostsProps> = ({
                   <p className="text-sm text-gray-600 line-clamp-2">{post.excerpt}</p>
                 </div>
                 <div className="flex items-center space-x-2 ml-4">
+                  {post.seo_score != null && (
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium ${seoScoreStyle(post.seo_score)}`}
+                      title="On-page SEO score"
+                    >
+                      SEO {post.seo_score}
+                    </span>
+                  )}
                   {getStatusIcon(post.status)}
                   <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(post.status)}`}>
-                    {post.status.charAt(0).toUpperCase() + post.status.slice(1)}
+                    {post.status.charAt(0).toUpperCase() + post.status.slice(1).replace('_', ' ')}
                   </span>
                 </div>
               </div>
@@ -0,0 +1,854 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  Search, FileText, Globe, Calendar, Save, RefreshCw, Send, UploadCloud,
+  ArrowLeft, CheckCircle, X, ExternalLink, ThumbsUp, Ban, Trash2, AlertTriangle, Link2,
+  XCircle, Gauge
+} from 'lucide-react'
+import DashboardLayout from '../layout/DashboardLayout'
+import PostEditor from './PostEditor'
+import { useAuth } from '../../contexts/AuthContext'
+import { scheduleService, ScheduledPost, PostContentUpdate, PostSyncStatus } from '../../lib/schedules'
+import { GenerationValidation } from '../../lib/openai'
+import { seoService, seoCheckLabels, seoScoreStyle, SeoFinding } from '../../lib/seo'
+
+interface LibraryPost extends ScheduledPost {
+  id: string
+  post_schedules: {
+    schedule_type: string
+    content_input: string
+    frequency: string
+  } | null
+  wordpress_sites: {
+    name: string
+    url: string
+  } | null
+}
+
+interface EditorFields {
+  title: string
+  content: string
+  excerpt: string
+  tags: string
+  meta_description: string
+}
+
+const statusStyles: Record<string, string> = {
+  awaiting_review: 'text-amber-600 bg-amber-50',
+  published: 'text-green-600 bg-green-50',
+  pending: 'text-yellow-600 bg-yellow-50',
+  publishing: 'text-blue-600 bg-blue-50',
+  scheduled: 'text-teal-600 bg-teal-50',
+  draft: 'text-purple-600 bg-purple-50',
+  failed: 'text-red-600 bg-red-50',
+  dead_letter: 'text-red-600 bg-red-50',
+  rejected: 'text-gray-600 bg-gray-100',
+  cancelled: 'text-gray-600 bg-gray-100',
+}
+
+const statusLabels: Record<string, string> = {
+  awaiting_review: 'Awaiting review',
+  published: 'Published',
+  pending: 'Scheduled',
+  publishing: 'Publishing',
+  scheduled: 'Scheduled on WordPress',
+  draft: 'Draft',
+  failed: 'Failed',
+  dead_letter: 'Needs attention',
+  rejected: 'Rejected',
+  cancelled: 'Withdrawn on WordPress',
+}
+
+const validationLabels: Record<GenerationValidation['status'], string> = {
+  valid: 'Passed',
+  repaired: 'Repaired automatically',
+  retried: 'Passed on second attempt',
+}
+
+const findingIcons: Record<SeoFinding['status'], React.ReactNode> = {
+  pass: <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0 mt-0.5" />,
+  warn: <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />,
+  fail: <XCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />,
+}
+
+const toEditorFields = (post: LibraryPost): EditorFields => ({
+  title: post.title,
+  content: post.content,
+  excerpt: post.excerpt,
+  tags: (post.tags || []).join(', '),
+  meta_description: post.meta_description || '',
+})
+
+const toUpdate = (fields: EditorFields): PostContentUpdate => ({
+  title: fields.title,
+  content: fields.content,
+  excerpt: fields.excerpt,
+  tags: fields.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+  meta_description: fields.meta_description,
+})
+
+const ContentLibrary: React.FC = () => {
+  const { user, loadUserPoints } = useAuth()
+  const [posts, setPosts] = useState<LibraryPost[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [siteFilter, setSiteFilter] = useState('all')
+  const [statusFilter, setStatusFilter] = useState('all')
+  const [scheduleFilter, setScheduleFilter] = useState('all')
+  const [selectedPost, setSelectedPost] = useState<LibraryPost | null>(null)
+  const [fields, setFields] = useState<EditorFields | null>(null)
+  const [reviewNotes, setReviewNotes] = useState('')
+  const [syncStatus, setSyncStatus] = useState<PostSyncStatus | null>(null)
+  const [busyAction, setBusyAction] = useState('')
+  const [success, setSuccess] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (user) {
+      loadPosts()
+    }
+  }, [user])
+
+  const loadPosts = async () => {
+    if (!user) return
+
+    setLoading(true)
+    const { data, error: loadError } = await scheduleService.getScheduledPosts(user.id)
+    if (loadError) {
+      console.error('Error loading content library:', loadError)
+      setError('Failed to load your posts')
+    } else {
+      const sorted = ((data as LibraryPost[]) || []).sort(
+        (a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime()
+      )
+      setPosts(sorted)
+    }
+    setLoading(false)
+  }
+
+  const siteOptions = useMemo(() => {
+    const sites = new Map<string, string>()
+    posts.forEach(post => sites.set(post.wordpress_site_id, post.wordpress_sites?.name || 'Unknown site'))
+    return Array.from(sites.entries())
+  }, [posts])
+
+  const scheduleOptions = useMemo(() => {
+    const schedules = new Map<string, string>()
+    posts.forEach(post => {
+      if (post.schedule_id) {
+        schedules.set(post.schedule_id, post.post_schedules?.content_input || 'Schedule')
+      }
+    })
+    return Array.from(schedules.entries())
+  }, [posts])
+
+  const filteredPosts = posts.filter(post => {
+    const query = search.trim().toLowerCase()
+    const matchesSearch = !query ||
+      post.title.toLowerCase().includes(query) ||
+      post.excerpt.toLowerCase().includes(query) ||
+      (post.tags || []).some(tag => tag.toLowerCase().includes(query))
+    const matchesSite = siteFilter === 'all' || post.wordpress_site_id === siteFilter
+    const matchesStatus = statusFilter === 'all' || post.status === statusFilter
+    const matchesSchedule = scheduleFilter === 'all' ||
+      (scheduleFilter === 'none' ? !post.schedule_id : post.schedule_id === scheduleFilter)
+    return matchesSearch && matchesSite && matchesStatus && matchesSchedule
+  })
+
+  const openPost = (post: LibraryPost) => {
+    setSelectedPost(post)
+    setFields(toEditorFields(post))
+    setReviewNotes('')
+    setSuccess('')
+    setError('')
+    setSyncStatus(null)
+    if (post.wordpress_post_id) {
+      checkDrift(post.id)
+    }
+  }
+
+  const checkDrift = async (postId: string) => {
+    const { data } = await scheduleService.checkPostDrift(postId)
+    setSyncStatus(data)
+  }
+
+  const closePost = () => {
+    setSelectedPost(null)
+    setFields(null)
+    loadPosts()
+  }
+
+  const errorMessage = (err: unknown, fallback: string) => {
+    if (typeof err === 'string') return err
+    if (err instanceof Error || (err && typeof err === 'object' && 'message' in err)) {
+      return (err as { message: string }).message
+    }
+    return fallback
+  }
+
+  // Runs an editor action and refreshes the open post from the database afterwards
+  const runAction = async (action: string, task: () => Promise<{ error: unknown }>, successMessage: string) => {
+    if (!selectedPost) return
+
+    setBusyAction(action)
+    setSuccess('')
+    setError('')
+
+    try {
+      const { error: actionError } = await task()
+      if (actionError) {
+        setError(errorMessage(actionError, `Failed to ${action}`))
+      } else {
+        setSuccess(successMessage)
+      }
+
+      const { data } = await scheduleService.getScheduledPosts(user!.id)
+      const refreshed = (data as LibraryPost[] | null)?.find(post => post.id === selectedPost.id)
+      if (refreshed) {
+        setSelectedPost(refreshed)
+        setFields(toEditorFields(refreshed))
+        if (refreshed.wordpress_post_id) {
+          checkDrift(refreshed.id)
+        }
+      }
+    } finally {
+      setBusyAction('')
+    }
+  }
+
+  const handleSave = (asDraft: boolean) => runAction(
+    asDraft ? 'save draft' : 'save',
+    () => scheduleService.savePost(selectedPost!.id, toUpdate(fields!), asDraft),
+    asDraft ? 'Saved as draft. It will not be published until you publish it.' : 'Changes saved.'
+  )
+
+  const handleRegenerate = () => runAction(
+    'regenerate',
+    async () => {
+      const result = await scheduleService.regeneratePost(selectedPost!.id, reviewNotes.trim() || undefined)
+      setReviewNotes('')
+      loadUserPoints()
+      return result
+    },
+    'Fresh content generated. Review it before publishing.'
+  )
+
+  // Approving keeps the reviewer's edits, the worker then publishes the post at its scheduled time
+  const handleApprove = () => runAction(
+    'approve',
+    async () => {
+      const { error: saveError } = await scheduleService.savePost(selectedPost!.id, toUpdate(fields!))
+      if (saveError) return { error: saveError }
+      return scheduleService.approvePost(selectedPost!.id, reviewNotes.trim() || undefined)
+    },
+    'Post approved. It will be published at its scheduled time.'
+  )
+
+  const handleReject = () => runAction(
+    'reject',
+    () => scheduleService.rejectPost(selectedPost!.id, reviewNotes.trim() || undefined),
+    'Post rejected. It will not be published.'
+  )
+
+  const handlePublishNow = () => runAction(
+    'publish',
+    async () => {
+      const { error: saveError } = await scheduleService.savePost(selectedPost!.id, toUpdate(fields!))
+      if (saveError) return { error: saveError }
+      return ['failed', 'dead_letter'].includes(selectedPost!.status)
+        ? scheduleService.retryPost(selectedPost!.id)
+        : scheduleService.publishPost(selectedPost!.id)
+    },
+    'Post published to WordPress.'
+  )
+
+  const handlePushUpdate = () => runAction(
+    'push update',
+    async () => {
+      const { error: saveError } = await scheduleService.savePost(selectedPost!.id, toUpdate(fields!))
+      if (saveError) return { error: saveError }
+      return scheduleService.pushPostUpdate(selectedPost!.id)
+    },
+    'WordPress post updated with your changes.'
+  )
+
+  const handleCheckSeo = () => runAction(
+    'check SEO',
+    () => seoService.analyzePost(selectedPost!.id),
+    'SEO score updated for the saved version of this post.'
+  )
+
+  const handleDelete = async () => {
+    if (!selectedPost) return
+
+    const message = selectedPost.wordpress_post_id
+      ? 'Delete this post? It will also be moved to the trash on your WordPress site.'
+      : 'Delete this post? This cannot be undone.'
+    if (!window.confirm(message)) return
+
+    setBusyAction('delete')
+    setError('')
+
+    const { error: deleteError } = await scheduleService.deletePost(selectedPost.id)
+    setBusyAction('')
+
+    if (deleteError) {
+      setError(errorMessage(deleteError, 'Failed to delete post'))
+      return
+    }
+
+    closePost()
+    setSuccess('Post deleted.')
+  }
+
+  const renderSyncNotice = () => {
+    if (!syncStatus) return null
+
+    let notice = ''
+    if (syncStatus.remoteMissing) {
+      notice = 'This post has been deleted or trashed on WordPress. Updates cannot be pushed to it.'
+    } else if (syncStatus.remoteChanged) {
+      notice = `This post was edited on WordPress${syncStatus.remoteModifiedAt ? ` (${new Date(syncStatus.remoteModifiedAt).toLocaleString()})` : ''} since LemmeWrite last synced it. Updating it from here will overwrite those edits.`
+    } else if (syncStatus.localChanged) {
+      notice = 'You have saved changes that are not on WordPress yet.'
+    }
+
+    if (!notice) return null
+
+    return (
+      <div className="mb-6 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg flex items-start space-x-2">
+        <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+        <span>{notice}</span>
+      </div>
+    )
+  }
+
+  const renderMessages = () => (
+    <>
+      {success && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-center justify-between"
+        >
+          <div className="flex items-center space-x-2">
+            <CheckCircle className="w-5 h-5" />
+            <span>{success}</span>
+          </div>
+          <button onClick={() => setSuccess('')} className="text-green-500 hover:text-green-700 ml-4">
+            <X className="w-4 h-4" />
+          </button>
+        </motion.div>
+      )}
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center justify-between"
+        >
+          <span>{error}</span>
+          <button onClick={() => setError('')} className="text-red-500 hover:text-red-700 ml-4">
+            <X className="w-4 h-4" />
+          </button>
+        </motion.div>
+      )}
+    </>
+  )
+
+  const renderEditor = (post: LibraryPost, values: EditorFields) => {
+    // Posts scheduled on WordPress already exist there, so they are updated rather than published again
+    const isPublished = ['published', 'scheduled'].includes(post.status) && !!post.wordpress_post_id
+    const inReview = post.status === 'awaiting_review' || post.status === 'rejected'
+    const isBusy = busyAction !== '' || post.status === 'publishing'
+    // Posts of a multi-site schedule, one per site, with the primary site's post first
+    const groupId = post.primary_post_id ?? post.id
+    const sitePosts = posts
+      .filter(sitePost => sitePost.id === groupId || sitePost.primary_post_id === groupId)
+      .sort((a, b) => Number(!!a.primary_post_id) - Number(!!b.primary_post_id))
+
+    return (
+      <div className="max-w-5xl mx-auto">
+        <button
+          onClick={closePost}
+          className="flex items-center space-x-2 text-gray-600 hover:text-gray-800 mb-6"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to library</span>
+        </button>
+
+        {renderMessages()}
+        {renderSyncNotice()}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-6">
+            <div className="bg-white rounded-xl shadow-sm p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
+                <input
+                  type="text"
+                  value={values.title}
+                  onChange={(e) => setFields({ ...values, title: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Content</label>
+                <PostEditor
+                  value={values.content}
+                  onChange={(content) => setFields({ ...values, content })}
+                />
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Excerpt</label>
+                <textarea
+                  value={values.excerpt}
+                  onChange={(e) => setFields({ ...values, excerpt: e.target.value })}
+                  rows={3}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Tags</label>
+                <input
+                  type="text"
+                  value={values.tags}
+                  onChange={(e) => setFields({ ...values, tags: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                  placeholder="Comma separated"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Meta Description</label>
+                <textarea
+                  value={values.meta_description}
+                  onChange={(e) => setFields({ ...values, meta_description: e.target.value })}
+                  rows={2}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">{values.meta_description.length} characters (aim for 150-160)</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">Post Details</h3>
+              <div className="space-y-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Status</span>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[post.status] || 'text-gray-600 bg-gray-50'}`}>
+                    {statusLabels[post.status] || post.status}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Site</span>
+                  <span className="font-medium">{post.wordpress_sites?.name}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Scheduled for</span>
+                  <span className="font-medium">{new Date(post.scheduled_for).toLocaleString()}</span>
+                </div>
+                {post.published_at && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Published</span>
+                    <span className="font-medium">{new Date(post.published_at).toLocaleString()}</span>
+                  </div>
+                )}
+                {isPublished && post.wordpress_sites && (
+                  <a
+                    href={post.wordpress_post_url || `${post.wordpress_sites.url}/?p=${post.wordpress_post_id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center space-x-1 text-teal-600 hover:text-teal-700"
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                    <span>View on WordPress</span>
+                  </a>
+                )}
+                {post.generation_validation && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Generation check</span>
+                    <span
+                      className="font-medium"
+                      title={[
+                        ...post.generation_validation.errors.map(item => `${item.field} ${item.message}`),
+                        ...post.generation_validation.repairs
+                      ].join('\n') || undefined}
+                    >
+                      {validationLabels[post.generation_validation.status]}
+                    </span>
+                  </div>
+                )}
+                {post.generation_validation?.wordCount && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Words generated</span>
+                    <span className="font-medium">
+                      {post.generation_validation.wordCount.actual} of {post.generation_validation.wordCount.target}
+                    </span>
+                  </div>
+                )}
+                {post.review_notes && (
+                  <div className="pt-2 border-t border-gray-100">
+                    <span className="text-gray-600">Reviewer notes</span>
+                    <p className="text-gray-800 mt-1 whitespace-pre-line">{post.review_notes}</p>
+                  </div>
+                )}
+                {(post.last_error || post.error_message) && post.status !== 'published' && (
+                  <p className="text-red-600">{post.last_error || post.error_message}</p>
+                )}
+              </div>
+            </div>
+
+            {sitePosts.length > 1 && (
+              <div className="bg-white rounded-xl shadow-sm p-6">
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">Sites</h3>
+                <div className="space-y-2 text-sm">
+                  {sitePosts.map((sitePost) => (
+                    <button
+                      key={sitePost.id}
+                      onClick={() => openPost(sitePost)}
+                      disabled={sitePost.id === post.id}
+                      className="w-full flex items-center justify-between text-left rounded-lg px-2 py-1 hover:bg-gray-50 disabled:bg-gray-50 disabled:cursor-default"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-800 truncate">{sitePost.wordpress_sites?.name || 'Unknown site'}</p>
+                        <p className="text-xs text-gray-500">
+                          {!sitePost.primary_post_id ? 'Primary site' : sitePost.canonical_to_primary ? 'Copy with canonical URL' : 'Unique variant'}
+                        </p>
+                      </div>
+                      <span className={`ml-2 px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${statusStyles[sitePost.status] || 'text-gray-600 bg-gray-50'}`}>
+                        {statusLabels[sitePost.status] || sitePost.status}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+                {post.canonical_to_primary && !post.wordpress_post_id && (
+                  <p className="text-sm text-gray-500 mt-3">Published once the primary site's post is on WordPress, so its canonical URL can point there.</p>
+                )}
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-800">SEO</h3>
+                {post.seo_analysis && (
+                  <span className={`px-3 py-1 rounded-full text-sm font-semibold ${seoScoreStyle(post.seo_analysis.score)}`}>
+                    {post.seo_analysis.score}/100
+                  </span>
+                )}
+              </div>
+              {post.seo_analysis ? (
+                <>
+                  <p className="text-sm text-gray-600 mb-3">
+                    Focus keyword: <span className="font-medium text-gray-800">{post.seo_analysis.focusKeyword || 'none'}</span>
+                    {' · '}Reading grade {post.seo_analysis.stats.readingGrade}
+                  </p>
+                  <ul className="space-y-2 text-sm">
+                    {post.seo_analysis.findings.map(finding => (
+                      <li key={finding.check} className="flex items-start space-x-2">
+                        {findingIcons[finding.status]}
+                        <div>
+                          <span className="font-medium text-gray-800">{seoCheckLabels[finding.check] || finding.check}</span>
+                          <p className="text-gray-600">{finding.message}</p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-gray-400 mt-3">
+                    Checked {new Date(post.seo_analysis.analyzedAt).toLocaleString()}. Saving the post checks it again.
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">This post has not been scored yet.</p>
+              )}
+              <button
+                onClick={handleCheckSeo}
+                disabled={isBusy}
+                className="mt-4 w-full flex items-center justify-center space-x-2 border border-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 text-sm"
+              >
+                <Gauge className="w-4 h-4" />
+                <span>{busyAction === 'check SEO' ? 'Checking...' : 'Check SEO'}</span>
+              </button>
+            </div>
+
+            {post.internal_links && post.internal_links.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm p-6">
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">Internal Links</h3>
+                <ul className="space-y-3 text-sm">
+                  {post.internal_links.map(link => {
+                    // Links can be edited out after generation
+                    const present = values.content.includes(link.url) || values.content.includes(link.url.replace(/&/g, '&amp;'))
+                    return (
+                      <li key={link.wordpressPostId} className="flex items-start space-x-2">
+                        <Link2 className={`w-4 h-4 mt-0.5 flex-shrink-0 ${present ? 'text-teal-600' : 'text-gray-300'}`} />
+                        <div className="min-w-0">
+                          <a
+                            href={link.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-medium text-teal-600 hover:text-teal-700 break-words"
+                          >
+                            {link.title}
+                          </a>
+                          <p className="text-gray-500">
+                            {link.placement === 'inline' ? `Anchor: "${link.anchor}"` : 'Listed under Related reading'}
+                            {!present && ' · no longer in the content'}
+                          </p>
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {inReview && (
+              <div className="bg-white rounded-xl shadow-sm p-6 space-y-3 border border-amber-100">
+                <h3 className="text-lg font-semibold text-gray-800 mb-1">Review</h3>
+                <textarea
+                  value={reviewNotes}
+                  onChange={(e) => setReviewNotes(e.target.value)}
+                  rows={4}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent text-sm"
+                  placeholder="Notes for the writer, e.g. what to change when re-generating"
+                />
+
+                {post.status === 'awaiting_review' && (
+                  <button
+                    onClick={handleApprove}
+                    disabled={isBusy}
+                    className="w-full flex items-center justify-center space-x-2 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    <ThumbsUp className="w-4 h-4" />
+                    <span>{busyAction === 'approve' ? 'Approving...' : 'Approve'}</span>
+                  </button>
+                )}
+
+                <button
+                  onClick={handleRegenerate}
+                  disabled={isBusy || !reviewNotes.trim()}
+                  className="w-full flex items-center justify-center space-x-2 border border-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${busyAction === 'regenerate' ? 'animate-spin' : ''}`} />
+                  <span>{busyAction === 'regenerate' ? 'Regenerating...' : 'Re-generate with Notes'}</span>
+                </button>
+
+                {post.status === 'awaiting_review' && (
+                  <button
+                    onClick={handleReject}
+                    disabled={isBusy}
+                    className="w-full flex items-center justify-center space-x-2 border border-red-200 text-red-600 py-2 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    <Ban className="w-4 h-4" />
+                    <span>{busyAction === 'reject' ? 'Rejecting...' : 'Reject'}</span>
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-sm p-6 space-y-3">
+              <h3 className="text-lg font-semibold text-gray-800 mb-1">Actions</h3>
+
+              <button
+                onClick={() => handleSave(false)}
+                disabled={isBusy}
+                className="w-full flex items-center justify-center space-x-2 bg-teal-600 text-white py-2 rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                <span>{busyAction === 'save' ? 'Saving...' : 'Save Changes'}</span>
+              </button>
+
+              {!isPublished && !inReview && (
+                <button
+                  onClick={() => handleSave(true)}
+                  disabled={isBusy}
+                  className="w-full flex items-center justify-center space-x-2 border border-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  <FileText className="w-4 h-4" />
+                  <span>{busyAction === 'save draft' ? 'Saving...' : 'Save as Draft'}</span>
+                </button>
+              )}
+
+              {!inReview && (
+                <button
+                  onClick={handleRegenerate}
+                  disabled={isBusy}
+                  className="w-full flex items-center justify-center space-x-2 border border-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${busyAction === 'regenerate' ? 'animate-spin' : ''}`} />
+                  <span>{busyAction === 'regenerate' ? 'Regenerating...' : 'Re-generate'}</span>
+                </button>
+              )}
+
+              {inReview ? null : isPublished ? (
+                <button
+                  onClick={handlePushUpdate}
+                  disabled={isBusy || !!syncStatus?.remoteMissing}
+                  className="w-full flex items-center justify-center space-x-2 bg-orange-600 text-white py-2 rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50"
+                >
+                  <UploadCloud className="w-4 h-4" />
+                  <span>{busyAction === 'push update' ? 'Updating...' : 'Update on WordPress'}</span>
+                </button>
+              ) : (
+                <button
+                  onClick={handlePublishNow}
+                  disabled={isBusy}
+                  className="w-full flex items-center justify-center space-x-2 bg-orange-600 text-white py-2 rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4" />
+                  <span>{busyAction === 'publish' ? 'Publishing...' : 'Publish Now'}</span>
+                </button>
+              )}
+              <button
+                onClick={handleDelete}
+                disabled={isBusy}
+                className="w-full flex items-center justify-center space-x-2 text-red-600 py-2 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>{busyAction === 'delete' ? 'Deleting...' : 'Delete Post'}</span>
+              </button>
+              <p className="text-xs text-gray-500">Re-generating charges the word count part of the post cost.</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        {selectedPost && fields ? renderEditor(selectedPost, fields) : (
+          <div className="max-w-6xl mx-auto">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="mb-8"
+            >
+              <h1 className="text-3xl font-bold text-gray-800 mb-2">Content Library</h1>
+              <p className="text-gray-600">Browse, edit and publish every post LemmeWrite has generated for you</p>
+            </motion.div>
+
+            {renderMessages()}
+
+            {/* Filters */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="bg-white rounded-xl shadow-sm p-4 mb-6 grid grid-cols-1 md:grid-cols-4 gap-4"
+            >
+              <div className="relative">
+                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search titles, excerpts, tags"
+                  className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                />
+              </div>
+              <select
+                value={siteFilter}
+                onChange={(e) => setSiteFilter(e.target.value)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+              >
+                <option value="all">All sites</option>
+                {siteOptions.map(([id, name]) => (
+                  <option key={id} value={id}>{name}</option>
+                ))}
+              </select>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+              >
+                <option value="all">All statuses</option>
+                {Object.entries(statusLabels).map(([status, label]) => (
+                  <option key={status} value={status}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={scheduleFilter}
+                onChange={(e) => setScheduleFilter(e.target.value)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+              >
+                <option value="all">All schedules</option>
+                <option value="none">One-off posts</option>
+                {scheduleOptions.map(([id, name]) => (
+                  <option key={id} value={id}>{name}</option>
+                ))}
+              </select>
+            </motion.div>
+
+            {/* Post List */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+              className="bg-white rounded-xl shadow-sm"
+            >
+              {loading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-pulse text-gray-400">Loading posts...</div>
+                </div>
+              ) : filteredPosts.length === 0 ? (
+                <div className="text-center py-12">
+                  <FileText className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">No posts match your filters</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {filteredPosts.map((post) => (
+                    <button
+                      key={post.id}
+                      onClick={() => openPost(post)}
+                      className="w-full text-left p-4 hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1 min-w-0">
+                          <h4 className="font-medium text-gray-800 line-clamp-1">{post.title}</h4>
+                          <p className="text-sm text-gray-600 line-clamp-2 mt-1">{post.excerpt}</p>
+                        </div>
+                        <span className={`ml-4 px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${statusStyles[post.status] || 'text-gray-600 bg-gray-50'}`}>
+                          {statusLabels[post.status] || post.status}
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-4 text-sm text-gray-500 mt-2">
+                        <div className="flex items-center space-x-1">
+                          <Globe className="w-3 h-3" />
+                          <span>{post.wordpress_sites?.name}</span>
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <Calendar className="w-3 h-3" />
+                          <span>{new Date(post.scheduled_for).toLocaleDateString()}</span>
+                        </div>
+                        {post.seo_score != null && (
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${seoScoreStyle(post.seo_score)}`}>
+                            SEO {post.seo_score}
+                          </span>
+                        )}
+                        {post.post_schedules && (
+                          <span className="truncate">Schedule: {post.post_schedules.content_input}</span>
+                        )}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </motion.div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
+
+export default ContentLibrary
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Bold, Italic, Heading2, Heading3, List, ListOrdered, Link2, Code } from 'lucide-react'
+
+interface PostEditorProps {
+  value: string
+  onChange: (html: string) => void
+}
+
+// Minimal rich text editor for the HTML body of a post, with a raw HTML view for fine-tuning
+const PostEditor: React.FC<PostEditorProps> = ({ value, onChange }) => {
+  const editorRef = useRef<HTMLDivElement>(null)
+  const [showHtml, setShowHtml] = useState(false)
+
+  // Only push outside changes into the editable area, otherwise the caret jumps while typing
+  useEffect(() => {
+    if (editorRef.current && editorRef.current.innerHTML !== value) {
+      editorRef.current.innerHTML = value
+    }
+  }, [value, showHtml])
+
+  const runCommand = (command: string, argument?: string) => {
+    editorRef.current?.focus()
+    document.execCommand(command, false, argument)
+    if (editorRef.current) {
+      onChange(editorRef.current.innerHTML)
+    }
+  }
+
+  const handleLink = () => {
+    const url = window.prompt('Link URL')
+    if (url) {
+      runCommand('createLink', url)
+    }
+  }
+
+  const toolbar = [
+    { label: 'Bold', icon: Bold, action: () => runCommand('bold') },
+    { label: 'Italic', icon: Italic, action: () => runCommand('italic') },
+    { label: 'Heading 2', icon: Heading2, action: () => runCommand('formatBlock', 'h2') },
+    { label: 'Heading 3', icon: Heading3, action: () => runCommand('formatBlock', 'h3') },
+    { label: 'Bulleted list', icon: List, action: () => runCommand('insertUnorderedList') },
+    { label: 'Numbered list', icon: ListOrdered, action: () => runCommand('insertOrderedList') },
+    { label: 'Link', icon: Link2, action: handleLink },
+  ]
+
+  return (
+    <div className="border border-gray-300 rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between bg-gray-50 border-b border-gray-200 px-2 py-1">
+        <div className="flex items-center space-x-1">
+          {toolbar.map((tool) => (
+            <button
+              key={tool.label}
+              type="button"
+              title={tool.label}
+              onClick={tool.action}
+              disabled={showHtml}
+              className="p-2 rounded text-gray-600 hover:bg-gray-200 disabled:opacity-40"
+            >
+              <tool.icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowHtml(!showHtml)}
+          className={`flex items-center space-x-1 px-2 py-1 rounded text-sm ${
+            showHtml ? 'bg-teal-100 text-teal-700' : 'text-gray-600 hover:bg-gray-200'
+          }`}
+        >
+          <Code className="w-4 h-4" />
+          <span>HTML</span>
+        </button>
+      </div>
+
+      {showHtml ? (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={20}
+          className="w-full px-4 py-3 font-mono text-sm focus:outline-none"
+        />
+      ) : (
+        <div
+          ref={editorRef}
+          contentEditable
+          suppressContentEditableWarning
+          onInput={(e) => onChange(e.currentTarget.innerHTML)}
+          className="px-4 py-3 min-h-[400px] max-h-[600px] overflow-y-auto focus:outline-none text-gray-800 [&_h2]:text-xl [&_h2]:font-semibold [&_h2]:mt-4 [&_h2]:mb-2 [&_h3]:text-lg [&_h3]:font-semibold [&_h3]:mt-3 [&_h3]:mb-2 [&_p]:mb-3 [&_ul]:list-disc [&_ul]:pl-6 [&_ul]:mb-3 [&_ol]:list-decimal [&_ol]:pl-6 [&_ol]:mb-3 [&_a]:text-teal-600 [&_a]:underline"
+        />
+      )}
+    </div>
+  )
+}
+
+export default PostEditor
@@ -10,6 +10,7 @@ import DashboardLayout from '../layout/DashboardLayout'
 import { useAuth } from '../../contexts/AuthContext'
 import { supabase } from '../../lib/supabase'
 import PricingModal from '../pricing/PricingModal'
+import FailedPosts from './FailedPosts'
 
 const Dashboard: React.FC = () => {
   const { connectedSites, user, userPoints } = useAuth()
@@ -149,6 +150,9 @@ const Dashboard: React.FC = () => {
           <p className="text-gray-600">Here's your blog publishing overview and recent activity.</p>
         </motion.div>
 
+        {/* Posts that exhausted their publish retries */}
+        <FailedPosts userId={user?.id} />
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           {stats.map((stat, index) => (
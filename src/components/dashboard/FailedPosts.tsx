@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { AlertCircle, Globe, RefreshCw, RotateCcw } from 'lucide-react'
+import { scheduleService, ScheduledPost } from '../../lib/schedules'
+
+interface DeadLetterPost extends ScheduledPost {
+  wordpress_sites: {
+    name: string
+    url: string
+  }
+}
+
+interface FailedPostsProps {
+  userId?: string
+}
+
+const FailedPosts: React.FC<FailedPostsProps> = ({ userId }) => {
+  const [posts, setPosts] = useState<DeadLetterPost[]>([])
+  const [retryingId, setRetryingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (userId) {
+      loadPosts()
+    }
+  }, [userId])
+
+  const loadPosts = async () => {
+    if (!userId) return
+
+    const { data, error: loadError } = await scheduleService.getDeadLetterPosts(userId)
+    if (loadError) {
+      console.error('Error loading failed posts:', loadError)
+      return
+    }
+
+    setPosts((data as DeadLetterPost[]) || [])
+  }
+
+  const handleRetry = async (postId: string) => {
+    setRetryingId(postId)
+    setError('')
+
+    const { error: retryError } = await scheduleService.retryPost(postId)
+    if (retryError) {
+      setError(typeof retryError === 'string' ? retryError : retryError.message || 'Retry failed')
+    }
+
+    await loadPosts()
+    setRetryingId(null)
+  }
+
+  // Nothing to show while every publish is healthy
+  if (posts.length === 0) {
+    return null
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-8 bg-white rounded-xl shadow-sm p-6 border border-red-100"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Posts That Could Not Be Published</h3>
+          <p className="text-sm text-gray-600">These posts stopped retrying. Fix the cause and retry them.</p>
+        </div>
+        <AlertCircle className="w-5 h-5 text-red-500" />
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {posts.map((post) => (
+          <div key={post.id} className="border border-gray-100 rounded-lg p-4 flex items-start justify-between">
+            <div className="flex-1 min-w-0">
+              <h4 className="font-medium text-gray-800 line-clamp-1">{post.title}</h4>
+              <p className="text-sm text-red-600 mt-1 line-clamp-2">{post.last_error || post.error_message}</p>
+              <div className="flex items-center space-x-4 text-xs text-gray-500 mt-2">
+                <div className="flex items-center space-x-1">
+                  <Globe className="w-3 h-3" />
+                  <span>{post.wordpress_sites?.name}</span>
+                </div>
+                <span>{post.attempt_count} attempt{post.attempt_count === 1 ? '' : 's'}</span>
+              </div>
+            </div>
+            <button
+              onClick={() => post.id && handleRetry(post.id)}
+              disabled={retryingId === post.id}
+              className="ml-4 flex items-center space-x-1 px-3 py-2 text-sm bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+            >
+              {retryingId === post.id ? (
+                <RefreshCw className="w-4 h-4 animate-spin" />
+              ) : (
+                <RotateCcw className="w-4 h-4" />
+              )}
+              <span>Retry now</span>
+            </button>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  )
+}
+
+export default FailedPosts
@@ -5,7 +5,7 @@ import { Link, useLocation } from 'react-router-dom'
 import { 
   Home, Calendar, Settings, Users, BarChart3, 
   FileText, Zap, MessageSquare, Target, Globe,
-  PenTool, Clock
+  PenTool, Clock, CalendarDays
 } from 'lucide-react'
 import { useAuth } from '../../contexts/AuthContext'
 import { supabase } from '../../lib/supabase'
@@ -27,6 +27,7 @@ const Sidebar: React.FC = () => {
 
   const mainFeatures = [
     { name: 'Create Post Schedule', icon: Calendar, path: '/schedule' },
+    { name: 'Content Calendar', icon: CalendarDays, path: '/calendar' },
   ]
 
   const bottomItems = [
@@ -115,11 +115,7 @@ const PricingModal: React.FC<PricingModalProps> = ({ isOpen, onClose }) => {
     setError('')
 
     try {
-      const result = await paypalService.createSubscription({
-        planId,
-        userEmail: user.email || '',
-        userName: `${user.user_metadata?.first_name || ''} ${user.user_metadata?.last_name || ''}`.trim() || 'User'
-      })
+      const result = await paypalService.createSubscription({ planId })
 
       if (result.success && result.approvalUrl) {
         // Redirect to PayPal for approval
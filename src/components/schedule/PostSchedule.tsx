@@ -6,11 +6,16 @@ import {
 } from 'lucide-react'
 import DashboardLayout from '../layout/DashboardLayout'
 import { useAuth } from '../../contexts/AuthContext'
-import { scheduleService, PostSchedule as PostScheduleType, ImmediatePostRequest } from '../../lib/schedules'
+import { scheduleService, PostSchedule as PostScheduleType, ImmediatePostRequest, FanoutMode } from '../../lib/schedules'
 import { supabase } from '../../lib/supabase'
+import { getAvailableModels } from '../../lib/llm'
+import { GenerationProgress } from '../../lib/openai'
+import { voiceService, BrandVoice } from '../../lib/voices'
+import { wordPressService, WordPressTerm, TagPolicy, PublishOptionsResponse, PublishSettings } from '../../lib/wordpress'
+import PublishSettingsFields from '../settings/PublishSettingsFields'
 
 const PostSchedule: React.FC = () => {
-  const { connectedSites, userPoints, loadUserPoints } = useAuth()
+  const { user, connectedSites, userPoints, loadUserPoints } = useAuth()
   const [scheduleType, setScheduleType] = useState('topic')
   const [frequency, setFrequency] = useState('daily')
   const [wordCount, setWordCount] = useState('1000')
@@ -24,11 +29,96 @@ const PostSchedule: React.FC = () => {
   const [stopDate, setStopDate] = useState('')
   const [maxPosts, setMaxPosts] = useState('')
   const [publishTime, setPublishTime] = useState('09:00')
+  const [requiresApproval, setRequiresApproval] = useState(false)
+  const [wordpressScheduling, setWordpressScheduling] = useState(false)
+  const [extraSiteIds, setExtraSiteIds] = useState<string[]>([])
+  const [fanoutMode, setFanoutMode] = useState<FanoutMode>('unique')
+  const [model, setModel] = useState('')
+  const [brandVoiceId, setBrandVoiceId] = useState('')
+  const [internalLinkCount, setInternalLinkCount] = useState('3')
+  const [voices, setVoices] = useState<BrandVoice[]>([])
+  const [siteCategories, setSiteCategories] = useState<WordPressTerm[]>([])
+  const [categoryIds, setCategoryIds] = useState<number[]>([])
+  const [tagPolicy, setTagPolicy] = useState<TagPolicy>('allow_new')
+  const [loadingCategories, setLoadingCategories] = useState(false)
+  const [publishOptions, setPublishOptions] = useState<PublishOptionsResponse | null>(null)
+  const [publishSettings, setPublishSettings] = useState<PublishSettings>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isPostingNow, setIsPostingNow] = useState(false)
+  const [progress, setProgress] = useState<GenerationProgress | null>(null)
   const [success, setSuccess] = useState('')
   const [error, setError] = useState('')
 
+  // Voices depend on the site: its own voices plus the ones shared by every site
+  useEffect(() => {
+    setBrandVoiceId('')
+    if (!user || !selectedSite) {
+      setVoices([])
+      return
+    }
+
+    voiceService.getVoicesForSite(user.id, selectedSite).then(({ data, error: voicesError }) => {
+      if (voicesError) {
+        console.error('Error loading brand voices:', voicesError)
+      }
+      setVoices(data || [])
+    })
+  }, [user, selectedSite])
+
+  // Categories are chosen from the ones the site already has
+  useEffect(() => {
+    setCategoryIds([])
+    setSiteCategories([])
+    if (!selectedSite) return
+
+    let cancelled = false
+    setLoadingCategories(true)
+    wordPressService.getTerms(selectedSite).then((result) => {
+      if (cancelled) return
+      if (!result.success) {
+        console.error('Error loading WordPress categories:', result.error)
+      }
+      setSiteCategories(result.categories || [])
+      setLoadingCategories(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedSite])
+
+  // Post types, authors and formats come from the site's REST index
+  useEffect(() => {
+    setPublishSettings({})
+    setPublishOptions(null)
+    if (!selectedSite) return
+
+    let cancelled = false
+    wordPressService.getPublishOptions(selectedSite).then((result) => {
+      if (cancelled) return
+      if (!result.success) {
+        console.error('Error loading WordPress publishing options:', result.error)
+      }
+      setPublishOptions(result)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedSite])
+
+  const toggleCategory = (id: number) => {
+    setCategoryIds(prev => prev.includes(id) ? prev.filter(categoryId => categoryId !== id) : [...prev, id])
+  }
+
+  // Every other connected site can also receive the schedule's posts
+  const otherSites = connectedSites.filter(site => site.id !== selectedSite)
+  const fanoutSiteIds = extraSiteIds.filter(siteId => otherSites.some(site => site.id === siteId))
+
+  const toggleExtraSite = (id: string) => {
+    setExtraSiteIds(prev => prev.includes(id) ? prev.filter(siteId => siteId !== id) : [...prev, id])
+  }
+
   const clearSuccess = () => setSuccess('')
   const clearError = () => setError('')
 
@@ -58,6 +148,9 @@ const PostSchedule: React.FC = () => {
     return freqCost + wordCost
   }
 
+  // Unique variants are generated, and charged, once per site; canonical copies are free
+  const sitesCharged = fanoutMode === 'unique' ? 1 + fanoutSiteIds.length : 1
+
   const handleCreateSchedule = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -97,19 +190,35 @@ const PostSchedule: React.FC = () => {
         image_keywords: imageKeywords || undefined,
         frequency: frequency as 'daily' | 'weekly' | 'biweekly' | 'monthly',
         word_count: parseInt(wordCount),
+        model: model || undefined,
+        brand_voice_id: brandVoiceId || null,
+        internal_link_count: parseInt(internalLinkCount),
+        category_ids: categoryIds,
+        tag_policy: tagPolicy,
+        publish_settings: publishSettings,
         publish_time: publishTime,
         stop_condition: stopCondition as 'never' | 'date' | 'post_count' | 'points_exhausted',
         stop_date: stopCondition === 'date' ? stopDate : undefined,
-        max_posts: stopCondition === 'post_count' ? parseInt(maxPosts) : undefined
+        max_posts: stopCondition === 'post_count' ? parseInt(maxPosts) : undefined,
+        requires_approval: requiresApproval,
+        wordpress_scheduling: wordpressScheduling,
+        fanout_mode: fanoutMode
       }
 
-      const { data, error: createError } = await scheduleService.createSchedule(scheduleData)
+      const { error: createError, firstPostError } = await scheduleService.createSchedule(scheduleData, setProgress, fanoutSiteIds)
 
       if (createError) {
         throw createError
       }
 
-      setSuccess('Post schedule created successfully! Your first blog post will be generated and scheduled shortly.')
+      if (firstPostError) {
+        const reason = firstPostError.message || String(firstPostError)
+        setError(`The schedule was created, but its first post could not be generated: ${reason}`)
+      } else {
+        setSuccess(requiresApproval
+          ? 'Post schedule created successfully! Each generated post will wait in the Content Library until it is approved.'
+          : 'Post schedule created successfully! Your first blog post will be generated and scheduled shortly.')
+      }
       
       // Reset form
       setTopic('')
@@ -118,6 +227,7 @@ const PostSchedule: React.FC = () => {
       setDescription('')
       setImageKeywords('')
       setSelectedSite('')
+      setExtraSiteIds([])
       
       // Reload user points to reflect the new post
       loadUserPoints()
@@ -127,6 +237,7 @@ const PostSchedule: React.FC = () => {
       setError(err.message || 'Failed to create schedule. Please try again.')
     } finally {
       setIsSubmitting(false)
+      setProgress(null)
     }
   }
 
@@ -167,18 +278,28 @@ const PostSchedule: React.FC = () => {
         content_input: contentInput,
         description: description || undefined,
         image_keywords: imageKeywords || undefined,
-        word_count: parseInt(wordCount)
+        frequency: frequency as 'daily' | 'weekly' | 'biweekly' | 'monthly',
+        word_count: parseInt(wordCount),
+        requires_approval: requiresApproval,
+        model: model || undefined,
+        brand_voice_id: brandVoiceId || undefined,
+        internal_link_count: parseInt(internalLinkCount),
+        category_ids: categoryIds,
+        tag_policy: tagPolicy,
+        publish_settings: publishSettings
       }
 
-      const { data, error: createError } = await scheduleService.createImmediatePost(postData)
+      const { data, error: createError } = await scheduleService.createImmediatePost(postData, setProgress)
 
       if (createError) {
         throw createError
       }
 
-      if (data?.status === 'published') {
+      if (data?.status === 'awaiting_review') {
+        setSuccess(`Blog post "${data.title}" is ready for review in the Content Library. It will be published once approved.`)
+      } else if (data?.status === 'published') {
         setSuccess(`Blog post "${data.title}" has been successfully published to your WordPress site!`)
-      } else if (data?.status === 'failed') {
+      } else if (data?.status === 'failed' || data?.status === 'dead_letter') {
         setError(`Failed to publish blog post: ${data.error_message || 'Unknown error occurred'}`)
       } else {
         setSuccess('Blog post created and queued for publishing! It will be published to your WordPress site shortly.')
@@ -200,6 +321,7 @@ const PostSchedule: React.FC = () => {
       setError(err.message || 'Failed to create post. Please try again.')
     } finally {
       setIsPostingNow(false)
+      setProgress(null)
     }
   }
 
@@ -450,6 +572,161 @@ const PostSchedule: React.FC = () => {
                         className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
                       />
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        AI Model
+                      </label>
+                      <select
+                        value={model}
+                        onChange={(e) => setModel(e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                      >
+                        <option value="">Default model</option>
+                        {getAvailableModels().map((name) => (
+                          <option key={name} value={name}>{name}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Brand Voice
+                      </label>
+                      <select
+                        value={brandVoiceId}
+                        onChange={(e) => setBrandVoiceId(e.target.value)}
+                        disabled={!selectedSite}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent disabled:bg-gray-50"
+                      >
+                        <option value="">
+                          {voices.some(voice => voice.is_site_default) ? "Site's default voice" : 'Default style'}
+                        </option>
+                        {voices.map((voice) => (
+                          <option key={voice.id} value={voice.id}>{voice.name}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Internal Links
+                      </label>
+                      <select
+                        value={internalLinkCount}
+                        onChange={(e) => setInternalLinkCount(e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                      >
+                        <option value="0">No internal links</option>
+                        {[1, 2, 3, 4, 5, 6, 8, 10].map((count) => (
+                          <option key={count} value={count}>
+                            Up to {count} link{count === 1 ? '' : 's'} to existing posts
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-sm text-gray-500 mt-1">Links the most relevant posts already published on the site</p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Tags
+                      </label>
+                      <select
+                        value={tagPolicy}
+                        onChange={(e) => setTagPolicy(e.target.value as TagPolicy)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                      >
+                        <option value="allow_new">Match existing tags, create new ones</option>
+                        <option value="existing_only">Only use existing tags</option>
+                        <option value="none">Don't add tags</option>
+                      </select>
+                      <p className="text-sm text-gray-500 mt-1">Suggested tags are matched to the site's tags before any are created</p>
+                    </div>
+
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Categories
+                      </label>
+                      {!selectedSite ? (
+                        <p className="text-sm text-gray-500">Select a site to choose from its categories</p>
+                      ) : loadingCategories ? (
+                        <p className="text-sm text-gray-500">Loading categories...</p>
+                      ) : siteCategories.length === 0 ? (
+                        <p className="text-sm text-gray-500">No categories found on this site, WordPress' default category is used</p>
+                      ) : (
+                        <>
+                          <div className="max-h-40 overflow-y-auto border border-gray-300 rounded-lg p-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {siteCategories.map((category) => (
+                              <label key={category.id} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={categoryIds.includes(category.id)}
+                                  onChange={() => toggleCategory(category.id)}
+                                  className="w-4 h-4 text-teal-600 border-gray-300 rounded focus:ring-teal-600"
+                                />
+                                <span>{category.name}</span>
+                                <span className="text-gray-400">({category.count})</span>
+                              </label>
+                            ))}
+                          </div>
+                          <p className="text-sm text-gray-500 mt-1">
+                            {categoryIds.length ? `${categoryIds.length} selected` : "None selected, WordPress' default category is used"}
+                          </p>
+                        </>
+                      )}
+                    </div>
+
+                    {selectedSite && (
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Publishing
+                        </label>
+                        <PublishSettingsFields
+                          options={publishOptions}
+                          value={publishSettings}
+                          onChange={setPublishSettings}
+                          defaultLabel="Site default"
+                        />
+                      </div>
+                    )}
+
+                    {selectedSite && otherSites.length > 0 && (
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Also Publish To
+                        </label>
+                        <div className="max-h-40 overflow-y-auto border border-gray-300 rounded-lg p-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                          {otherSites.map((site) => (
+                            <label key={site.id} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={fanoutSiteIds.includes(site.id)}
+                                onChange={() => toggleExtraSite(site.id)}
+                                className="w-4 h-4 text-teal-600 border-gray-300 rounded focus:ring-teal-600"
+                              />
+                              <span>{site.name}</span>
+                            </label>
+                          ))}
+                        </div>
+                        {fanoutSiteIds.length > 0 && (
+                          <>
+                            <select
+                              value={fanoutMode}
+                              onChange={(e) => setFanoutMode(e.target.value as FanoutMode)}
+                              className="w-full mt-3 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                            >
+                              <option value="unique">Write a unique version for each site</option>
+                              <option value="canonical">Publish the same post with a canonical URL to this site</option>
+                            </select>
+                            <p className="text-sm text-gray-500 mt-1">
+                              {fanoutMode === 'unique'
+                                ? 'Each site gets its own post on the same topic, charged like any other post.'
+                                : "Copies wait until the post is on the site selected above. Canonical URLs are set through Yoast SEO or Rank Math, and the other sites use their default category."}
+                            </p>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </motion.div>
 
@@ -537,6 +814,62 @@ const PostSchedule: React.FC = () => {
                   </div>
                 </motion.div>
 
+                {/* Review Options */}
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.375 }}
+                  className="bg-white rounded-xl shadow-sm p-6"
+                >
+                  <h3 className="text-lg font-semibold text-gray-800 mb-4">Review Before Publishing</h3>
+                  <label className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={requiresApproval}
+                      onChange={(e) => setRequiresApproval(e.target.checked)}
+                      className="mt-1 w-4 h-4 text-teal-600 border-gray-300 rounded focus:ring-teal-600"
+                    />
+                    <div>
+                      <span className="font-medium text-gray-800">Require approval</span>
+                      <p className="text-sm text-gray-600">
+                        Generated posts wait in the Content Library until someone approves them. Only approved posts are published.
+                      </p>
+                    </div>
+                  </label>
+                  <label className="flex items-start space-x-3 cursor-pointer mt-4">
+                    <input
+                      type="checkbox"
+                      checked={wordpressScheduling}
+                      onChange={(e) => setWordpressScheduling(e.target.checked)}
+                      className="mt-1 w-4 h-4 text-teal-600 border-gray-300 rounded focus:ring-teal-600"
+                    />
+                    <div>
+                      <span className="font-medium text-gray-800">Schedule on WordPress in advance</span>
+                      <p className="text-sm text-gray-600">
+                        Posts are generated up to 12 hours early and sent to WordPress as scheduled posts, and WordPress publishes them at the scheduled time.
+                      </p>
+                    </div>
+                  </label>
+                </motion.div>
+
+                {/* Long-form posts are written section by section, so show how far along they are */}
+                {progress && (isPostingNow || isSubmitting) && (
+                  <div className="bg-white rounded-xl shadow-sm p-6">
+                    <div className="flex justify-between text-sm mb-2">
+                      <span className="font-medium text-gray-800">{progress.message}</span>
+                      <span className="text-gray-600">
+                        {progress.completedSteps} / {progress.totalSteps}
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-teal-600 h-2 rounded-full transition-all duration-500"
+                        style={{ width: `${Math.round(progress.completedSteps / progress.totalSteps * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
                 {/* Action Buttons */}
                 <motion.div
                   initial={{ opacity: 0, y: 20 }}
@@ -555,7 +888,7 @@ const PostSchedule: React.FC = () => {
                     {isPostingNow ? (
                       <>
                         <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                        <span>Publishing Now...</span>
+                        <span>{requiresApproval ? 'Generating...' : 'Publishing Now...'}</span>
                       </>
                     ) : (
                       <>
@@ -608,10 +941,16 @@ const PostSchedule: React.FC = () => {
                     <span className="text-gray-600">Word count bonus:</span>
                     <span className="font-medium">+{wordCounts.find(w => w.id === wordCount)?.cost || 0} points</span>
                   </div>
+                  {sitesCharged > 1 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Sites:</span>
+                      <span className="font-medium">×{sitesCharged}</span>
+                    </div>
+                  )}
                   <div className="border-t pt-3">
                     <div className="flex justify-between font-semibold">
                       <span>Total per post:</span>
-                      <span className="text-teal-600">{calculateCost()} points</span>
+                      <span className="text-teal-600">{calculateCost() * sitesCharged} points</span>
                     </div>
                   </div>
                 </div>
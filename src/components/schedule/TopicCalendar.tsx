@@ -0,0 +1,576 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  CalendarDays, ChevronLeft, ChevronRight, GripVertical, Plus, Upload, Sparkles,
+  Trash2, CheckCircle, X, ListOrdered
+} from 'lucide-react'
+import DashboardLayout from '../layout/DashboardLayout'
+import { useAuth } from '../../contexts/AuthContext'
+import { scheduleService, PostSchedule, ScheduledPost } from '../../lib/schedules'
+import { topicService, ScheduleTopic, parseTopicList } from '../../lib/topics'
+
+interface CalendarSchedule extends PostSchedule {
+  id: string
+  wordpress_sites: {
+    name: string
+    url: string
+  } | null
+}
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const sourceLabels: Record<ScheduleTopic['source'], string> = {
+  manual: 'Added',
+  import: 'Imported',
+  suggested: 'Suggested',
+}
+
+const postStyles: Record<string, string> = {
+  published: 'bg-green-50 text-green-700',
+  awaiting_review: 'bg-amber-50 text-amber-700',
+  failed: 'bg-red-50 text-red-700',
+  dead_letter: 'bg-red-50 text-red-700',
+}
+
+const toDateKey = (date: Date) => date.toLocaleDateString('en-CA')
+
+const addStep = (date: Date, frequency: PostSchedule['frequency'], steps: number) => {
+  const next = new Date(date)
+  switch (frequency) {
+    case 'daily':
+      next.setDate(next.getDate() + steps)
+      break
+    case 'weekly':
+      next.setDate(next.getDate() + steps * 7)
+      break
+    case 'biweekly':
+      next.setDate(next.getDate() + steps * 14)
+      break
+    case 'monthly':
+      next.setMonth(next.getMonth() + steps)
+      break
+  }
+  return next
+}
+
+// Dates the schedule will generate its next posts on, following update_next_post_date and stopping where the schedule does
+const projectPostDates = (schedule: CalendarSchedule, count: number): Date[] => {
+  if (schedule.status === 'completed' || !schedule.next_post_date) return []
+
+  const start = new Date(schedule.next_post_date)
+  const dates: Date[] = []
+  for (let index = 0; index < count; index++) {
+    const date = addStep(start, schedule.frequency, index)
+    if (schedule.stop_condition === 'date' && schedule.stop_date && date > new Date(schedule.stop_date)) break
+    if (schedule.stop_condition === 'post_count' && schedule.max_posts &&
+      (schedule.posts_generated ?? 0) + index >= schedule.max_posts) break
+    dates.push(date)
+  }
+  return dates
+}
+
+const TopicCalendar: React.FC = () => {
+  const { user } = useAuth()
+  const [schedules, setSchedules] = useState<CalendarSchedule[]>([])
+  const [scheduleId, setScheduleId] = useState('')
+  const [topics, setTopics] = useState<ScheduleTopic[]>([])
+  const [posts, setPosts] = useState<ScheduledPost[]>([])
+  const [month, setMonth] = useState(() => {
+    const today = new Date()
+    return new Date(today.getFullYear(), today.getMonth(), 1)
+  })
+  const [newTopics, setNewTopics] = useState('')
+  const [suggestions, setSuggestions] = useState<string[]>([])
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState('')
+  const [success, setSuccess] = useState('')
+  const [error, setError] = useState('')
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (user) {
+      loadSchedules()
+    }
+  }, [user])
+
+  useEffect(() => {
+    setSuggestions([])
+    if (scheduleId) {
+      loadScheduleContent(scheduleId)
+    }
+  }, [scheduleId])
+
+  const loadSchedules = async () => {
+    if (!user) return
+
+    setLoading(true)
+    const { data, error: loadError } = await scheduleService.getUserSchedules(user.id)
+    if (loadError) {
+      console.error('Error loading schedules:', loadError)
+      setError('Failed to load your schedules')
+    } else {
+      const loaded = (data as CalendarSchedule[]) || []
+      setSchedules(loaded)
+      if (loaded.length && !loaded.some(schedule => schedule.id === scheduleId)) {
+        setScheduleId(loaded[0].id)
+      }
+    }
+    setLoading(false)
+  }
+
+  const loadScheduleContent = async (id: string) => {
+    if (!user) return
+
+    const [topicResult, postResult] = await Promise.all([
+      topicService.getTopics(id),
+      scheduleService.getScheduledPosts(user.id)
+    ])
+
+    if (topicResult.error || postResult.error) {
+      console.error('Error loading schedule content:', topicResult.error || postResult.error)
+      setError('Failed to load the topic queue')
+      return
+    }
+
+    setTopics(topicResult.data || [])
+    setPosts((postResult.data || []).filter(post => post.schedule_id === id))
+  }
+
+  const errorMessage = (err: unknown, fallback: string) => {
+    if (typeof err === 'string') return err
+    if (err instanceof Error || (err && typeof err === 'object' && 'message' in err)) {
+      return (err as { message: string }).message
+    }
+    return fallback
+  }
+
+  const schedule = schedules.find(item => item.id === scheduleId)
+  const queue = topics.filter(topic => topic.status === 'queued')
+  const usedCount = topics.length - queue.length
+  const projectedDates = useMemo(
+    () => (schedule ? projectPostDates(schedule, queue.length) : []),
+    [schedule, queue.length]
+  )
+
+  // Calendar entries per day: saved posts, then the queued topics on the dates they are expected to run
+  const calendarEntries = useMemo(() => {
+    const entries = new Map<string, { posts: ScheduledPost[]; slots: { index: number; topic: ScheduleTopic }[] }>()
+    const entryFor = (key: string) => {
+      if (!entries.has(key)) entries.set(key, { posts: [], slots: [] })
+      return entries.get(key)!
+    }
+
+    posts.forEach(post => entryFor(toDateKey(new Date(post.scheduled_for))).posts.push(post))
+    projectedDates.forEach((date, index) => entryFor(toDateKey(date)).slots.push({ index, topic: queue[index] }))
+    return entries
+  }, [posts, projectedDates, queue])
+
+  const calendarDays = useMemo(() => {
+    const days: (Date | null)[] = Array(month.getDay()).fill(null)
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()
+    for (let day = 1; day <= daysInMonth; day++) {
+      days.push(new Date(month.getFullYear(), month.getMonth(), day))
+    }
+    return days
+  }, [month])
+
+  const addTopics = async (items: string[], source: ScheduleTopic['source']) => {
+    if (!user || !scheduleId || !items.length) return false
+
+    setBusy(source)
+    setError('')
+    setSuccess('')
+
+    const { error: addError } = await topicService.addTopics(scheduleId, user.id, items, source)
+    setBusy('')
+
+    if (addError) {
+      setError(errorMessage(addError, 'Failed to add topics'))
+      return false
+    }
+
+    setSuccess(`${items.length} topic${items.length === 1 ? '' : 's'} added to the queue.`)
+    await loadScheduleContent(scheduleId)
+    return true
+  }
+
+  const handlePaste = async () => {
+    if (await addTopics(parseTopicList(newTopics), 'manual')) {
+      setNewTopics('')
+    }
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const items = parseTopicList(await file.text())
+    if (!items.length) {
+      setError('No topics found in that file. Put one topic per line, or topics in the first column.')
+      return
+    }
+    await addTopics(items, 'import')
+  }
+
+  const handleSuggest = async () => {
+    if (!scheduleId) return
+
+    setBusy('suggest')
+    setError('')
+    setSuccess('')
+
+    const { data, error: suggestError } = await topicService.suggestTopics(scheduleId)
+    setBusy('')
+
+    if (suggestError) {
+      setError(errorMessage(suggestError, 'Failed to suggest topics'))
+    } else if (!data?.length) {
+      setError('No new topics found that differ enough from this schedule\'s queue and earlier posts.')
+    } else {
+      setSuggestions(data)
+    }
+  }
+
+  const acceptSuggestions = async (items: string[]) => {
+    if (await addTopics(items, 'suggested')) {
+      setSuggestions(current => current.filter(item => !items.includes(item)))
+    }
+  }
+
+  const handleDelete = async (topicId: string) => {
+    const { error: deleteError } = await topicService.deleteTopic(topicId)
+    if (deleteError) {
+      setError(errorMessage(deleteError, 'Failed to remove topic'))
+      return
+    }
+    setTopics(current => current.filter(topic => topic.id !== topicId))
+  }
+
+  // Moves the dragged topic to a queue position, from the list or from a calendar date
+  const moveTopic = async (toIndex: number) => {
+    const dragged = queue.find(topic => topic.id === draggedId)
+    setDraggedId(null)
+    if (!dragged || queue[toIndex]?.id === dragged.id) return
+
+    const reordered = queue.filter(topic => topic.id !== dragged.id)
+    reordered.splice(Math.min(toIndex, reordered.length), 0, dragged)
+    setTopics([
+      ...topics.filter(topic => topic.status !== 'queued'),
+      ...reordered.map((topic, index) => ({ ...topic, position: index + 1 }))
+    ])
+
+    const { error: reorderError } = await topicService.reorderTopics(scheduleId, reordered.map(topic => topic.id))
+    if (reorderError) {
+      setError(errorMessage(reorderError, 'Failed to save the new order'))
+      loadScheduleContent(scheduleId)
+    }
+  }
+
+  const dropTarget = (index: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (draggedId) e.preventDefault()
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      moveTopic(index)
+    }
+  })
+
+  const scheduleLabel = (item: CalendarSchedule) =>
+    `${item.content_input} · ${item.wordpress_sites?.name || 'Unknown site'} · ${item.frequency}${item.status !== 'active' ? ` (${item.status})` : ''}`
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <div className="max-w-7xl mx-auto">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8"
+          >
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">Content Calendar</h1>
+            <p className="text-gray-600">Queue the topics each schedule writes about and see when they will go out</p>
+          </motion.div>
+
+          {success && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-center justify-between"
+            >
+              <div className="flex items-center space-x-2">
+                <CheckCircle className="w-5 h-5" />
+                <span>{success}</span>
+              </div>
+              <button onClick={() => setSuccess('')} className="text-green-500 hover:text-green-700 ml-4">
+                <X className="w-4 h-4" />
+              </button>
+            </motion.div>
+          )}
+
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center justify-between"
+            >
+              <span>{error}</span>
+              <button onClick={() => setError('')} className="text-red-500 hover:text-red-700 ml-4">
+                <X className="w-4 h-4" />
+              </button>
+            </motion.div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <div className="w-8 h-8 border-4 border-teal-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : !schedules.length ? (
+            <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+              <CalendarDays className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-800 mb-2">No schedules yet</h3>
+              <p className="text-gray-600">Create a post schedule first, then plan its topics here.</p>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Schedule</label>
+                <select
+                  value={scheduleId}
+                  onChange={(e) => setScheduleId(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                >
+                  {schedules.map(item => (
+                    <option key={item.id} value={item.id}>{scheduleLabel(item)}</option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-500 mt-2">
+                  Each post uses the next topic in the queue. When the queue is empty the schedule goes back to
+                  "{schedule?.content_input}".
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+                <div className="lg:col-span-2 space-y-6">
+                  <div className="bg-white rounded-xl shadow-sm p-6">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-4">Add Topics</h3>
+                    <textarea
+                      value={newTopics}
+                      onChange={(e) => setNewTopics(e.target.value)}
+                      rows={4}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                      placeholder="One topic per line"
+                    />
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      <button
+                        onClick={handlePaste}
+                        disabled={!newTopics.trim() || busy !== ''}
+                        className="flex items-center space-x-2 bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+                      >
+                        <Plus className="w-4 h-4" />
+                        <span>Add to queue</span>
+                      </button>
+                      <button
+                        onClick={() => fileInput.current?.click()}
+                        disabled={busy !== ''}
+                        className="flex items-center space-x-2 border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+                      >
+                        <Upload className="w-4 h-4" />
+                        <span>{busy === 'import' ? 'Importing...' : 'Import CSV'}</span>
+                      </button>
+                      <button
+                        onClick={handleSuggest}
+                        disabled={busy !== ''}
+                        className="flex items-center space-x-2 border border-teal-600 text-teal-700 hover:bg-teal-50 px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+                      >
+                        <Sparkles className="w-4 h-4" />
+                        <span>{busy === 'suggest' ? 'Thinking...' : 'Suggest topics'}</span>
+                      </button>
+                      <input
+                        ref={fileInput}
+                        type="file"
+                        accept=".csv,.txt,text/csv,text/plain"
+                        onChange={handleImport}
+                        className="hidden"
+                      />
+                    </div>
+
+                    {suggestions.length > 0 && (
+                      <div className="mt-4 border-t border-gray-100 pt-4">
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-sm font-medium text-gray-700">Suggestions</span>
+                          <button
+                            onClick={() => acceptSuggestions(suggestions)}
+                            disabled={busy !== ''}
+                            className="text-sm text-teal-600 hover:text-teal-700 disabled:opacity-50"
+                          >
+                            Add all
+                          </button>
+                        </div>
+                        <ul className="space-y-2">
+                          {suggestions.map(suggestion => (
+                            <li key={suggestion} className="flex items-start justify-between space-x-2 text-sm">
+                              <span className="text-gray-700">{suggestion}</span>
+                              <div className="flex items-center space-x-1 flex-shrink-0">
+                                <button
+                                  onClick={() => acceptSuggestions([suggestion])}
+                                  disabled={busy !== ''}
+                                  className="p-1 text-teal-600 hover:text-teal-700 disabled:opacity-50"
+                                  title="Add to queue"
+                                >
+                                  <Plus className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => setSuggestions(current => current.filter(item => item !== suggestion))}
+                                  className="p-1 text-gray-400 hover:text-gray-600"
+                                  title="Dismiss"
+                                >
+                                  <X className="w-4 h-4" />
+                                </button>
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="bg-white rounded-xl shadow-sm p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-gray-800">Topic Queue</h3>
+                      <span className="text-sm text-gray-500">
+                        {queue.length} queued{usedCount ? ` · ${usedCount} used` : ''}
+                      </span>
+                    </div>
+
+                    {queue.length === 0 ? (
+                      <div className="text-center py-8">
+                        <ListOrdered className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                        <p className="text-sm text-gray-500">No topics queued. Add some above.</p>
+                      </div>
+                    ) : (
+                      <ul className="space-y-2">
+                        {queue.map((topic, index) => (
+                          <li
+                            key={topic.id}
+                            draggable
+                            onDragStart={() => setDraggedId(topic.id)}
+                            onDragEnd={() => setDraggedId(null)}
+                            {...dropTarget(index)}
+                            className={`flex items-center space-x-3 p-3 border rounded-lg bg-white cursor-move ${
+                              draggedId === topic.id ? 'opacity-50 border-teal-300' : 'border-gray-200 hover:border-gray-300'
+                            }`}
+                          >
+                            <GripVertical className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                            <span className="text-xs font-medium text-gray-400 w-5">{index + 1}</span>
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm text-gray-800 truncate" title={topic.topic}>{topic.topic}</p>
+                              <p className="text-xs text-gray-500">
+                                {projectedDates[index]
+                                  ? projectedDates[index].toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+                                  : 'After the schedule ends'}
+                                {' · '}{sourceLabels[topic.source]}
+                              </p>
+                            </div>
+                            <button
+                              onClick={() => handleDelete(topic.id)}
+                              className="p-1 text-gray-400 hover:text-red-600 flex-shrink-0"
+                              title="Remove from queue"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+
+                <div className="lg:col-span-3">
+                  <div className="bg-white rounded-xl shadow-sm p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <button
+                        onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+                        className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg"
+                      >
+                        <ChevronLeft className="w-5 h-5" />
+                      </button>
+                      <h3 className="text-lg font-semibold text-gray-800">
+                        {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+                      </h3>
+                      <button
+                        onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+                        className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg"
+                      >
+                        <ChevronRight className="w-5 h-5" />
+                      </button>
+                    </div>
+
+                    <div className="grid grid-cols-7 gap-1">
+                      {weekdays.map(day => (
+                        <div key={day} className="text-xs font-medium text-gray-500 text-center py-2">{day}</div>
+                      ))}
+                      {calendarDays.map((day, index) => {
+                        if (!day) return <div key={`blank-${index}`} />
+
+                        const entry = calendarEntries.get(toDateKey(day))
+                        const slot = entry?.slots[0]
+                        const isToday = toDateKey(day) === toDateKey(new Date())
+
+                        return (
+                          <div
+                            key={toDateKey(day)}
+                            {...(slot ? dropTarget(slot.index) : {})}
+                            className={`min-h-24 border rounded-lg p-1 ${
+                              slot && draggedId ? 'border-teal-300 bg-teal-50/40' : 'border-gray-100'
+                            }`}
+                          >
+                            <div className={`text-xs mb-1 ${isToday ? 'font-bold text-teal-700' : 'text-gray-500'}`}>
+                              {day.getDate()}
+                            </div>
+                            <div className="space-y-1">
+                              {entry?.posts.map(post => (
+                                <div
+                                  key={post.id}
+                                  className={`text-xs px-1 py-0.5 rounded truncate ${postStyles[post.status] || 'bg-gray-100 text-gray-700'}`}
+                                  title={post.title}
+                                >
+                                  {post.title}
+                                </div>
+                              ))}
+                              {entry?.slots.map(({ topic }) => (
+                                <div
+                                  key={topic.id}
+                                  draggable
+                                  onDragStart={() => setDraggedId(topic.id)}
+                                  onDragEnd={() => setDraggedId(null)}
+                                  className="text-xs px-1 py-0.5 rounded truncate border border-dashed border-teal-400 text-teal-700 cursor-move"
+                                  title={`${topic.topic} (queued)`}
+                                >
+                                  {topic.topic}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )
+                      })}
+                    </div>
+
+                    <p className="text-xs text-gray-500 mt-4">
+                      Dashed entries are queued topics on the date they are expected to be written. Drag them between
+                      dates or within the queue to change the order.
+                    </p>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  )
+}
+
+export default TopicCalendar
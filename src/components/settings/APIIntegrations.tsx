@@ -1,14 +1,12 @@
 import React, { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { 
-  Key, Image, CheckCircle, AlertCircle, TestTube, 
-  Eye, EyeOff, Save, ExternalLink
+  Key, Image, CheckCircle, AlertCircle, TestTube, ExternalLink
 } from 'lucide-react'
 import { unsplashService } from '../../lib/unsplash'
 import { openAIService } from '../../lib/openai'
 
 const APIIntegrations: React.FC = () => {
-  const [showKeys, setShowKeys] = useState<{ [key: string]: boolean }>({})
   const [testResults, setTestResults] = useState<{ [key: string]: boolean | null }>({})
   const [testing, setTesting] = useState<{ [key: string]: boolean }>({})
 
@@ -17,8 +15,7 @@ const APIIntegrations: React.FC = () => {
       id: 'openai',
       name: 'OpenAI',
       description: 'AI-powered content generation',
-      envKey: 'VITE_OPENAI_API_KEY',
-      value: import.meta.env.VITE_OPENAI_API_KEY,
+      secretName: 'OPENAI_API_KEY',
       service: openAIService,
       testMethod: 'testConnection',
       docsUrl: 'https://platform.openai.com/docs',
@@ -27,15 +24,14 @@ const APIIntegrations: React.FC = () => {
         'Create an account or sign in',
         'Navigate to API Keys section',
         'Create a new API key',
-        'Copy the key and add it to your environment variables'
+        'Add it as an edge function secret, or set LLM_BASE_URL to use a self-hosted model server'
       ]
     },
     {
       id: 'unsplash',
       name: 'Unsplash',
       description: 'High-quality stock photos for featured images',
-      envKey: 'VITE_UNSPLASH_ACCESS_KEY',
-      value: import.meta.env.VITE_UNSPLASH_ACCESS_KEY,
+      secretName: 'UNSPLASH_ACCESS_KEY',
       service: unsplashService,
       testMethod: 'testConnection',
       docsUrl: 'https://unsplash.com/developers',
@@ -44,33 +40,17 @@ const APIIntegrations: React.FC = () => {
         'Create an account or sign in',
         'Create a new application',
         'Copy the Access Key',
-        'Add it to your environment variables as VITE_UNSPLASH_ACCESS_KEY'
+        'Add it as an edge function secret named UNSPLASH_ACCESS_KEY'
       ]
     }
   ]
 
   useEffect(() => {
-    // Initialize test results
-    const initialResults: { [key: string]: boolean | null } = {}
-    integrations.forEach(integration => {
-      initialResults[integration.id] = integration.value ? null : false
-    })
-    setTestResults(initialResults)
+    // Keys live on the server, so the only way to know whether one is set is to test it
+    integrations.forEach(integration => testConnection(integration))
   }, [])
 
-  const toggleKeyVisibility = (id: string) => {
-    setShowKeys(prev => ({
-      ...prev,
-      [id]: !prev[id]
-    }))
-  }
-
   const testConnection = async (integration: any) => {
-    if (!integration.value) {
-      setTestResults(prev => ({ ...prev, [integration.id]: false }))
-      return
-    }
-
     setTesting(prev => ({ ...prev, [integration.id]: true }))
     
     try {
@@ -86,12 +66,7 @@ const APIIntegrations: React.FC = () => {
 
   const getStatusIcon = (integrationId: string) => {
     const result = testResults[integrationId]
-    const isConfigured = integrations.find(i => i.id === integrationId)?.value
 
-    if (!isConfigured) {
-      return <AlertCircle className="w-5 h-5 text-red-500" />
-    }
-    
     if (result === true) {
       return <CheckCircle className="w-5 h-5 text-green-500" />
     } else if (result === false) {
@@ -103,26 +78,20 @@ const APIIntegrations: React.FC = () => {
 
   const getStatusText = (integrationId: string) => {
     const result = testResults[integrationId]
-    const isConfigured = integrations.find(i => i.id === integrationId)?.value
 
-    if (!isConfigured) {
-      return 'Not configured'
-    }
-    
     if (result === true) {
       return 'Connected'
     } else if (result === false) {
-      return 'Connection failed'
+      return 'Not connected'
     } else {
-      return 'Unknown'
+      return 'Checking...'
     }
   }
 
   const getStatusColor = (integrationId: string) => {
     const result = testResults[integrationId]
-    const isConfigured = integrations.find(i => i.id === integrationId)?.value
 
-    if (!isConfigured || result === false) {
+    if (result === false) {
       return 'text-red-600'
     } else if (result === true) {
       return 'text-green-600'
@@ -184,56 +153,35 @@ const APIIntegrations: React.FC = () => {
               </div>
             </div>
 
-            {/* API Key Display */}
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                API Key ({integration.envKey})
-              </label>
-              <div className="flex items-center space-x-2">
-                <div className="flex-1 relative">
-                  <input
-                    type={showKeys[integration.id] ? 'text' : 'password'}
-                    value={integration.value || 'Not configured'}
-                    readOnly
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-gray-700 font-mono text-sm"
-                  />
-                  {integration.value && (
-                    <button
-                      onClick={() => toggleKeyVisibility(integration.id)}
-                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                    >
-                      {showKeys[integration.id] ? (
-                        <EyeOff className="w-4 h-4" />
-                      ) : (
-                        <Eye className="w-4 h-4" />
-                      )}
-                    </button>
-                  )}
-                </div>
-                <motion.button
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  onClick={() => testConnection(integration)}
-                  disabled={testing[integration.id] || !integration.value}
-                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {testing[integration.id] ? (
-                    <>
-                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                      <span>Testing...</span>
-                    </>
-                  ) : (
-                    <>
-                      <TestTube className="w-4 h-4" />
-                      <span>Test</span>
-                    </>
-                  )}
-                </motion.button>
-              </div>
+            {/* Server Secret */}
+            <div className="mb-4 flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                Key stored on the server as the edge function secret{' '}
+                <code className="bg-gray-100 px-1 rounded">{integration.secretName}</code>
+              </p>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => testConnection(integration)}
+                disabled={testing[integration.id]}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {testing[integration.id] ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    <span>Testing...</span>
+                  </>
+                ) : (
+                  <>
+                    <TestTube className="w-4 h-4" />
+                    <span>Test</span>
+                  </>
+                )}
+              </motion.button>
             </div>
 
             {/* Setup Instructions */}
-            {!integration.value && (
+            {testResults[integration.id] === false && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <h5 className="font-medium text-blue-800 mb-2">Setup Instructions:</h5>
                 <ol className="text-sm text-blue-700 space-y-1 list-decimal list-inside">
@@ -243,9 +191,9 @@ const APIIntegrations: React.FC = () => {
                 </ol>
                 <div className="mt-3 p-3 bg-blue-100 rounded">
                   <p className="text-sm text-blue-800">
-                    <strong>Environment Variable:</strong> Add{' '}
-                    <code className="bg-blue-200 px-1 rounded">{integration.envKey}=your_api_key</code>{' '}
-                    to your .env file and restart the development server.
+                    <strong>Edge Function Secret:</strong> Run{' '}
+                    <code className="bg-blue-200 px-1 rounded">supabase secrets set {integration.secretName}=your_api_key</code>.
+                    Keys are never added to the app's .env file, where every visitor could read them.
                   </p>
                 </div>
               </div>
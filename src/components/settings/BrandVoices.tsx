@@ -0,0 +1,374 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { Mic, Plus, Trash2, Edit, Save, X, Globe, Star } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import { voiceService, BrandVoice, readingLevels } from '../../lib/voices'
+
+// Form state keeps the list fields as text: comma separated words, one phrase per line, blank-line separated samples
+interface VoiceForm {
+  id?: string
+  name: string
+  wordpress_site_id: string
+  is_site_default: boolean
+  tone: string
+  audience: string
+  reading_level: BrandVoice['reading_level']
+  banned_words: string
+  preferred_phrases: string
+  sample_paragraphs: string
+}
+
+const emptyForm: VoiceForm = {
+  name: '',
+  wordpress_site_id: '',
+  is_site_default: false,
+  tone: '',
+  audience: '',
+  reading_level: 'standard',
+  banned_words: '',
+  preferred_phrases: '',
+  sample_paragraphs: ''
+}
+
+const toForm = (voice: BrandVoice): VoiceForm => ({
+  id: voice.id,
+  name: voice.name,
+  wordpress_site_id: voice.wordpress_site_id || '',
+  is_site_default: Boolean(voice.is_site_default),
+  tone: voice.tone,
+  audience: voice.audience,
+  reading_level: voice.reading_level,
+  banned_words: voice.banned_words.join(', '),
+  preferred_phrases: voice.preferred_phrases.join('\n'),
+  sample_paragraphs: voice.sample_paragraphs.join('\n\n')
+})
+
+const toVoice = (form: VoiceForm): BrandVoice => ({
+  id: form.id,
+  name: form.name,
+  wordpress_site_id: form.wordpress_site_id || null,
+  is_site_default: form.is_site_default,
+  tone: form.tone.trim(),
+  audience: form.audience.trim(),
+  reading_level: form.reading_level,
+  banned_words: form.banned_words.split(',').map(word => word.trim()).filter(Boolean),
+  preferred_phrases: form.preferred_phrases.split('\n').map(phrase => phrase.trim()).filter(Boolean),
+  sample_paragraphs: form.sample_paragraphs.split(/\n\s*\n/).map(sample => sample.trim()).filter(Boolean)
+})
+
+const BrandVoices: React.FC = () => {
+  const { user, connectedSites } = useAuth()
+  const [voices, setVoices] = useState<BrandVoice[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<VoiceForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  useEffect(() => {
+    if (user) {
+      loadVoices()
+    }
+  }, [user])
+
+  const loadVoices = async () => {
+    if (!user) return
+
+    setLoading(true)
+    const { data, error: loadError } = await voiceService.getUserVoices(user.id)
+    if (loadError) {
+      console.error('Error loading brand voices:', loadError)
+      setError('Failed to load brand voices')
+    } else {
+      setVoices(data || [])
+    }
+    setLoading(false)
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+
+    if (!form.name.trim()) {
+      setError('Please give the voice a name')
+      return
+    }
+
+    setSaving(true)
+    setError('')
+
+    const { error: saveError } = await voiceService.saveVoice(toVoice(form))
+    if (saveError) {
+      console.error('Error saving brand voice:', saveError)
+      setError(typeof saveError === 'string' ? saveError : saveError.message || 'Failed to save brand voice')
+    } else {
+      setForm(null)
+      setSuccess('Brand voice saved successfully!')
+      setTimeout(() => setSuccess(''), 3000)
+      await loadVoices()
+    }
+
+    setSaving(false)
+  }
+
+  const handleDelete = async (voice: BrandVoice) => {
+    if (!voice.id || !confirm(`Delete the "${voice.name}" voice? Schedules using it will fall back to their site's default voice.`)) {
+      return
+    }
+
+    setError('')
+    const { error: deleteError } = await voiceService.deleteVoice(voice.id)
+    if (deleteError) {
+      console.error('Error deleting brand voice:', deleteError)
+      setError('Failed to delete brand voice')
+      return
+    }
+
+    setVoices(voices.filter(item => item.id !== voice.id))
+  }
+
+  const siteName = (siteId?: string | null) =>
+    siteId ? connectedSites.find(site => site.id === siteId)?.name || 'Disconnected site' : 'All sites'
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 border-teal-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+          {success}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Brand Voices</h3>
+          <p className="text-sm text-gray-600">Describe how each brand or client site writes, then pick a voice on a schedule</p>
+        </div>
+        {!form && (
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => setForm({ ...emptyForm })}
+            className="bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Voice</span>
+          </motion.button>
+        )}
+      </div>
+
+      {form && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          className="bg-gray-50 rounded-lg p-6 space-y-4"
+        >
+          <div className="flex justify-between items-center">
+            <h4 className="text-lg font-medium text-gray-800">{form.id ? 'Edit Brand Voice' : 'Add Brand Voice'}</h4>
+            <button onClick={() => setForm(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                placeholder="Acme Plumbing - friendly expert"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">WordPress Site</label>
+              <select
+                value={form.wordpress_site_id}
+                onChange={(e) => setForm({ ...form, wordpress_site_id: e.target.value, is_site_default: e.target.value ? form.is_site_default : false })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+              >
+                <option value="">All sites</option>
+                {connectedSites.map((site) => (
+                  <option key={site.id} value={site.id}>{site.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Tone</label>
+              <input
+                type="text"
+                value={form.tone}
+                onChange={(e) => setForm({ ...form, tone: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                placeholder="Warm and practical, light humour, never salesy"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reading Level</label>
+              <select
+                value={form.reading_level}
+                onChange={(e) => setForm({ ...form, reading_level: e.target.value as BrandVoice['reading_level'] })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+              >
+                {readingLevels.map((level) => (
+                  <option key={level.id} value={level.id}>{level.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Audience</label>
+            <input
+              type="text"
+              value={form.audience}
+              onChange={(e) => setForm({ ...form, audience: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+              placeholder="Homeowners in their 30s-50s dealing with their first repair"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Banned Words</label>
+              <textarea
+                value={form.banned_words}
+                onChange={(e) => setForm({ ...form, banned_words: e.target.value })}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                placeholder="cheap, guru, game-changer"
+              />
+              <p className="text-xs text-gray-500 mt-1">Separate with commas</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Preferred Phrasing</label>
+              <textarea
+                value={form.preferred_phrases}
+                onChange={(e) => setForm({ ...form, preferred_phrases: e.target.value })}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                placeholder={'"our team" instead of "we"\nfixed-price quote'}
+              />
+              <p className="text-xs text-gray-500 mt-1">One per line</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Sample Paragraphs</label>
+            <textarea
+              value={form.sample_paragraphs}
+              onChange={(e) => setForm({ ...form, sample_paragraphs: e.target.value })}
+              rows={6}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+              placeholder="Paste a few paragraphs that sound like this brand. Leave a blank line between samples."
+            />
+          </div>
+
+          {form.wordpress_site_id && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_site_default}
+                onChange={(e) => setForm({ ...form, is_site_default: e.target.checked })}
+                className="w-4 h-4 text-teal-600 border-gray-300 rounded focus:ring-teal-600"
+              />
+              <span>Use for this site's schedules that do not pick a voice</span>
+            </label>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setForm(null)}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Saving...' : 'Save Voice'}</span>
+            </motion.button>
+          </div>
+        </motion.div>
+      )}
+
+      <div className="space-y-4">
+        {voices.map((voice) => (
+          <div key={voice.id} className="bg-white border border-gray-200 rounded-lg p-6">
+            <div className="flex items-start justify-between">
+              <div className="min-w-0">
+                <h4 className="font-medium text-gray-800 flex items-center space-x-2">
+                  <span>{voice.name}</span>
+                  {voice.is_site_default && (
+                    <span className="flex items-center space-x-1 text-xs text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full">
+                      <Star className="w-3 h-3" />
+                      <span>Site default</span>
+                    </span>
+                  )}
+                </h4>
+                <p className="text-sm text-gray-500 flex items-center space-x-1 mt-1">
+                  <Globe className="w-3 h-3" />
+                  <span>{siteName(voice.wordpress_site_id)}</span>
+                  <span>·</span>
+                  <span>{readingLevels.find(level => level.id === voice.reading_level)?.name}</span>
+                </p>
+                {voice.tone && <p className="text-sm text-gray-700 mt-2">{voice.tone}</p>}
+                {voice.banned_words.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">Never uses: {voice.banned_words.join(', ')}</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2 ml-4">
+                <button
+                  onClick={() => setForm(toForm(voice))}
+                  className="text-gray-600 hover:text-gray-800 px-3 py-1 rounded text-sm transition-colors flex items-center space-x-1"
+                >
+                  <Edit className="w-3 h-3" />
+                  <span>Edit</span>
+                </button>
+                <button
+                  onClick={() => handleDelete(voice)}
+                  className="text-red-600 hover:text-red-800 px-3 py-1 rounded text-sm transition-colors flex items-center space-x-1"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  <span>Delete</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {voices.length === 0 && !form && (
+        <div className="text-center py-12">
+          <Mic className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-800 mb-2">No Brand Voices Yet</h3>
+          <p className="text-gray-600">Posts use LemmeWrite's conversational style until you add a voice</p>
+        </div>
+      )}
+    </motion.div>
+  )
+}
+
+export default BrandVoices
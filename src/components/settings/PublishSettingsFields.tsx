@@ -0,0 +1,132 @@
+import React from 'react'
+import { PublishOptionsResponse, PublishSettings } from '../../lib/wordpress'
+
+interface PublishSettingsFieldsProps {
+  options: PublishOptionsResponse | null // Null while the site's options are loading
+  value: PublishSettings
+  onChange: (value: PublishSettings) => void
+  defaultLabel: string // Label of the empty choice, e.g. "Site default"
+}
+
+const selectClass = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent'
+
+const formatLabel = (format: string) => format.charAt(0).toUpperCase() + format.slice(1)
+
+// Post type, author, format, comments and sticky choices offered by a site. Fields the chosen
+// post type does not support are hidden and cleared.
+const PublishSettingsFields: React.FC<PublishSettingsFieldsProps> = ({ options, value, onChange, defaultLabel }) => {
+  if (!options) {
+    return <p className="text-sm text-gray-500">Loading the site's publishing options...</p>
+  }
+  if (!options.success) {
+    return <p className="text-sm text-amber-600">Could not read the site's publishing options: {options.error}</p>
+  }
+
+  const postTypes = options.postTypes || []
+  const authors = options.authors || []
+  const postType = postTypes.find(type => type.restBase === (value.postType || 'posts'))
+
+  const update = (changes: PublishSettings) => {
+    const next = { ...value, ...changes }
+    // Drop empty choices so they fall back to the default
+    const cleaned = Object.fromEntries(
+      Object.entries(next).filter(([, setting]) => setting !== undefined && setting !== '')
+    ) as PublishSettings
+    onChange(cleaned)
+  }
+
+  const changePostType = (restBase: string) => {
+    const type = postTypes.find(candidate => candidate.restBase === restBase)
+    update({
+      postType: restBase || undefined,
+      format: type?.formats.includes(value.format || '') ? value.format : undefined,
+      sticky: type?.supportsSticky ? value.sticky : undefined
+    })
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Post Type</label>
+        <select
+          value={value.postType || ''}
+          onChange={(e) => changePostType(e.target.value)}
+          className={selectClass}
+        >
+          <option value="">{defaultLabel}</option>
+          {postTypes.map((type) => (
+            <option key={type.restBase} value={type.restBase}>{type.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {(!postType || postType.supportsAuthor) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Author</label>
+          <select
+            value={value.authorId ?? ''}
+            onChange={(e) => update({ authorId: e.target.value ? Number(e.target.value) : undefined })}
+            className={selectClass}
+            disabled={authors.length === 0}
+          >
+            <option value="">{defaultLabel}</option>
+            {authors.map((author) => (
+              <option key={author.id} value={author.id}>{author.name}</option>
+            ))}
+          </select>
+          {authors.length === 0 && (
+            <p className="text-sm text-gray-500 mt-1">The connected user cannot list authors, posts are attributed to them</p>
+          )}
+        </div>
+      )}
+
+      {postType && postType.formats.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Post Format</label>
+          <select
+            value={value.format || ''}
+            onChange={(e) => update({ format: e.target.value || undefined })}
+            className={selectClass}
+          >
+            <option value="">{defaultLabel}</option>
+            {postType.formats.map((format) => (
+              <option key={format} value={format}>{formatLabel(format)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {(!postType || postType.supportsComments) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Comments</label>
+          <select
+            value={value.commentStatus || ''}
+            onChange={(e) => update({ commentStatus: (e.target.value || undefined) as PublishSettings['commentStatus'] })}
+            className={selectClass}
+          >
+            <option value="">{defaultLabel}</option>
+            <option value="open">Open</option>
+            <option value="closed">Closed</option>
+          </select>
+        </div>
+      )}
+
+      {postType?.supportsSticky && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Sticky</label>
+          <select
+            value={value.sticky === undefined ? '' : String(value.sticky)}
+            onChange={(e) => update({ sticky: e.target.value ? e.target.value === 'true' : undefined })}
+            className={selectClass}
+          >
+            <option value="">{defaultLabel}</option>
+            <option value="true">Stick to the top of the blog</option>
+            <option value="false">Not sticky</option>
+          </select>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PublishSettingsFields
@@ -1,10 +1,11 @@
 import React, { useState } from 'react'
 import { motion } from 'framer-motion'
-import { User, Globe, Camera, Save, Key } from 'lucide-react'
+import { User, Globe, Camera, Save, Key, Mic } from 'lucide-react'
 import DashboardLayout from '../layout/DashboardLayout'
 import ProfileSettings from './ProfileSettings'
 import WordPressIntegration from './WordPressIntegration'
 import APIIntegrations from './APIIntegrations'
+import BrandVoices from './BrandVoices'
 
 const Settings: React.FC = () => {
   const [activeTab, setActiveTab] = useState('profile')
@@ -12,6 +13,7 @@ const Settings: React.FC = () => {
   const tabs = [
     { id: 'profile', name: 'Profile', icon: User },
     { id: 'wordpress', name: 'WordPress Integration', icon: Globe },
+    { id: 'voices', name: 'Brand Voices', icon: Mic },
     { id: 'integrations', name: 'API Integrations', icon: Key },
   ]
 
@@ -53,6 +55,7 @@ const Settings: React.FC = () => {
             <div className="p-6">
               {activeTab === 'profile' && <ProfileSettings />}
               {activeTab === 'wordpress' && <WordPressIntegration />}
+              {activeTab === 'voices' && <BrandVoices />}
               {activeTab === 'integrations' && <APIIntegrations />}
             </div>
           </div>
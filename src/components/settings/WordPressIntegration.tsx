@@ -2,20 +2,22 @@ import React, { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { 
   Globe, Plus, Trash2, Edit, CheckCircle, AlertCircle, 
-  Eye, EyeOff, Save, TestTube, Link as LinkIcon, X
+  Lock, KeyRound, Save, TestTube, Link as LinkIcon, X, Search,
+  Stethoscope, XCircle, MinusCircle, SlidersHorizontal
 } from 'lucide-react'
 import { useAuth } from '../../contexts/AuthContext'
 import { supabase } from '../../lib/supabase'
-
-interface WordPressSite {
-  id: string
-  name: string
-  url: string
-  username: string
-  password: string
-  status: 'connected' | 'disconnected' | 'testing'
-  created_at?: string
-  updated_at?: string
+import {
+  wordPressService, WordPressSite, DiagnosticResult, diagnosticCheckLabels, seoPluginLabels, seoPluginWarning,
+  PublishOptionsResponse, PublishSettings
+} from '../../lib/wordpress'
+import PublishSettingsFields from './PublishSettingsFields'
+
+const diagnosticStyles: Record<DiagnosticResult['status'], { icon: React.ElementType; color: string }> = {
+  pass: { icon: CheckCircle, color: 'text-green-600' },
+  warn: { icon: AlertCircle, color: 'text-yellow-600' },
+  fail: { icon: XCircle, color: 'text-red-600' },
+  skipped: { icon: MinusCircle, color: 'text-gray-400' }
 }
 
 const WordPressIntegration: React.FC = () => {
@@ -24,7 +26,13 @@ const WordPressIntegration: React.FC = () => {
   const [loading, setLoading] = useState(true)
   const [showAddForm, setShowAddForm] = useState(false)
   const [editingSite, setEditingSite] = useState<string | null>(null)
-  const [showPasswords, setShowPasswords] = useState<{ [key: string]: boolean }>({})
+  const [rotatingSite, setRotatingSite] = useState<string | null>(null)
+  const [rotateForm, setRotateForm] = useState({ username: '', password: '' })
+  const [rotating, setRotating] = useState(false)
+  const [diagnosticsSite, setDiagnosticsSite] = useState<string | null>(null)
+  const [publishingSite, setPublishingSite] = useState<string | null>(null)
+  const [publishOptions, setPublishOptions] = useState<PublishOptionsResponse | null>(null)
+  const [publishDraft, setPublishDraft] = useState<PublishSettings>({})
   const [formData, setFormData] = useState({
     name: '',
     url: '',
@@ -46,7 +54,7 @@ const WordPressIntegration: React.FC = () => {
       setLoading(true)
       const { data, error } = await supabase
         .from('wordpress_sites')
-        .select('*')
+        .select('id, name, url, username, status, credentials_rotated_at, seo_plugin, seo_fields_writable, seo_checked_at, diagnostics, publish_settings, created_at, updated_at')
         .eq('user_id', user?.id)
         .order('created_at', { ascending: false })
 
@@ -66,37 +74,39 @@ const WordPressIntegration: React.FC = () => {
       setError('Please fill in all fields')
       return
     }
+    // The server only connects to public https sites, so the credentials never travel unencrypted
+    if (!formData.url.toLowerCase().startsWith('https://')) {
+      setError('The site URL must start with https://')
+      return
+    }
 
     try {
       setError('')
-      const { data, error } = await supabase
-        .from('wordpress_sites')
-        .insert([
-          {
-            user_id: user?.id,
-            name: formData.name,
-            url: formData.url.replace(/\/$/, ''), // Remove trailing slash
-            username: formData.username,
-            password: formData.password,
-            status: 'disconnected'
-          }
-        ])
-        .select()
-
-      if (error) throw error
+      // The password goes straight to the server, which stores it encrypted and never returns it
+      const { site, connected, diagnostics } = await wordPressService.connectSite({
+        name: formData.name,
+        url: formData.url.replace(/\/$/, ''), // Remove trailing slash
+        username: formData.username,
+        password: formData.password
+      })
 
-      setSites([...sites, ...data])
+      setSites([site, ...sites])
       setFormData({ name: '', url: '', username: '', password: '' })
       setShowAddForm(false)
-      setSuccess('WordPress site added successfully!')
+      setSuccess(connected
+        ? 'WordPress site added successfully!'
+        : 'WordPress site added, but the connection test failed. See the diagnostics below for what to fix.')
+      if (!connected && diagnostics) {
+        setDiagnosticsSite(site.id)
+      }
       // Reload connected sites in auth context
-      if (data[0]?.status === 'connected') {
+      if (connected) {
         loadConnectedSites(user?.id)
       }
       setTimeout(() => setSuccess(''), 3000)
     } catch (err) {
       console.error('Error adding WordPress site:', err)
-      setError('Failed to add WordPress site')
+      setError(err instanceof Error ? err.message : 'Failed to add WordPress site')
     }
   }
 
@@ -128,6 +138,24 @@ const WordPressIntegration: React.FC = () => {
     }
   }
 
+  // The options are read from the site each time, so new post types and authors show up without reconnecting
+  const togglePublishing = async (site: WordPressSite) => {
+    if (publishingSite === site.id) {
+      setPublishingSite(null)
+      return
+    }
+
+    setPublishingSite(site.id)
+    setPublishDraft(site.publish_settings || {})
+    setPublishOptions(null)
+    setPublishOptions(await wordPressService.getPublishOptions(site.id))
+  }
+
+  const handleSavePublishing = async (id: string) => {
+    await handleUpdateSite(id, { publish_settings: publishDraft })
+    setPublishingSite(null)
+  }
+
   const handleDeleteSite = async (id: string) => {
     if (!confirm('Are you sure you want to delete this WordPress site?')) {
       return
@@ -159,29 +187,28 @@ const WordPressIntegration: React.FC = () => {
       // Update status to testing
       await handleUpdateSite(id, { status: 'testing' })
       
-      const site = sites.find(s => s.id === id)
-      if (!site) return
-
-      // Test WordPress REST API connection
-      const auth = btoa(`${site.username}:${site.password}`)
-      const apiUrl = `${site.url}/wp-json/wp/v2/users/me`
-
-      const response = await fetch(apiUrl, {
-        headers: {
-          'Authorization': `Basic ${auth}`
-        }
-      })
-
-      const newStatus = response.ok ? 'connected' : 'disconnected'
-      await handleUpdateSite(id, { status: newStatus })
+      // The test runs on the server with the stored password, which also records the new status
+      const { connected, seo, diagnostics } = await wordPressService.testConnection(id)
+      setSites(prev => prev.map(site =>
+        site.id === id
+          ? {
+            ...site,
+            status: connected ? 'connected' : 'disconnected',
+            ...(diagnostics && { diagnostics }),
+            ...(seo && { seo_plugin: seo.plugin, seo_fields_writable: seo.fieldsWritable, seo_checked_at: new Date().toISOString() })
+          }
+          : site
+      ))
 
       // Reload connected sites in auth context
       loadConnectedSites(user?.id)
 
-      if (response.ok) {
+      if (connected) {
         setSuccess('Connection test successful!')
       } else {
-        setError('Connection test failed. Please check your credentials.')
+        const failure = diagnostics?.checks.find(check => check.status === 'fail')
+        setError(failure ? `Connection test failed: ${failure.message}` : 'Connection test failed. Please check your credentials.')
+        setDiagnosticsSite(id)
       }
       setTimeout(() => {
         setSuccess('')
@@ -195,11 +222,47 @@ const WordPressIntegration: React.FC = () => {
     }
   }
 
-  const togglePasswordVisibility = (id: string) => {
-    setShowPasswords(prev => ({
-      ...prev,
-      [id]: !prev[id]
-    }))
+  const startRotation = (site: WordPressSite) => {
+    setRotatingSite(site.id)
+    setRotateForm({ username: site.username, password: '' })
+    setError('')
+  }
+
+  const handleRotateCredentials = async (id: string) => {
+    if (!rotateForm.password) {
+      setError('Please enter the new application password')
+      return
+    }
+
+    try {
+      setRotating(true)
+      setError('')
+      // The server only swaps the credentials once WordPress accepts the new ones
+      const { rotatedAt, seo, diagnostics } = await wordPressService.rotateCredentials(id, rotateForm.password, rotateForm.username)
+
+      setSites(prev => prev.map(site =>
+        site.id === id
+          ? {
+            ...site,
+            username: rotateForm.username || site.username,
+            status: 'connected',
+            credentials_rotated_at: rotatedAt,
+            ...(diagnostics && { diagnostics }),
+            ...(seo && { seo_plugin: seo.plugin, seo_fields_writable: seo.fieldsWritable, seo_checked_at: rotatedAt })
+          }
+          : site
+      ))
+      setRotatingSite(null)
+      setRotateForm({ username: '', password: '' })
+      loadConnectedSites(user?.id)
+      setSuccess('Credentials rotated successfully!')
+      setTimeout(() => setSuccess(''), 3000)
+    } catch (err) {
+      console.error('Error rotating credentials:', err)
+      setError(err instanceof Error ? err.message : 'Failed to rotate credentials')
+    } finally {
+      setRotating(false)
+    }
   }
 
   const resetForm = () => {
@@ -397,7 +460,7 @@ const WordPressIntegration: React.FC = () => {
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
               <div>
                 <label className="block text-xs font-medium text-gray-500 mb-1">
                   Username
@@ -408,19 +471,145 @@ const WordPressIntegration: React.FC = () => {
                 <label className="block text-xs font-medium text-gray-500 mb-1">
                   Application Password
                 </label>
-                <div className="flex items-center space-x-2">
-                  <p className="text-sm text-gray-800 font-mono">
-                    {showPasswords[site.id] ? site.password : '••••••••••••••••'}
-                  </p>
+                <p className="text-sm text-gray-800 flex items-center space-x-1">
+                  <Lock className="w-3 h-3 text-gray-400" />
+                  <span>
+                    Stored encrypted
+                    {site.credentials_rotated_at && ` · rotated ${new Date(site.credentials_rotated_at).toLocaleDateString()}`}
+                  </span>
+                </p>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">
+                  SEO Plugin
+                </label>
+                <p className="text-sm text-gray-800 flex items-center space-x-1">
+                  <Search className="w-3 h-3 text-gray-400" />
+                  <span>
+                    {site.seo_plugin ? seoPluginLabels[site.seo_plugin] : 'Not detected yet'}
+                    {site.seo_checked_at && ` · checked ${new Date(site.seo_checked_at).toLocaleDateString()}`}
+                  </span>
+                </p>
+              </div>
+            </div>
+
+            {seoPluginWarning(site) && (
+              <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm px-3 py-2 rounded-lg mb-4 flex items-start space-x-2">
+                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>{seoPluginWarning(site)}</span>
+              </div>
+            )}
+
+            {rotatingSite === site.id && (
+              <div className="bg-gray-50 rounded-lg p-4 mb-4">
+                <p className="text-sm text-gray-600 mb-3">
+                  The new credentials are tested before they replace the current ones.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Username
+                    </label>
+                    <input
+                      type="text"
+                      value={rotateForm.username}
+                      onChange={(e) => setRotateForm({ ...rotateForm, username: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      New Application Password *
+                    </label>
+                    <input
+                      type="password"
+                      value={rotateForm.password}
+                      onChange={(e) => setRotateForm({ ...rotateForm, password: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-600 focus:border-transparent"
+                      placeholder="xxxx xxxx xxxx xxxx"
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end space-x-3 mt-4">
                   <button
-                    onClick={() => togglePasswordVisibility(site.id)}
-                    className="text-gray-400 hover:text-gray-600"
+                    onClick={() => setRotatingSite(null)}
+                    className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
                   >
-                    {showPasswords[site.id] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleRotateCredentials(site.id)}
+                    disabled={rotating}
+                    className="bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+                  >
+                    <KeyRound className="w-4 h-4" />
+                    <span>{rotating ? 'Testing...' : 'Test & Rotate'}</span>
                   </button>
                 </div>
               </div>
-            </div>
+            )}
+
+            {diagnosticsSite === site.id && (
+              <div className="bg-gray-50 rounded-lg p-4 mb-4">
+                {site.diagnostics ? (
+                  <>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Checked {new Date(site.diagnostics.checkedAt).toLocaleString()}
+                    </p>
+                    <ul className="space-y-3">
+                      {site.diagnostics.checks.map(result => {
+                        const { icon: Icon, color } = diagnosticStyles[result.status]
+                        return (
+                          <li key={result.check} className="flex items-start space-x-2">
+                            <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+                            <div>
+                              <p className="text-sm text-gray-800">
+                                <span className="font-medium">{diagnosticCheckLabels[result.check]}:</span> {result.message}
+                              </p>
+                              {result.hint && result.status !== 'pass' && (
+                                <p className="text-xs text-gray-600 mt-0.5">{result.hint}</p>
+                              )}
+                            </div>
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-600">No diagnostics yet. Test the connection to run them.</p>
+                )}
+              </div>
+            )}
+
+            {publishingSite === site.id && (
+              <div className="bg-gray-50 rounded-lg p-4 mb-4">
+                <p className="text-sm text-gray-600 mb-4">
+                  Defaults for every post sent to this site. Schedules can override them.
+                </p>
+                <PublishSettingsFields
+                  options={publishOptions}
+                  value={publishDraft}
+                  onChange={setPublishDraft}
+                  defaultLabel="WordPress default"
+                />
+                <div className="flex justify-end space-x-2 mt-4">
+                  <button
+                    onClick={() => setPublishingSite(null)}
+                    className="text-gray-600 hover:text-gray-800 px-4 py-2 rounded-lg border border-gray-300 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleSavePublishing(site.id)}
+                    disabled={!publishOptions?.success}
+                    className="bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>Save</span>
+                  </button>
+                </div>
+              </div>
+            )}
 
             <div className="flex justify-between items-center">
               <div className="flex space-x-2">
@@ -434,6 +623,27 @@ const WordPressIntegration: React.FC = () => {
                   <TestTube className="w-3 h-3" />
                   <span>Test Connection</span>
                 </motion.button>
+                <button
+                  onClick={() => startRotation(site)}
+                  className="text-gray-600 hover:text-gray-800 px-3 py-1 rounded text-sm border border-gray-300 transition-colors flex items-center space-x-1"
+                >
+                  <KeyRound className="w-3 h-3" />
+                  <span>Rotate Credentials</span>
+                </button>
+                <button
+                  onClick={() => setDiagnosticsSite(diagnosticsSite === site.id ? null : site.id)}
+                  className="text-gray-600 hover:text-gray-800 px-3 py-1 rounded text-sm border border-gray-300 transition-colors flex items-center space-x-1"
+                >
+                  <Stethoscope className="w-3 h-3" />
+                  <span>Diagnostics</span>
+                </button>
+                <button
+                  onClick={() => togglePublishing(site)}
+                  className="text-gray-600 hover:text-gray-800 px-3 py-1 rounded text-sm border border-gray-300 transition-colors flex items-center space-x-1"
+                >
+                  <SlidersHorizontal className="w-3 h-3" />
+                  <span>Publishing</span>
+                </button>
               </div>
               <button
                 onClick={() => handleDeleteSite(site.id)}
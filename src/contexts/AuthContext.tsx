@@ -131,41 +131,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
 
     try {
-      // First try to get points from user_points table
+      // The balance is maintained from the points ledger; this also creates the free plan record if missing
       const { data: pointsData, error: pointsError } = await supabase
-        .from('user_points')
-        .select('points_remaining, points_total')
-        .eq('user_id', targetUserId)
-        .single()
-
-      if (!pointsError && pointsData) {
-        // User has points record, use it
-        setUserPoints(pointsData.points_remaining)
-        setPointsLoaded(true)
-        return
-      } else if (pointsError && pointsError.code !== 'PGRST116') {
-        // Real error, not just missing record
-        throw pointsError
-      }
+        .rpc('get_or_create_user_points', { target_user_id: targetUserId })
 
-      // No points record found, create one with default points
-      console.log('No points record found, creating default record...')
-      const { error: createError } = await supabase
-        .from('user_points')
-        .insert({
-          user_id: targetUserId,
-          points_remaining: 50,
-          points_total: 50,
-          last_reset: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
+      if (pointsError) throw pointsError
 
-      if (createError) {
-        console.error('Error creating default points record:', createError)
-        setUserPoints(50) // Fallback to default
-      } else {
-        setUserPoints(50)
-      }
+      setUserPoints(pointsData?.[0]?.points_remaining ?? 0)
       setPointsLoaded(true)
     } catch (error) {
       console.error('Error loading user points:', error)
@@ -0,0 +1,16 @@
+// LLM Model Options
+// Generation runs in the generate-post edge function, whose provider is configured with the
+// LLM_BASE_URL, LLM_API_KEY and LLM_MODEL secrets. The app only picks a model per schedule.
+
+const DEFAULT_MODELS = ['gpt-4o-mini', 'gpt-4o', 'gpt-3.5-turbo']
+
+// Models offered on the Post Schedule page. VITE_LLM_MODELS overrides the list with a comma separated one,
+// e.g. the models pulled into a local Ollama server.
+export function getAvailableModels(): string[] {
+  const configured = (import.meta.env.VITE_LLM_MODELS || '')
+    .split(',')
+    .map((model: string) => model.trim())
+    .filter(Boolean)
+
+  return configured.length ? configured : DEFAULT_MODELS
+}
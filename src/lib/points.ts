@@ -0,0 +1,76 @@
+// Points Ledger Service
+// Reserves and refunds the points a post costs. generate-post commits a reservation to the post it saves.
+
+import { supabase } from './supabase'
+
+export interface PointsLedgerEntry {
+  id: string
+  user_id: string
+  entry_type: 'opening_balance' | 'allocation' | 'debit' | 'refund'
+  amount: number
+  status: 'reserved' | 'committed' | 'refunded'
+  scheduled_post_id?: string
+  schedule_id?: string
+  refund_of?: string
+  paypal_subscription_id?: string
+  description?: string
+  created_at: string
+}
+
+export interface PointsReservation {
+  entryId: string | null
+  error: unknown
+}
+
+class PointsService {
+  // Reserve the cost of one post. entryId is null with an error when the balance is too low.
+  async reserveForPost(
+    userId: string,
+    frequency: string,
+    wordCount: number,
+    scheduleId?: string
+  ): Promise<PointsReservation> {
+    const { data, error } = await supabase.rpc('debit_points_for_post', {
+      target_user_id: userId,
+      frequency_type: frequency,
+      word_count: wordCount,
+      p_schedule_id: scheduleId ?? null
+    })
+
+    if (error) {
+      console.error('Error reserving points:', error)
+      return { entryId: null, error }
+    }
+
+    if (!data) {
+      return { entryId: null, error: 'Not enough points to generate this post' }
+    }
+
+    return { entryId: data, error: null }
+  }
+
+  async refund(entryId: string, reason?: string): Promise<{ error: unknown }> {
+    const { error } = await supabase.rpc('refund_points_for_post', {
+      ledger_entry_id: entryId,
+      reason: reason ?? null
+    })
+
+    if (error) {
+      console.error('Error refunding points:', error)
+    }
+
+    return { error }
+  }
+
+  async getLedger(userId: string): Promise<{ data: PointsLedgerEntry[] | null, error: unknown }> {
+    const { data, error } = await supabase
+      .from('user_points_ledger')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    return { data, error }
+  }
+}
+
+export const pointsService = new PointsService()
@@ -2,8 +2,11 @@
 // Handles all post schedule operations
 
 import { supabase } from './supabase'
-import { openAIService } from './openai'
-import { wordPressService } from './wordpress'
+import { openAIService, GenerationValidation, GenerationProgress, InternalLink, FeaturedImage } from './openai'
+import { wordPressService, hashPostContent, TagPolicy, PublishSettings } from './wordpress'
+import { pointsService, PointsReservation } from './points'
+import { topicService } from './topics'
+import { seoService, SeoAnalysis } from './seo'
 
 export interface PostSchedule {
   id?: string
@@ -15,13 +18,25 @@ export interface PostSchedule {
   image_keywords?: string
   frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly'
   word_count: number
+  model?: string // Empty uses the provider's default model
+  brand_voice_id?: string | null // Empty uses the site's default voice, if it has one
+  internal_link_count?: number // Links to the site's existing posts per post, 0 turns linking off
+  category_ids?: number[] // Existing WordPress categories, empty leaves WordPress' default category
+  tag_policy?: TagPolicy
+  publish_settings?: PublishSettings // Overrides the site's defaults for where and how posts are created
   publish_time: string
   stop_condition?: 'never' | 'date' | 'post_count' | 'points_exhausted'
   stop_date?: string
   max_posts?: number
+  requires_approval?: boolean
+  wordpress_scheduling?: boolean // Posts are sent ahead of time and WordPress publishes them on schedule
+  fanout_mode?: FanoutMode // How posts reach the schedule's extra sites
   status?: 'active' | 'paused' | 'completed'
   next_post_date?: string
   posts_generated?: number
+  failure_count?: number // Failed generations in a row, the worker pauses the schedule after 5
+  next_attempt_at?: string | null // Set while the worker backs off after a failed generation
+  last_error?: string | null
   created_at?: string
   updated_at?: string
 }
@@ -37,27 +52,86 @@ export interface ScheduledPost {
   tags: string[]
   meta_description?: string
   seo_keywords: string[]
-  status: 'pending' | 'published' | 'failed' | 'draft'
+  status: 'awaiting_review' | 'pending' | 'publishing' | 'scheduled' | 'published' | 'failed' | 'draft' | 'dead_letter' | 'rejected' | 'cancelled'
   scheduled_for: string
   published_at?: string
   wordpress_post_id?: number
   error_message?: string
+  attempt_count?: number
+  next_attempt_at?: string
+  last_error?: string
+  lease_expires_at?: string
+  review_notes?: string
+  reviewed_at?: string
+  reviewed_by?: string
+  content_hash?: string
+  synced_at?: string
+  generation_validation?: GenerationValidation | null
+  internal_links?: InternalLink[]
+  seo_score?: number | null
+  seo_analysis?: SeoAnalysis | null
+  featured_image?: FeaturedImage | null
+  featured_media_id?: number | null // WordPress media id once the featured image has been uploaded
+  unsplash_photo_id?: string | null // Generated from featured_image, photos are not reused on a site
+  category_ids?: number[]
+  tag_policy?: TagPolicy
+  publish_settings?: PublishSettings
+  wordpress_post_type?: string // REST base the post was created under, 'posts' unless the settings chose another type
+  primary_post_id?: string | null // Post on the schedule's own site this one was fanned out from
+  canonical_to_primary?: boolean // Published with the primary post's URL as canonical URL
+  wordpress_post_url?: string | null
   created_at?: string
   updated_at?: string
 }
 
+// 'unique' generates a separate variant per extra site, 'canonical' sends the primary post with a canonical URL
+export type FanoutMode = 'unique' | 'canonical'
+
+export type PostContentUpdate = Partial<Pick<ScheduledPost,
+  'title' | 'content' | 'excerpt' | 'tags' | 'meta_description' | 'seo_keywords'
+>>
+
+// How a published post compares with its WordPress copy since the last sync
+export interface PostSyncStatus {
+  localChanged: boolean // Edited in LemmeWrite but not pushed yet
+  remoteChanged: boolean // Edited directly in WordPress
+  remoteMissing: boolean // Deleted or trashed on WordPress
+  remoteModifiedAt?: string
+}
+
 export interface ImmediatePostRequest {
   wordpress_site_id: string
   schedule_type: 'topic' | 'category' | 'keyword'
   content_input: string
   description?: string
   image_keywords?: string
+  frequency: PostSchedule['frequency'] // Only used to price the post
   word_count: number
   humanizeContent?: boolean
+  requires_approval?: boolean // Hold the post for review instead of publishing it straight away
+  model?: string
+  brand_voice_id?: string
+  internal_link_count?: number
+  category_ids?: number[]
+  tag_policy?: TagPolicy
+  publish_settings?: PublishSettings
+}
+
+const PUBLISH_LEASE_MS = 5 * 60 * 1000
+
+// Rounds an existing post's length to the nearest word count option offered on the Post Schedule page
+function estimateWordCount(html: string): number {
+  const words = html.replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean).length
+  return Math.min(2000, Math.max(500, Math.round(words / 500) * 500))
 }
 
 class ScheduleService {
-  async createSchedule(scheduleData: PostSchedule): Promise<{ data: PostSchedule | null, error: any }> {
+  // `extraSiteIds` are sites every post is also sent to, besides the schedule's own site
+  async createSchedule(
+    scheduleData: PostSchedule,
+    onProgress?: (progress: GenerationProgress) => void,
+    extraSiteIds: string[] = []
+  ): Promise<{ data: PostSchedule | null, error: any, firstPostError?: any }> {
     try {
       // Calculate the next post date
       const { data: nextPostDate, error: dateError } = await supabase
@@ -86,17 +160,38 @@ class ScheduleService {
         return { data: null, error }
       }
 
-      // Generate the first post immediately
-      await this.generatePostForSchedule(data.id)
+      const siteIds = extraSiteIds.filter(siteId => siteId !== scheduleData.wordpress_site_id)
+      if (siteIds.length) {
+        const { error: sitesError } = await supabase
+          .from('schedule_sites')
+          .insert(siteIds.map(siteId => ({
+            schedule_id: data.id,
+            wordpress_site_id: siteId,
+            user_id: data.user_id
+          })))
 
-      return { data, error: null }
+        if (sitesError) {
+          console.error('Error adding schedule sites:', sitesError)
+          await this.deleteSchedule(data.id)
+          return { data: null, error: sitesError }
+        }
+      }
+
+      // Generate the first post immediately. The schedule is kept when that fails, the worker generates its
+      // posts when they are due.
+      const { error: firstPostError } = await this.generatePostForSchedule(data.id, onProgress)
+
+      return { data, error: null, firstPostError }
     } catch (err) {
       console.error('Error in createSchedule:', err)
       return { data: null, error: err }
     }
   }
 
-  async createImmediatePost(postData: ImmediatePostRequest): Promise<{ data: ScheduledPost | null, error: any }> {
+  async createImmediatePost(
+    postData: ImmediatePostRequest,
+    onProgress?: (progress: GenerationProgress) => void
+  ): Promise<{ data: ScheduledPost | null, error: any }> {
     try {
       const { data: { user } } = await supabase.auth.getUser()
       if (!user) {
@@ -115,64 +210,78 @@ class ScheduleService {
         return { data: null, error: 'WordPress site not found or not accessible' }
       }
 
-      // Generate content using OpenAI
+      // Reserve the points before spending anything on generation
+      const reservation = await pointsService.reserveForPost(user.id, postData.frequency, postData.word_count)
+      if (!reservation.entryId) {
+        return { data: null, error: reservation.error }
+      }
+
+      // Generate content using OpenAI. The edge function saves the post and commits the reservation to it.
       console.log('Generating content with OpenAI...')
-      const blogContent = await openAIService.generateBlogPost({
-        type: postData.schedule_type,
-        content: postData.content_input,
-        description: postData.description,
-        imageKeywords: postData.image_keywords,
-        wordCount: postData.word_count,
-        tone: 'professional',
-        seoFocus: true,
-        humanizeContent: postData.humanizeContent
-      })
-
-      // Create the scheduled post record
-      const { data: scheduledPost, error: insertError } = await supabase
-        .from('scheduled_posts')
-        .insert([{
-          user_id: user.id,
-          wordpress_site_id: postData.wordpress_site_id,
-          title: blogContent.title,
-          content: blogContent.content,
-          excerpt: blogContent.excerpt,
-          tags: blogContent.tags,
-          meta_description: blogContent.metaDescription,
-          seo_keywords: blogContent.seoKeywords,
-          status: 'pending',
-          scheduled_for: new Date().toISOString()
-        }])
-        .select()
-        .single()
+      let blogContent
+      try {
+        blogContent = await openAIService.generateBlogPost({
+          type: postData.schedule_type,
+          content: postData.content_input,
+          description: postData.description,
+          imageKeywords: postData.image_keywords,
+          wordCount: postData.word_count,
+          seoFocus: true,
+          humanizeContent: postData.humanizeContent,
+          model: postData.model,
+          brandVoiceId: postData.brand_voice_id,
+          wordpressSiteId: postData.wordpress_site_id,
+          internalLinkCount: postData.internal_link_count,
+          ledgerEntryId: reservation.entryId,
+          save: {
+            fields: {
+              user_id: user.id,
+              wordpress_site_id: postData.wordpress_site_id,
+              category_ids: postData.category_ids ?? [],
+              tag_policy: postData.tag_policy ?? 'allow_new',
+              publish_settings: postData.publish_settings ?? {},
+              // Claimed for this request straight away so the worker does not publish it as well
+              status: postData.requires_approval ? 'awaiting_review' : 'publishing',
+              lease_expires_at: postData.requires_approval ? null : new Date(Date.now() + PUBLISH_LEASE_MS).toISOString(),
+              scheduled_for: new Date().toISOString()
+            }
+          }
+        }, onProgress)
+      } catch (generationError) {
+        await pointsService.refund(reservation.entryId, 'Content generation failed')
+        throw generationError
+      }
 
-      if (insertError) {
-        console.error('Error creating scheduled post:', insertError)
-        return { data: null, error: insertError }
+      const scheduledPost = blogContent.post
+
+      // Reviewers publish it from the Content Library once it is approved
+      if (postData.requires_approval) {
+        return { data: scheduledPost, error: null }
       }
 
       // Immediately attempt to publish to WordPress
       try {
         console.log('Publishing to WordPress...')
         const publishResult = await wordPressService.publishPost(
-          {
-            id: wpSite.id,
-            name: wpSite.name,
-            url: wpSite.url,
-            username: wpSite.username,
-            password: wpSite.password
-          },
+          wpSite.id,
           {
             title: blogContent.title,
             content: blogContent.content,
             excerpt: blogContent.excerpt,
             status: 'publish',
             tags: blogContent.tags,
-            categories: [], // You can add category logic here
+            tagPolicy: postData.tag_policy,
+            categories: [],
+            categoryIds: postData.category_ids,
             metaDescription: blogContent.metaDescription,
-            featuredImage: blogContent.featuredImage
-          }
+            seoTitle: blogContent.title,
+            focusKeyword: blogContent.seoKeywords?.[0],
+            featuredImage: blogContent.featuredImage,
+            publishSettings: postData.publish_settings
+          },
+          scheduledPost.id
         )
+        await this.rememberFeaturedMedia(scheduledPost.id, publishResult.featuredMediaId)
 
         if (publishResult.success) {
           // Update the post status to published
@@ -181,7 +290,12 @@ class ScheduleService {
             .update({
               status: 'published',
               published_at: new Date().toISOString(),
-              wordpress_post_id: publishResult.postId
+              wordpress_post_id: publishResult.postId,
+              wordpress_post_url: publishResult.postUrl,
+              wordpress_post_type: publishResult.postType,
+              lease_expires_at: null,
+              content_hash: await hashPostContent(blogContent),
+              synced_at: new Date().toISOString()
             })
             .eq('id', scheduledPost.id)
 
@@ -194,43 +308,32 @@ class ScheduleService {
             error: null 
           }
         } else {
-          // Update the post status to failed
-          await supabase
-            .from('scheduled_posts')
-            .update({
-              status: 'failed',
-              error_message: publishResult.error
-            })
-            .eq('id', scheduledPost.id)
+          const errorMessage = publishResult.error || 'Unknown error occurred'
+          // Recorded by the server; an attempt it could not record stays claimed until the worker releases it
+          const status = (publishResult.postStatus ?? 'publishing') as ScheduledPost['status']
 
           return { 
             data: { 
               ...scheduledPost, 
-              status: 'failed',
-              error_message: publishResult.error 
+              status,
+              error_message: errorMessage 
             }, 
-            error: publishResult.error 
+            // A retry has been scheduled, so the post is queued rather than failed
+            error: status === 'pending' ? null : errorMessage 
           }
         }
       } catch (publishError) {
         console.error('Error publishing to WordPress:', publishError)
         
-        // Update the post status to failed
-        await supabase
-          .from('scheduled_posts')
-          .update({
-            status: 'failed',
-            error_message: publishError.message
-          })
-          .eq('id', scheduledPost.id)
-
+        const errorMessage = publishError instanceof Error ? publishError.message : 'Unknown error occurred'
+        // Still claimed, the worker records the attempt once the claim runs out
         return { 
           data: { 
             ...scheduledPost, 
-            status: 'failed',
-            error_message: publishError.message 
+            status: 'publishing',
+            error_message: errorMessage 
           }, 
-          error: publishError.message 
+          error: errorMessage 
         }
       }
     } catch (err) {
@@ -262,9 +365,10 @@ class ScheduleService {
 
   async updateScheduleStatus(scheduleId: string, status: 'active' | 'paused' | 'completed'): Promise<{ error: any }> {
     try {
+      // Resuming gives a schedule paused after failed generations a fresh set of attempts
       const { error } = await supabase
         .from('post_schedules')
-        .update({ status })
+        .update(status === 'active' ? { status, failure_count: 0, next_attempt_at: null } : { status })
         .eq('id', scheduleId)
 
       return { error }
@@ -288,7 +392,10 @@ class ScheduleService {
     }
   }
 
-  async generatePostForSchedule(scheduleId: string): Promise<{ data: ScheduledPost | null, error: any }> {
+  async generatePostForSchedule(
+    scheduleId: string,
+    onProgress?: (progress: GenerationProgress) => void
+  ): Promise<{ data: ScheduledPost | null, error: any }> {
     try {
       // Get schedule details
       const { data: schedule, error: scheduleError } = await supabase
@@ -301,47 +408,72 @@ class ScheduleService {
         return { data: null, error: scheduleError || 'Schedule not found' }
       }
 
-      // Generate content using OpenAI
+      // Reserve the points before spending anything on generation
+      const reservation = await pointsService.reserveForPost(
+        schedule.user_id,
+        schedule.frequency,
+        schedule.word_count,
+        scheduleId
+      )
+      if (!reservation.entryId) {
+        if (schedule.stop_condition === 'points_exhausted') {
+          await this.updateScheduleStatus(scheduleId, 'completed')
+        }
+        return { data: null, error: reservation.error }
+      }
+
+      // Generate content using OpenAI. The edge function saves the post and commits the reservation to it.
       console.log('Generating content for schedule:', scheduleId)
-      const blogContent = await openAIService.generateBlogPost({
-        type: schedule.schedule_type,
-        content: schedule.content_input,
-        description: schedule.description,
-        imageKeywords: schedule.image_keywords,
-        wordCount: schedule.word_count,
-        tone: 'professional',
-        seoFocus: true
-      })
-
-      const generatedPost: Omit<ScheduledPost, 'id' | 'created_at' | 'updated_at'> = {
-        schedule_id: scheduleId,
-        user_id: schedule.user_id,
-        wordpress_site_id: schedule.wordpress_site_id,
-        title: blogContent.title,
-        content: blogContent.content,
-        excerpt: blogContent.excerpt,
-        tags: blogContent.tags,
-        meta_description: blogContent.metaDescription,
-        seo_keywords: blogContent.seoKeywords,
-        status: 'pending',
-        scheduled_for: schedule.next_post_date || new Date().toISOString()
-      }
-
-      // Save the generated post
-      const { data, error } = await supabase
-        .from('scheduled_posts')
-        .insert([generatedPost])
-        .select()
-        .single()
+      let blogContent
+      let topic
+      try {
+        // The next queued topic takes the place of the schedule's own content input
+        const { data: queuedTopic, error: topicError } = await topicService.nextQueuedTopic(scheduleId)
+        if (topicError) throw topicError
+        topic = queuedTopic
 
-      if (error) {
-        console.error('Error saving generated post:', error)
-        return { data: null, error }
+        blogContent = await openAIService.generateBlogPost({
+          type: schedule.schedule_type,
+          content: topic?.topic ?? schedule.content_input,
+          description: schedule.description,
+          imageKeywords: schedule.image_keywords,
+          wordCount: schedule.word_count,
+          seoFocus: true,
+          model: schedule.model ?? undefined,
+          brandVoiceId: schedule.brand_voice_id ?? undefined,
+          wordpressSiteId: schedule.wordpress_site_id,
+          internalLinkCount: schedule.internal_link_count,
+          scheduleId,
+          ledgerEntryId: reservation.entryId,
+          save: {
+            fields: {
+              schedule_id: scheduleId,
+              user_id: schedule.user_id,
+              wordpress_site_id: schedule.wordpress_site_id,
+              category_ids: schedule.category_ids ?? [],
+              tag_policy: schedule.tag_policy ?? 'allow_new',
+              publish_settings: schedule.publish_settings ?? {},
+              status: schedule.requires_approval ? 'awaiting_review' : 'pending',
+              scheduled_for: schedule.next_post_date || new Date().toISOString()
+            }
+          }
+        }, onProgress)
+      } catch (generationError) {
+        await pointsService.refund(reservation.entryId, 'Content generation failed')
+        throw generationError
+      }
+
+      const data = blogContent.post
+
+      if (topic) {
+        await topicService.markTopicUsed(topic.id, data.id)
       }
 
       // Update the schedule's next post date
       await supabase.rpc('update_next_post_date', { schedule_id: scheduleId })
 
+      await this.fanOutToSites(schedule, data, topic?.topic ?? schedule.content_input, onProgress)
+
       return { data, error: null }
     } catch (err) {
       console.error('Error generating post for schedule:', err)
@@ -377,19 +509,30 @@ class ScheduleService {
 
   async publishPost(postId: string): Promise<{ error: any }> {
     try {
+      const canonical = await this.loadCanonicalUrl(postId)
+      if (canonical.required && !canonical.url) {
+        return { error: "This copy points its canonical URL at the primary site's post, which is not published yet" }
+      }
+
+      // Claim the post so a worker run cannot publish it at the same time
+      const { data: claimed, error: claimError } = await supabase
+        .rpc('claim_scheduled_post', {
+          post_id: postId,
+          lease_seconds: PUBLISH_LEASE_MS / 1000
+        })
+
+      if (claimError) {
+        return { error: claimError }
+      }
+
+      if (!claimed) {
+        return { error: 'This post is already being published' }
+      }
+
       // Get the post details
       const { data: post, error: fetchError } = await supabase
         .from('scheduled_posts')
-        .select(`
-          *,
-          wordpress_sites (
-            id,
-            name,
-            url,
-            username,
-            password
-          )
-        `)
+        .select('*')
         .eq('id', postId)
         .single()
 
@@ -399,24 +542,29 @@ class ScheduleService {
 
       // Publish to WordPress
       const publishResult = await wordPressService.publishPost(
-        {
-          id: post.wordpress_sites.id,
-          name: post.wordpress_sites.name,
-          url: post.wordpress_sites.url,
-          username: post.wordpress_sites.username,
-          password: post.wordpress_sites.password
-        },
+        post.wordpress_site_id,
         {
           title: post.title,
           content: post.content,
           excerpt: post.excerpt,
           status: 'publish',
           tags: post.tags,
+          tagPolicy: post.tag_policy,
           categories: [],
+          categoryIds: post.category_ids,
           metaDescription: post.meta_description,
-          featuredImage: undefined // Featured image would be embedded in content already
-        }
+          seoTitle: post.title,
+          focusKeyword: post.seo_keywords?.[0],
+          canonicalUrl: canonical.url,
+          featuredImage: post.featured_image ?? undefined,
+          featuredMediaId: post.featured_media_id,
+          publishSettings: post.publish_settings,
+          // Only a post with an earlier failed or interrupted attempt can already be on WordPress
+          ...((post.attempt_count || post.last_error) && { createdAfter: post.created_at })
+        },
+        postId
       )
+      await this.rememberFeaturedMedia(postId, publishResult.featuredMediaId, post.featured_media_id)
 
       if (publishResult.success) {
         // Update post status to published
@@ -425,22 +573,18 @@ class ScheduleService {
           .update({ 
             status: 'published',
             published_at: new Date().toISOString(),
-            wordpress_post_id: publishResult.postId
+            wordpress_post_id: publishResult.postId,
+            wordpress_post_url: publishResult.postUrl,
+            wordpress_post_type: publishResult.postType,
+            lease_expires_at: null,
+            content_hash: await hashPostContent(post),
+            synced_at: new Date().toISOString()
           })
           .eq('id', postId)
 
         return { error }
       } else {
-        // Update post status to failed
-        const { error } = await supabase
-          .from('scheduled_posts')
-          .update({ 
-            status: 'failed',
-            error_message: publishResult.error
-          })
-          .eq('id', postId)
-
-        return { error: publishResult.error }
+        return { error: publishResult.error || 'Unknown error occurred' }
       }
 
     } catch (err) {
@@ -448,6 +592,461 @@ class ScheduleService {
       return { error: err }
     }
   }
+
+  // Saves edits from the Content Library. Unpublished posts can be parked as drafts so the worker skips them.
+  async savePost(postId: string, updates: PostContentUpdate, asDraft = false): Promise<{ data: ScheduledPost | null, error: any }> {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_posts')
+        .update({
+          ...updates,
+          ...(asDraft && { status: 'draft' })
+        })
+        .eq('id', postId)
+        .select()
+        .single()
+
+      if (error) {
+        return { data: null, error }
+      }
+
+      // A failed re-score keeps the previous score, it never fails the save
+      const { data: seo } = await seoService.analyzePost(postId)
+      return { data: seo ? { ...data, seo_score: seo.score, seo_analysis: seo } : data, error: null }
+    } catch (err) {
+      console.error('Error saving post:', err)
+      return { data: null, error: err }
+    }
+  }
+
+  // Generates fresh content for an existing post. Only the word count part of the cost is charged.
+  // Reviewer notes are passed to the model, and a reviewed post goes back into the review queue.
+  async regeneratePost(postId: string, notes?: string): Promise<{ data: ScheduledPost | null, error: any }> {
+    try {
+      const { data: post, error: fetchError } = await supabase
+        .from('scheduled_posts')
+        .select(`
+          *,
+          post_schedules (
+            schedule_type,
+            content_input,
+            description,
+            image_keywords,
+            word_count,
+            model,
+            brand_voice_id,
+            internal_link_count
+          )
+        `)
+        .eq('id', postId)
+        .single()
+
+      if (fetchError || !post) {
+        return { data: null, error: fetchError || 'Post not found' }
+      }
+
+      const schedule = post.post_schedules
+      const wordCount = schedule?.word_count ?? estimateWordCount(post.content)
+
+      // The topic the post was written about. Posts for extra sites share their primary post's topic.
+      const { data: topic } = await supabase
+        .from('schedule_topics')
+        .select('topic')
+        .eq('scheduled_post_id', post.primary_post_id ?? postId)
+        .maybeSingle()
+
+      const reservation = await pointsService.reserveForPost(post.user_id, 'regenerate', wordCount, post.schedule_id ?? undefined)
+      if (!reservation.entryId) {
+        return { data: null, error: reservation.error }
+      }
+
+      const inReview = ['awaiting_review', 'rejected'].includes(post.status)
+
+      let blogContent
+      try {
+        blogContent = await openAIService.generateBlogPost({
+          type: schedule?.schedule_type ?? 'topic',
+          content: topic?.topic || schedule?.content_input || post.title,
+          description: [
+            schedule?.description,
+            notes && `Reviewer feedback on the previous draft, address all of it: ${notes}`
+          ].filter(Boolean).join('\n\n') || undefined,
+          imageKeywords: schedule?.image_keywords,
+          wordCount,
+          seoFocus: true,
+          model: schedule?.model ?? undefined,
+          brandVoiceId: schedule?.brand_voice_id ?? undefined,
+          wordpressSiteId: post.wordpress_site_id,
+          // Keeps the number of links the post was first generated with
+          internalLinkCount: schedule?.internal_link_count ?? (post.internal_links?.length || undefined),
+          scheduleId: post.schedule_id ?? undefined,
+          excludePostId: postId,
+          ledgerEntryId: reservation.entryId,
+          // The edge function replaces the post's content and commits the reservation to it
+          save: {
+            postId,
+            fields: {
+              // The new image is uploaded the next time the post is published
+              featured_media_id: null,
+              ...(inReview && { status: 'awaiting_review', review_notes: notes || post.review_notes })
+            }
+          }
+        })
+      } catch (generationError) {
+        await pointsService.refund(reservation.entryId, 'Content generation failed')
+        throw generationError
+      }
+
+      return { data: blogContent.post, error: null }
+    } catch (err) {
+      console.error('Error regenerating post:', err)
+      return { data: null, error: err }
+    }
+  }
+
+  // Sends the local copy of an already published post to its existing WordPress post
+  async pushPostUpdate(postId: string): Promise<{ error: any }> {
+    try {
+      const { data: post, error: fetchError } = await supabase
+        .from('scheduled_posts')
+        .select('*')
+        .eq('id', postId)
+        .single()
+
+      if (fetchError || !post) {
+        return { error: fetchError || 'Post not found' }
+      }
+
+      if (!post.wordpress_post_id) {
+        return { error: 'This post has not been published to WordPress yet' }
+      }
+
+      const updateResult = await wordPressService.updatePost(
+        post.wordpress_site_id,
+        post.wordpress_post_id,
+        {
+          title: post.title,
+          content: post.content,
+          excerpt: post.excerpt,
+          tags: post.tags,
+          tagPolicy: post.tag_policy,
+          metaDescription: post.meta_description,
+          seoTitle: post.title,
+          focusKeyword: post.seo_keywords?.[0]
+        },
+        post.wordpress_post_type
+      )
+
+      if (!updateResult.success) {
+        return { error: updateResult.error }
+      }
+
+      const { error } = await supabase
+        .from('scheduled_posts')
+        .update({
+          content_hash: await hashPostContent(post),
+          synced_at: new Date().toISOString()
+        })
+        .eq('id', postId)
+
+      return { error }
+    } catch (err) {
+      console.error('Error pushing post update:', err)
+      return { error: err }
+    }
+  }
+
+  // Compares the local copy and the WordPress copy against the hash recorded at the last sync
+  async checkPostDrift(postId: string): Promise<{ data: PostSyncStatus | null, error: any }> {
+    try {
+      const { data: post, error: fetchError } = await supabase
+        .from('scheduled_posts')
+        .select('*')
+        .eq('id', postId)
+        .single()
+
+      if (fetchError || !post) {
+        return { data: null, error: fetchError || 'Post not found' }
+      }
+
+      if (!post.wordpress_post_id) {
+        return { data: null, error: 'This post has not been published to WordPress yet' }
+      }
+
+      const remote = await wordPressService.getPost(
+        post.wordpress_site_id,
+        post.wordpress_post_id,
+        post.wordpress_post_type
+      )
+
+      if (!remote.success || !remote.post) {
+        if (remote.statusCode === 404 || remote.statusCode === 410) {
+          return { data: { localChanged: false, remoteChanged: false, remoteMissing: true }, error: null }
+        }
+        return { data: null, error: remote.error }
+      }
+
+      const localHash = await hashPostContent(post)
+      const remoteHash = await hashPostContent(remote.post)
+      // Posts published before hashes were recorded are compared directly
+      const syncedHash = post.content_hash ?? localHash
+
+      return {
+        data: {
+          localChanged: localHash !== syncedHash,
+          remoteChanged: remoteHash !== syncedHash,
+          remoteMissing: remote.post.status === 'trash',
+          remoteModifiedAt: remote.post.modified
+        },
+        error: null
+      }
+    } catch (err) {
+      console.error('Error checking post drift:', err)
+      return { data: null, error: err }
+    }
+  }
+
+  // Deletes a post, moving its WordPress copy to the trash first so nothing is left orphaned
+  async deletePost(postId: string): Promise<{ error: any }> {
+    try {
+      const { data: post, error: fetchError } = await supabase
+        .from('scheduled_posts')
+        .select('*')
+        .eq('id', postId)
+        .single()
+
+      if (fetchError || !post) {
+        return { error: fetchError || 'Post not found' }
+      }
+
+      if (post.status === 'publishing') {
+        return { error: 'This post is being published, try again in a moment' }
+      }
+
+      if (post.wordpress_post_id) {
+        const trashResult = await wordPressService.trashPost(
+          post.wordpress_site_id,
+          post.wordpress_post_id,
+          post.wordpress_post_type
+        )
+
+        // Keep the local row so the delete can be retried rather than orphaning the remote post
+        if (!trashResult.success) {
+          return { error: `Could not remove the post from WordPress: ${trashResult.error}` }
+        }
+      }
+
+      const { error } = await supabase
+        .from('scheduled_posts')
+        .delete()
+        .eq('id', postId)
+
+      return { error }
+    } catch (err) {
+      console.error('Error deleting post:', err)
+      return { error: err }
+    }
+  }
+
+  // Releases a post awaiting review to the worker, which publishes it at its scheduled time
+  async approvePost(postId: string, notes?: string): Promise<{ error: any }> {
+    try {
+      const { data: approved, error } = await supabase
+        .rpc('approve_scheduled_post', { post_id: postId, notes: notes || null })
+
+      if (error) {
+        return { error }
+      }
+
+      return { error: approved ? null : 'This post is no longer awaiting review' }
+    } catch (err) {
+      console.error('Error approving post:', err)
+      return { error: err }
+    }
+  }
+
+  async rejectPost(postId: string, notes?: string): Promise<{ error: any }> {
+    try {
+      const { data: rejected, error } = await supabase
+        .rpc('reject_scheduled_post', { post_id: postId, notes: notes || null })
+
+      if (error) {
+        return { error }
+      }
+
+      return { error: rejected ? null : 'This post is no longer awaiting review' }
+    } catch (err) {
+      console.error('Error rejecting post:', err)
+      return { error: err }
+    }
+  }
+
+  // Puts a failed or dead-lettered post back in the queue and publishes it straight away
+  async retryPost(postId: string): Promise<{ error: any }> {
+    try {
+      const { error: resetError } = await supabase
+        .rpc('retry_scheduled_post', { post_id: postId })
+
+      if (resetError) {
+        return { error: resetError }
+      }
+
+      return await this.publishPost(postId)
+    } catch (err) {
+      console.error('Error retrying post:', err)
+      return { error: err }
+    }
+  }
+
+  async getDeadLetterPosts(userId: string): Promise<{ data: ScheduledPost[] | null, error: any }> {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_posts')
+        .select(`
+          *,
+          wordpress_sites (
+            name,
+            url
+          )
+        `)
+        .eq('user_id', userId)
+        .eq('status', 'dead_letter')
+        .order('updated_at', { ascending: false })
+
+      return { data, error }
+    } catch (err) {
+      console.error('Error fetching dead-lettered posts:', err)
+      return { data: null, error: err }
+    }
+  }
+
+  // Adds a post for each of the schedule's extra sites: a variant generated and paid for like any other post,
+  // or a copy of the primary post published with the primary's URL as canonical URL.
+  // A site that fails is logged and skipped, the primary post and the other sites are kept.
+  private async fanOutToSites(
+    schedule: PostSchedule & { id: string, user_id: string },
+    primary: ScheduledPost,
+    topicText: string,
+    onProgress?: (progress: GenerationProgress) => void
+  ) {
+    const { data: sites, error } = await supabase
+      .from('schedule_sites')
+      .select('wordpress_site_id')
+      .eq('schedule_id', schedule.id)
+
+    if (error) {
+      console.error('Error loading schedule sites:', error)
+      return
+    }
+
+    const canonical = schedule.fanout_mode === 'canonical'
+    for (const { wordpress_site_id: siteId } of sites) {
+      let reservation: PointsReservation = { entryId: null, error: null }
+      try {
+        const fields = {
+          schedule_id: schedule.id,
+          user_id: schedule.user_id,
+          wordpress_site_id: siteId,
+          primary_post_id: primary.id,
+          canonical_to_primary: canonical,
+          // The schedule's categories and publish settings belong to the primary site
+          category_ids: [],
+          tag_policy: primary.tag_policy,
+          status: primary.status,
+          scheduled_for: primary.scheduled_for
+        }
+
+        if (canonical) {
+          const { error: insertError } = await supabase
+            .from('scheduled_posts')
+            .insert([{
+              ...fields,
+              title: primary.title,
+              content: primary.content,
+              excerpt: primary.excerpt,
+              tags: primary.tags,
+              meta_description: primary.meta_description,
+              seo_keywords: primary.seo_keywords,
+              generation_validation: primary.generation_validation,
+              internal_links: primary.internal_links,
+              seo_score: primary.seo_score,
+              seo_analysis: primary.seo_analysis,
+              featured_image: primary.featured_image
+            }])
+
+          if (insertError) {
+            throw insertError
+          }
+          continue
+        }
+
+        reservation = await pointsService.reserveForPost(schedule.user_id, schedule.frequency, schedule.word_count, schedule.id)
+        if (!reservation.entryId) {
+          throw reservation.error
+        }
+
+        // The schedule history now includes the primary post, which keeps the variant off its wording.
+        // The edge function saves the variant and commits the reservation to it.
+        await openAIService.generateBlogPost({
+          type: schedule.schedule_type,
+          content: topicText,
+          description: schedule.description,
+          imageKeywords: schedule.image_keywords,
+          wordCount: schedule.word_count,
+          seoFocus: true,
+          model: schedule.model ?? undefined,
+          brandVoiceId: schedule.brand_voice_id ?? undefined,
+          wordpressSiteId: siteId,
+          internalLinkCount: schedule.internal_link_count,
+          scheduleId: schedule.id,
+          ledgerEntryId: reservation.entryId,
+          save: { fields }
+        }, onProgress)
+      } catch (err) {
+        console.error(`Error generating the post for site ${siteId}:`, err)
+        if (reservation.entryId) {
+          await pointsService.refund(reservation.entryId, 'Content generation failed')
+        }
+      }
+    }
+  }
+
+  // URL a canonical copy points at, known once its primary post is published. A post scheduled on WordPress
+  // only has a preview link until then.
+  private async loadCanonicalUrl(postId: string): Promise<{ required: boolean, url?: string }> {
+    const { data: post } = await supabase
+      .from('scheduled_posts')
+      .select('primary_post_id, canonical_to_primary')
+      .eq('id', postId)
+      .maybeSingle()
+
+    if (!post?.canonical_to_primary || !post.primary_post_id) {
+      return { required: false }
+    }
+
+    const { data: primary } = await supabase
+      .from('scheduled_posts')
+      .select('wordpress_post_url')
+      .eq('id', post.primary_post_id)
+      .eq('status', 'published')
+      .maybeSingle()
+
+    return { required: true, url: primary?.wordpress_post_url ?? undefined }
+  }
+
+  // Keeps the uploaded image's media id, also after a failed publish, so a retry does not upload it again
+  private async rememberFeaturedMedia(postId: string, mediaId?: number, currentMediaId?: number | null) {
+    if (!mediaId || mediaId === currentMediaId) return
+
+    const { error } = await supabase
+      .from('scheduled_posts')
+      .update({ featured_media_id: mediaId })
+      .eq('id', postId)
+
+    if (error) {
+      console.error('Error saving featured media id:', error)
+    }
+  }
 }
 
 export const scheduleService = new ScheduleService()
@@ -0,0 +1,64 @@
+// SEO Analysis Service
+// Posts are scored on the server when they are generated; this re-scores them after they are edited
+
+import { invokeFunction } from './supabase'
+
+export interface SeoFinding {
+  check: string
+  status: 'pass' | 'warn' | 'fail'
+  message: string
+}
+
+export interface SeoAnalysis {
+  score: number // 0 to 100
+  focusKeyword: string | null // The post's first SEO keyword
+  findings: SeoFinding[]
+  stats: {
+    wordCount: number
+    keywordCount: number
+    keywordDensity: number
+    metaDescriptionLength: number
+    headings: { h1: number; h2: number; h3: number }
+    images: number
+    imagesWithoutAlt: number
+    readingGrade: number
+    internalLinks: number
+    externalLinks: number
+  }
+  analyzedAt: string
+}
+
+export const seoCheckLabels: Record<string, string> = {
+  keyword_in_title: 'Keyword in title',
+  keyword_in_intro: 'Keyword in first paragraph',
+  keyword_in_headings: 'Keyword in subheadings',
+  keyword_density: 'Keyword density',
+  meta_description: 'Meta description',
+  heading_structure: 'Heading structure',
+  image_alt_text: 'Image alt text',
+  readability: 'Readability',
+  internal_links: 'Internal links',
+  external_links: 'External links',
+}
+
+// Tailwind classes for a score badge
+export function seoScoreStyle(score: number): string {
+  if (score >= 80) return 'text-green-700 bg-green-50'
+  if (score >= 50) return 'text-amber-700 bg-amber-50'
+  return 'text-red-700 bg-red-50'
+}
+
+class SeoService {
+  // Scores the saved copy of a post and stores the result on it
+  async analyzePost(postId: string): Promise<{ data: SeoAnalysis | null, error: unknown }> {
+    try {
+      const data = await invokeFunction<SeoAnalysis>('analyze-seo', { postId })
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error analyzing post SEO:', err)
+      return { data: null, error: err }
+    }
+  }
+}
+
+export const seoService = new SeoService()
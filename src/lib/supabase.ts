@@ -12,4 +12,23 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     storageKey: 'supabase.auth.token',
     flowType: 'pkce'
   }
-})
\ No newline at end of file
+})
+
+// Calls an edge function with the signed-in user's session. Functions report failures as { error },
+// which is surfaced here instead of the generic non-2xx message.
+export async function invokeFunction<T>(name: string, body: object): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body })
+
+  if (error) {
+    let message = error.message
+    try {
+      const details = await error.context?.json()
+      message = details?.error || message
+    } catch {
+      // The response had no JSON body
+    }
+    throw new Error(message)
+  }
+
+  return data as T
+}
@@ -0,0 +1,163 @@
+// Topic Queue Service
+// Ordered topics per schedule; each generation uses the next queued topic
+
+import { supabase, invokeFunction } from './supabase'
+
+export interface ScheduleTopic {
+  id: string
+  schedule_id: string
+  user_id: string
+  topic: string
+  position: number
+  status: 'queued' | 'used'
+  source: 'manual' | 'import' | 'suggested'
+  scheduled_post_id?: string | null
+  used_at?: string | null
+  created_at?: string
+}
+
+// Splits pasted text or a CSV file into topics: one per line, first column only, quotes and header row removed
+export function parseTopicList(text: string): string[] {
+  const topics = text
+    .split(/\r?\n/)
+    .map(line => {
+      const quoted = line.trim().match(/^"((?:[^"]|"")*)"/)
+      return (quoted ? quoted[1].replace(/""/g, '"') : line.split(',')[0]).trim()
+    })
+    .filter(Boolean)
+
+  if (topics.length && /^(topic|topics|title|keyword|keywords)$/i.test(topics[0])) {
+    topics.shift()
+  }
+
+  return Array.from(new Set(topics))
+}
+
+class TopicService {
+  async getTopics(scheduleId: string): Promise<{ data: ScheduleTopic[] | null, error: any }> {
+    try {
+      const { data, error } = await supabase
+        .from('schedule_topics')
+        .select('*')
+        .eq('schedule_id', scheduleId)
+        .order('position')
+        .order('created_at')
+
+      return { data, error }
+    } catch (err) {
+      console.error('Error fetching schedule topics:', err)
+      return { data: null, error: err }
+    }
+  }
+
+  // Appends topics to the end of the queue
+  async addTopics(
+    scheduleId: string,
+    userId: string,
+    topics: string[],
+    source: ScheduleTopic['source'] = 'manual'
+  ): Promise<{ data: ScheduleTopic[] | null, error: any }> {
+    try {
+      const { data: last } = await supabase
+        .from('schedule_topics')
+        .select('position')
+        .eq('schedule_id', scheduleId)
+        .order('position', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const start = (last?.position ?? 0) + 1
+      const { data, error } = await supabase
+        .from('schedule_topics')
+        .insert(topics.map((topic, index) => ({
+          schedule_id: scheduleId,
+          user_id: userId,
+          topic,
+          source,
+          position: start + index
+        })))
+        .select()
+
+      return { data, error }
+    } catch (err) {
+      console.error('Error adding schedule topics:', err)
+      return { data: null, error: err }
+    }
+  }
+
+  async deleteTopic(topicId: string): Promise<{ error: any }> {
+    try {
+      const { error } = await supabase
+        .from('schedule_topics')
+        .delete()
+        .eq('id', topicId)
+
+      return { error }
+    } catch (err) {
+      console.error('Error deleting schedule topic:', err)
+      return { error: err }
+    }
+  }
+
+  // Saves the queue in the given order
+  async reorderTopics(scheduleId: string, topicIds: string[]): Promise<{ error: any }> {
+    try {
+      const { error } = await supabase.rpc('reorder_schedule_topics', {
+        p_schedule_id: scheduleId,
+        topic_ids: topicIds
+      })
+
+      return { error }
+    } catch (err) {
+      console.error('Error reordering schedule topics:', err)
+      return { error: err }
+    }
+  }
+
+  // Asks the model for new topics that fit the schedule and avoid its queue and earlier posts.
+  // Suggestions are returned for review, not queued.
+  async suggestTopics(scheduleId: string, count = 5): Promise<{ data: string[] | null, error: any }> {
+    try {
+      const { topics } = await invokeFunction<{ topics: string[] }>('suggest-topics', { scheduleId, count })
+      return { data: topics, error: null }
+    } catch (err) {
+      console.error('Error suggesting topics:', err)
+      return { data: null, error: err }
+    }
+  }
+
+  async nextQueuedTopic(scheduleId: string): Promise<{ data: ScheduleTopic | null, error: any }> {
+    try {
+      const { data, error } = await supabase
+        .from('schedule_topics')
+        .select('*')
+        .eq('schedule_id', scheduleId)
+        .eq('status', 'queued')
+        .order('position')
+        .order('created_at')
+        .limit(1)
+        .maybeSingle()
+
+      return { data, error }
+    } catch (err) {
+      console.error('Error fetching next topic:', err)
+      return { data: null, error: err }
+    }
+  }
+
+  async markTopicUsed(topicId: string, postId: string): Promise<{ error: any }> {
+    try {
+      const { error } = await supabase
+        .from('schedule_topics')
+        .update({ status: 'used', scheduled_post_id: postId, used_at: new Date().toISOString() })
+        .eq('id', topicId)
+
+      return { error }
+    } catch (err) {
+      console.error('Error marking topic used:', err)
+      return { error: err }
+    }
+  }
+}
+
+export const topicService = new TopicService()
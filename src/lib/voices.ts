@@ -0,0 +1,112 @@
+// Brand Voice Service
+// Reusable voice profiles that generation follows, per user or per WordPress site
+
+import { supabase } from './supabase'
+
+export interface BrandVoice {
+  id?: string
+  user_id?: string
+  wordpress_site_id?: string | null // Null makes the voice available for every site
+  name: string
+  tone: string
+  audience: string
+  reading_level: 'easy' | 'standard' | 'advanced' | 'expert'
+  banned_words: string[]
+  preferred_phrases: string[]
+  sample_paragraphs: string[]
+  is_site_default?: boolean // Used for the site's schedules that do not pick a voice
+  created_at?: string
+  updated_at?: string
+}
+
+export const readingLevels: { id: BrandVoice['reading_level']; name: string }[] = [
+  { id: 'easy', name: 'Easy (grade 6-8)' },
+  { id: 'standard', name: 'Standard (grade 9-10)' },
+  { id: 'advanced', name: 'Advanced (college)' },
+  { id: 'expert', name: 'Expert (practitioners)' },
+]
+
+class VoiceService {
+  async getUserVoices(userId: string): Promise<{ data: BrandVoice[] | null, error: any }> {
+    const { data, error } = await supabase
+      .from('brand_voices')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name')
+
+    return { data, error }
+  }
+
+  // Voices a schedule for this site can pick: the site's own plus the ones shared by every site
+  async getVoicesForSite(userId: string, siteId: string): Promise<{ data: BrandVoice[] | null, error: any }> {
+    const { data, error } = await supabase
+      .from('brand_voices')
+      .select('*')
+      .eq('user_id', userId)
+      .or(`wordpress_site_id.is.null,wordpress_site_id.eq.${siteId}`)
+      .order('name')
+
+    return { data, error }
+  }
+
+  async saveVoice(voice: BrandVoice): Promise<{ data: BrandVoice | null, error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        return { data: null, error: 'User not authenticated' }
+      }
+
+      const id = voice.id
+      const values = {
+        user_id: user.id,
+        wordpress_site_id: voice.wordpress_site_id || null,
+        name: voice.name.trim(),
+        tone: voice.tone,
+        audience: voice.audience,
+        reading_level: voice.reading_level,
+        banned_words: voice.banned_words,
+        preferred_phrases: voice.preferred_phrases,
+        sample_paragraphs: voice.sample_paragraphs,
+        // Only a site's own voice can be its default
+        is_site_default: Boolean(voice.wordpress_site_id && voice.is_site_default)
+      }
+
+      // A site has one default voice, so clear the previous one first
+      if (values.is_site_default) {
+        let clearQuery = supabase
+          .from('brand_voices')
+          .update({ is_site_default: false })
+          .eq('wordpress_site_id', values.wordpress_site_id)
+          .eq('is_site_default', true)
+        if (id) {
+          clearQuery = clearQuery.neq('id', id)
+        }
+        const { error: clearError } = await clearQuery
+        if (clearError) {
+          return { data: null, error: clearError }
+        }
+      }
+
+      const { data, error } = id
+        ? await supabase.from('brand_voices').update(values).eq('id', id).select().single()
+        : await supabase.from('brand_voices').insert([values]).select().single()
+
+      return { data, error }
+    } catch (err) {
+      console.error('Error saving brand voice:', err)
+      return { data: null, error: err }
+    }
+  }
+
+  // Schedules using the voice fall back to their site's default voice
+  async deleteVoice(voiceId: string): Promise<{ error: any }> {
+    const { error } = await supabase
+      .from('brand_voices')
+      .delete()
+      .eq('id', voiceId)
+
+    return { error }
+  }
+}
+
+export const voiceService = new VoiceService()
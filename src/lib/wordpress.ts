@@ -1,8 +1,32 @@
-// WordPress Integration Service
-// Handles all WordPress REST API interactions
+// WordPress Integration Client
+// Every WordPress call runs in the wordpress-sites edge function, which decrypts the site's
+// application password from Vault. The password is never sent back to the browser.
 
+import { invokeFunction } from './supabase'
+
+type SeoPlugin = 'yoast' | 'rank_math' | 'none'
+
+// How the model's tags become WordPress tags: matched to existing tags only, matched or created, or not sent
+type TagPolicy = 'existing_only' | 'allow_new' | 'none'
+
+// A connected site as the app sees it. The application password stays on the server.
 interface WordPressSite {
   id: string
+  name: string
+  url: string
+  username: string
+  status: 'connected' | 'disconnected' | 'testing'
+  credentials_rotated_at?: string | null
+  seo_plugin?: SeoPlugin | null // Null until the connection is tested
+  seo_fields_writable?: boolean
+  seo_checked_at?: string | null
+  diagnostics?: WordPressDiagnostics | null // Report of the last connection test
+  publish_settings?: PublishSettings // Defaults for every post sent to the site
+  created_at?: string
+  updated_at?: string
+}
+
+interface WordPressCredentials {
   name: string
   url: string
   username: string
@@ -15,14 +39,69 @@ interface WordPressPost {
   excerpt: string
   status: 'draft' | 'publish' | 'future'
   tags: string[]
+  tagPolicy?: TagPolicy
   categories: string[]
+  categoryIds?: number[] // Existing WordPress categories, used instead of the category names
   metaDescription?: string
+  seoTitle?: string
+  focusKeyword?: string
+  canonicalUrl?: string // Set on copies of a post first published on another site
   scheduledDate?: string
   featuredImage?: {
+    id?: string
     url: string
     altText: string
     attribution: string
+    attributionHtml?: string
+    downloadLocation?: string
   }
+  featuredMediaId?: number | null // Media already uploaded for this post by an earlier attempt
+  publishSettings?: PublishSettings // Overrides the site's publish settings
+  createdAfter?: string // ISO timestamp before any attempt; set on retries to look for a post an interrupted attempt created
+}
+
+// Where and how posts are created on a site. Unset fields keep WordPress' own defaults.
+interface PublishSettings {
+  postType?: string // REST base of the post type, e.g. 'posts', 'pages' or 'news'
+  authorId?: number
+  format?: string
+  commentStatus?: 'open' | 'closed'
+  sticky?: boolean // Only posts can be sticky
+}
+
+// SEO plugin found on the site when its connection was tested
+interface SeoPluginDetection {
+  plugin: SeoPlugin
+  fieldsWritable: boolean
+  warning?: string
+}
+
+type DiagnosticCheck =
+  | 'reachability'
+  | 'rest_api'
+  | 'authentication'
+  | 'capabilities'
+  | 'media_upload'
+  | 'seo_plugin'
+  | 'wordpress_version'
+
+interface DiagnosticResult {
+  check: DiagnosticCheck
+  status: 'pass' | 'warn' | 'fail' | 'skipped'
+  message: string
+  hint?: string // What the site owner can do about a warning or failure
+}
+
+interface WordPressDiagnostics {
+  checks: DiagnosticResult[]
+  wordpressVersion: string | null
+  checkedAt: string
+}
+
+interface ConnectionTestResult {
+  connected: boolean
+  seo: SeoPluginDetection | null // Null when the connection failed
+  diagnostics?: WordPressDiagnostics // Missing when the test request itself failed
 }
 
 interface WordPressResponse {
@@ -30,249 +109,209 @@ interface WordPressResponse {
   postId?: number
   postUrl?: string
   error?: string
+  statusCode?: number
+  retryable?: boolean // Whether a later attempt could succeed (timeouts, 5xx, 429)
+  featuredMediaId?: number // Set whenever the featured image is on WordPress, even if the post itself failed
+  postType?: string // REST base the post was created under
+}
+
+interface PublishResponse extends WordPressResponse {
+  postStatus?: string // Status the app's post moved to after a failed attempt, 'pending' when a retry is scheduled
+}
+
+// Raw (unrendered) copy of a post as stored on WordPress
+interface WordPressRemotePost {
+  id: number
+  status: string
+  link: string
+  date: string // Publish date in UTC, the scheduled date while the post is 'future'
+  modified: string // Last change in UTC
+  title: string
+  content: string
+  excerpt: string
+}
+
+interface WordPressPostResponse extends WordPressResponse {
+  post?: WordPressRemotePost
+}
+
+// A category or tag of the site
+interface WordPressTerm {
+  id: number
+  name: string
+  slug: string
+  parent: number
+  count: number
+}
+
+interface WordPressTermsResponse extends WordPressResponse {
+  categories?: WordPressTerm[]
+  tags?: WordPressTerm[]
+}
+
+// A post type the site lets LemmeWrite create, with the options its REST endpoint accepts
+interface WordPressPostType {
+  slug: string
+  name: string
+  restBase: string
+  formats: string[]
+  supportsAuthor: boolean
+  supportsComments: boolean
+  supportsSticky: boolean
+  taxonomies: string[]
+}
+
+interface WordPressAuthor {
+  id: number
+  name: string
+}
+
+interface PublishOptionsResponse extends WordPressResponse {
+  postTypes?: WordPressPostType[]
+  authors?: WordPressAuthor[] // Empty when the connected user may not list authors
+}
+
+export const diagnosticCheckLabels: Record<DiagnosticCheck, string> = {
+  reachability: 'Site reachable',
+  rest_api: 'REST API',
+  authentication: 'Authentication',
+  capabilities: 'Publishing permissions',
+  media_upload: 'Media uploads',
+  seo_plugin: 'SEO plugin',
+  wordpress_version: 'WordPress version'
+}
+
+export const seoPluginLabels: Record<SeoPlugin, string> = {
+  yoast: 'Yoast SEO',
+  rank_math: 'Rank Math',
+  none: 'No SEO plugin'
+}
+
+// Why SEO fields are not written to a site, or null when they are
+export function seoPluginWarning(site: Pick<WordPressSite, 'seo_plugin' | 'seo_fields_writable'>): string | null {
+  if (!site.seo_plugin) {
+    return 'SEO plugin not detected yet. Test the connection to enable meta descriptions, SEO titles and focus keywords.'
+  }
+  if (site.seo_plugin === 'none') {
+    return 'Neither Yoast SEO nor Rank Math is exposed via the REST API, so meta descriptions, SEO titles and focus keywords are not sent to this site.'
+  }
+  if (!site.seo_fields_writable) {
+    return `${seoPluginLabels[site.seo_plugin]} is installed but its fields are not exposed to the REST API, so SEO fields are not sent to this site.`
+  }
+  return null
+}
+
+// Fingerprint of the fields LemmeWrite edits. Whitespace is collapsed so WordPress reformatting does not count as a change.
+export async function hashPostContent(post: { title: string; content: string; excerpt: string }): Promise<string> {
+  const normalized = [post.title, post.content, post.excerpt]
+    .map(value => (value || '').replace(/\s+/g, ' ').trim())
+    .join('\n')
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized))
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
 }
 
 class WordPressService {
-  async publishPost(site: WordPressSite, post: WordPressPost): Promise<WordPressResponse> {
-    try {
-      console.log('Publishing to WordPress:', { site: site.name, title: post.title })
-      
-      const auth = btoa(`${site.username}:${site.password}`)
-      const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/posts`
-
-      // First, get or create categories and tags
-      const categoryIds = await this.getOrCreateCategories(site, post.categories)
-      const tagIds = await this.getOrCreateTags(site, post.tags)
-
-      // Handle featured image if provided
-      let featuredMediaId: number | undefined
-      if (post.featuredImage) {
-        try {
-          featuredMediaId = await this.uploadFeaturedImage(site, post.featuredImage, post.title)
-          console.log('Featured image uploaded with ID:', featuredMediaId)
-        } catch (imageError) {
-          console.warn('Failed to upload featured image:', imageError)
-          // Continue without featured image
-        }
-      }
-
-      const postData = {
-        title: post.title,
-        content: post.content,
-        excerpt: post.excerpt,
-        status: post.status,
-        categories: categoryIds,
-        tags: tagIds,
-        ...(featuredMediaId && { featured_media: featuredMediaId }),
-        ...(post.metaDescription && {
-          meta: {
-            _yoast_wpseo_metadesc: post.metaDescription
-          }
-        })
-      }
-
-      // If scheduled, add date
-      if (post.status === 'future' && post.scheduledDate) {
-        postData.date = post.scheduledDate
-      }
-
-      console.log('Sending post data to WordPress:', postData)
-
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Basic ${auth}`
-        },
-        body: JSON.stringify(postData)
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        console.error('WordPress API error:', errorData)
-        throw new Error(errorData.message || `HTTP ${response.status}`)
-      }
-
-      const result = await response.json()
-      console.log('WordPress publish success:', { id: result.id, link: result.link })
-      
-      return {
-        success: true,
-        postId: result.id,
-        postUrl: result.link
-      }
-    } catch (error) {
-      console.error('WordPress publish error:', error)
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
-      }
-    }
+  // `postId` is the app's post, claimed for publishing, whose failed attempt the server records
+  async publishPost(siteId: string, post: WordPressPost, postId?: string): Promise<PublishResponse> {
+    console.log('Publishing to WordPress:', { siteId, title: post.title })
+    return this.runPostAction<PublishResponse>({ action: 'publish', siteId, post, ...(postId && { postId }) })
   }
 
-  async testConnection(site: WordPressSite): Promise<boolean> {
-    try {
-      console.log('Testing WordPress connection:', site.name)
-      const auth = btoa(`${site.username}:${site.password}`)
-      const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/users/me`
-
-      const response = await fetch(apiUrl, {
-        headers: {
-          'Authorization': `Basic ${auth}`
-        }
-      })
-
-      console.log('WordPress connection test result:', response.ok)
-      return response.ok
-    } catch {
-      console.log('WordPress connection test failed')
-      return false
-    }
+  // Pushes local edits to a post that already exists on WordPress
+  // `postType` is the REST base the post was created under
+  async updatePost(siteId: string, wordpressPostId: number, post: Partial<WordPressPost>, postType?: string): Promise<WordPressResponse> {
+    console.log('Updating WordPress post:', { siteId, wordpressPostId })
+    return this.runPostAction({ action: 'update', siteId, wordpressPostId, post, postType })
+  }
+
+  // Fetches the raw post so it can be compared with the local copy
+  async getPost(siteId: string, wordpressPostId: number, postType?: string): Promise<WordPressPostResponse> {
+    return this.runPostAction<WordPressPostResponse>({ action: 'get', siteId, wordpressPostId, postType })
+  }
+
+  // Moves a post to the WordPress trash, where it can still be restored from wp-admin
+  async trashPost(siteId: string, wordpressPostId: number, postType?: string): Promise<WordPressResponse> {
+    console.log('Trashing WordPress post:', { siteId, wordpressPostId })
+    return this.runPostAction({ action: 'trash', siteId, wordpressPostId, postType })
+  }
+
+  // The site's categories and tags, most used first
+  async getTerms(siteId: string): Promise<WordPressTermsResponse> {
+    return this.runPostAction<WordPressTermsResponse>({ action: 'terms', siteId })
+  }
+
+  // Post types, post formats and authors offered by the site's REST index
+  async getPublishOptions(siteId: string): Promise<PublishOptionsResponse> {
+    return this.runPostAction<PublishOptionsResponse>({ action: 'publish-options', siteId })
   }
 
-  private async uploadFeaturedImage(
-    site: WordPressSite, 
-    image: { url: string; altText: string; attribution: string }, 
-    postTitle: string
-  ): Promise<number> {
+  // Also detects the site's SEO plugin, which decides where SEO fields are written
+  async testConnection(siteId: string): Promise<ConnectionTestResult> {
     try {
-      const auth = btoa(`${site.username}:${site.password}`)
-      const mediaUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/media`
-
-      // Download image from Unsplash
-      const imageResponse = await fetch(image.url)
-      if (!imageResponse.ok) {
-        throw new Error(`Failed to download image: ${imageResponse.status}`)
-      }
-
-      const imageBlob = await imageResponse.blob()
-      const fileName = `featured-image-${Date.now()}.jpg`
-
-      // Create form data for WordPress media upload
-      const formData = new FormData()
-      formData.append('file', imageBlob, fileName)
-      formData.append('title', `Featured image for: ${postTitle}`)
-      formData.append('alt_text', image.altText)
-      formData.append('caption', image.attribution)
-
-      // Upload to WordPress
-      const uploadResponse = await fetch(mediaUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`
-        },
-        body: formData
-      })
-
-      if (!uploadResponse.ok) {
-        const errorData = await uploadResponse.json()
-        throw new Error(errorData.message || `Upload failed: ${uploadResponse.status}`)
-      }
-
-      const mediaData = await uploadResponse.json()
-      return mediaData.id
+      console.log('Testing WordPress connection:', siteId)
+      const result = await invokeFunction<ConnectionTestResult>('wordpress-sites', { action: 'test', siteId })
+      console.log('WordPress connection test result:', result.connected)
+      return result
     } catch (error) {
-      console.error('Error uploading featured image:', error)
-      throw error
+      console.error('WordPress connection test failed:', error)
+      return { connected: false, seo: null }
     }
   }
 
-  private async getOrCreateCategories(site: WordPressSite, categories: string[]): Promise<number[]> {
-    if (!categories.length) return []
-
-    const auth = btoa(`${site.username}:${site.password}`)
-    const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/categories`
-    const categoryIds: number[] = []
-
-    for (const categoryName of categories) {
-      try {
-        // First, try to find existing category
-        const searchResponse = await fetch(`${apiUrl}?search=${encodeURIComponent(categoryName)}`, {
-          headers: { 'Authorization': `Basic ${auth}` }
-        })
-
-        if (searchResponse.ok) {
-          const existingCategories = await searchResponse.json()
-          const existingCategory = existingCategories.find(
-            (cat: any) => cat.name.toLowerCase() === categoryName.toLowerCase()
-          )
-
-          if (existingCategory) {
-            categoryIds.push(existingCategory.id)
-            continue
-          }
-        }
-
-        // Create new category if not found
-        const createResponse = await fetch(apiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Basic ${auth}`
-          },
-          body: JSON.stringify({ name: categoryName })
-        })
-
-        if (createResponse.ok) {
-          const newCategory = await createResponse.json()
-          categoryIds.push(newCategory.id)
-        }
-      } catch (error) {
-        console.warn(`Failed to handle category "${categoryName}":`, error)
-      }
-    }
+  // Saves a new site. The password is stored encrypted and the site is marked connected if WordPress accepts it.
+  async connectSite(credentials: WordPressCredentials): Promise<ConnectionTestResult & { site: WordPressSite }> {
+    return invokeFunction<ConnectionTestResult & { site: WordPressSite }>('wordpress-sites', {
+      action: 'connect',
+      ...credentials
+    })
+  }
 
-    return categoryIds
+  // Replaces a site's credentials. The new ones are tested first and the old ones are kept if WordPress rejects them.
+  async rotateCredentials(siteId: string, password: string, username?: string): Promise<ConnectionTestResult & { rotatedAt: string }> {
+    return invokeFunction<ConnectionTestResult & { rotatedAt: string }>('wordpress-sites', {
+      action: 'rotate',
+      siteId,
+      password,
+      ...(username && { username })
+    })
   }
 
-  private async getOrCreateTags(site: WordPressSite, tags: string[]): Promise<number[]> {
-    if (!tags.length) return []
-
-    const auth = btoa(`${site.username}:${site.password}`)
-    const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/tags`
-    const tagIds: number[] = []
-
-    for (const tagName of tags) {
-      try {
-        // First, try to find existing tag
-        const searchResponse = await fetch(`${apiUrl}?search=${encodeURIComponent(tagName)}`, {
-          headers: { 'Authorization': `Basic ${auth}` }
-        })
-
-        if (searchResponse.ok) {
-          const existingTags = await searchResponse.json()
-          const existingTag = existingTags.find(
-            (tag: any) => tag.name.toLowerCase() === tagName.toLowerCase()
-          )
-
-          if (existingTag) {
-            tagIds.push(existingTag.id)
-            continue
-          }
-        }
-
-        // Create new tag if not found
-        const createResponse = await fetch(apiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Basic ${auth}`
-          },
-          body: JSON.stringify({ name: tagName })
-        })
-
-        if (createResponse.ok) {
-          const newTag = await createResponse.json()
-          tagIds.push(newTag.id)
-        }
-      } catch (error) {
-        console.warn(`Failed to handle tag "${tagName}":`, error)
-      }
+  private async runPostAction<T extends WordPressResponse = WordPressResponse>(body: object): Promise<T> {
+    try {
+      return await invokeFunction<T>('wordpress-sites', body)
+    } catch (error) {
+      // No answer came back, WordPress may still have created the post. Retries of posts sent with
+      // createdAfter look for it before creating another one.
+      console.error('WordPress request error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        retryable: true
+      } as T
     }
-
-    return tagIds
   }
 }
 
 export const wordPressService = new WordPressService()
-export type { WordPressSite, WordPressPost, WordPressResponse }
\ No newline at end of file
+export type {
+  SeoPlugin,
+  TagPolicy,
+  WordPressTerm,
+  WordPressTermsResponse,
+  PublishSettings,
+  WordPressPostType,
+  WordPressAuthor,
+  PublishOptionsResponse,
+  SeoPluginDetection,
+  DiagnosticCheck,
+  DiagnosticResult,
+  WordPressDiagnostics,
+  ConnectionTestResult,
+  WordPressSite,
+  WordPressCredentials,
+  WordPressPost,
+  WordPressResponse,
+  PublishResponse,
+  WordPressRemotePost,
+  WordPressPostResponse
+}
@@ -0,0 +1,35 @@
+// Caller authentication for edge functions the app invokes with the user's session
+
+import { createClient, type User } from 'npm:@supabase/supabase-js@2'
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+// Client acting as the caller, so row level security applies to everything it reads
+export function createUserClient(req: Request) {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  )
+}
+
+// Resolves the signed-in user from the Authorization header. The anon key is a valid JWT too,
+// so relying on the gateway's JWT check alone would let any visitor spend our API quota.
+export async function getAuthenticatedUser(req: Request): Promise<User | null> {
+  if (!req.headers.get('Authorization')) {
+    return null
+  }
+
+  const { data: { user } } = await createUserClient(req).auth.getUser()
+  return user
+}
@@ -0,0 +1,641 @@
+// Server-side blog generation shared by edge functions
+// Used by generate-post for the app and by the scheduled post worker, so every post is written the same way
+
+import { createLLMProvider, LLMProvider, ChatMessage } from './llm-provider.ts'
+import {
+  POST_JSON_SCHEMA,
+  POST_SCHEMA_NAME,
+  OUTLINE_JSON_SCHEMA,
+  OUTLINE_SCHEMA_NAME,
+  SECTION_JSON_SCHEMA,
+  SECTION_SCHEMA_NAME,
+  TOPICS_JSON_SCHEMA,
+  TOPICS_SCHEMA_NAME,
+  parseModelJson,
+  validateGeneratedPost,
+  validateOutline,
+  validateSection,
+  repairGeneratedPost,
+  repairSection,
+  validateTopicSuggestions,
+  repairTopicSuggestions,
+  renderPostContent,
+  countWords,
+  formatFieldErrors,
+  type FieldError,
+  type GeneratedFaq,
+  type GeneratedOutline,
+  type GeneratedPost,
+  type GeneratedSection,
+  type GenerationValidation
+} from './post-schema.ts'
+import { buildVoiceGuide, type BrandVoice } from './brand-voice.ts'
+import { buildHistoryGuide, checkAgainstHistory, type RecentTopic } from './topic-history.ts'
+
+export interface BlogGenerationRequest {
+  type: 'topic' | 'category' | 'keyword'
+  content: string
+  description?: string
+  wordCount: number
+  model?: string // Per-schedule model, the provider default is used when empty
+  voice?: BrandVoice | null // Brand voice the post is written in, the built-in style is used when empty
+  history?: RecentTopic[] // Earlier posts of the schedule, the new post must not repeat them
+}
+
+export interface BlogGenerationResponse {
+  title: string
+  content: string
+  excerpt: string
+  tags: string[]
+  metaDescription: string
+  seoKeywords: string[]
+  faq: GeneratedFaq[]
+  validation: GenerationValidation
+}
+
+export interface TopicSuggestionRequest extends Pick<BlogGenerationRequest, 'type' | 'content' | 'description' | 'model' | 'voice' | 'history'> {
+  count: number
+  queued: string[] // Topics already waiting in the schedule's queue
+}
+
+// Reported after each step of a long-form generation
+export interface GenerationProgress {
+  stage: 'outline' | 'sections' | 'word_count'
+  completedSteps: number
+  totalSteps: number
+  message: string
+}
+
+export type ProgressCallback = (progress: GenerationProgress) => void | Promise<void>
+
+// Thrown when the model still returns an invalid post after the repair and the re-ask
+export class GenerationValidationError extends Error {
+  constructor(readonly providerName: string, readonly errors: FieldError[]) {
+    super(`${providerName} returned an invalid post: ${formatFieldErrors(errors)}`)
+    this.name = 'GenerationValidationError'
+  }
+}
+
+// One completion tops out well below these lengths, so longer posts are written section by section
+const LONG_FORM_MIN_WORDS = 1500
+// Sections shorter than this share of their planned length are expanded once
+const SECTION_SHORTFALL = 0.8
+// Posts within this share of the requested length pass the word count check
+const WORD_COUNT_TOLERANCE = 0.9
+
+const SYSTEM_PROMPT = `You are Alex, a seasoned web developer and digital marketing expert with 10+ years of real-world experience. You write blog posts that sound completely human, personal, and authentic. Your writing style is conversational, opinionated, and filled with real experiences. You NEVER sound like AI or use corporate language. CRITICAL: You MUST write exactly the requested word count - this is non-negotiable.`
+
+export async function generateBlogPost(
+  request: BlogGenerationRequest,
+  provider: LLMProvider = createLLMProvider(),
+  onProgress?: ProgressCallback
+): Promise<BlogGenerationResponse> {
+  if (request.wordCount >= LONG_FORM_MIN_WORDS) {
+    return generateLongFormPost(request, provider, onProgress)
+  }
+
+  const { value: post, outcome } = await completeValidJson<GeneratedPost>(provider, {
+    model: request.model,
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildPrompt(request) }
+    ],
+    maxTokens: calculateMaxTokens(request.wordCount),
+    schemaName: POST_SCHEMA_NAME,
+    schema: POST_JSON_SCHEMA,
+    validate: (value) => withHistoryCheck(validateGeneratedPost(value), request, () => {
+      const post = value as GeneratedPost
+      return { title: post.title, content: post.sections.map(section => section.html).join('\n') }
+    }),
+    repair: repairGeneratedPost
+  })
+
+  return toResponse(post, { ...outcome, mode: 'single' }, request.wordCount)
+}
+
+// Plans the post as an outline, writes each section with the outline as shared context,
+// then tops up sections that came back short before the post is saved
+async function generateLongFormPost(
+  request: BlogGenerationRequest,
+  provider: LLMProvider,
+  onProgress?: ProgressCallback
+): Promise<BlogGenerationResponse> {
+  await onProgress?.({ stage: 'outline', completedSteps: 0, totalSteps: 1, message: 'Planning the outline' })
+
+  const outlineResult = await completeValidJson<GeneratedOutline>(provider, {
+    model: request.model,
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildOutlinePrompt(request) }
+    ],
+    maxTokens: 1500,
+    schemaName: OUTLINE_SCHEMA_NAME,
+    schema: OUTLINE_JSON_SCHEMA,
+    validate: (value) => withHistoryCheck(validateOutline(value), request, () => ({ title: (value as GeneratedOutline).title })),
+    repair: repairGeneratedPost
+  })
+  const outline = scaleOutline(outlineResult.value, request.wordCount)
+  const outcomes: GenerationValidation[] = [outlineResult.outcome]
+
+  // Outline, one step per section and the word count check
+  const totalSteps = outline.sections.length + 2
+  const sections: GeneratedSection[] = []
+
+  for (const [index, section] of outline.sections.entries()) {
+    await onProgress?.({
+      stage: 'sections',
+      completedSteps: index + 1,
+      totalSteps,
+      message: `Writing section ${index + 1} of ${outline.sections.length}${section.heading ? `: ${section.heading}` : ''}`
+    })
+
+    const { value, outcome } = await completeSection(provider, request, outline, index, sections)
+    sections.push({ heading: section.heading, html: value })
+    outcomes.push(prefixOutcome(outcome, `sections[${index}]`))
+  }
+
+  await onProgress?.({
+    stage: 'word_count',
+    completedSteps: totalSteps - 1,
+    totalSteps,
+    message: 'Checking the word count'
+  })
+
+  if (sections.reduce((total, section) => total + countWords(section.html), 0) < request.wordCount * WORD_COUNT_TOLERANCE) {
+    for (const [index, section] of sections.entries()) {
+      const target = outline.sections[index].targetWords
+      if (countWords(section.html) >= target * SECTION_SHORTFALL) continue
+
+      console.log(`Section ${index} is short of its ${target} words, expanding it`)
+      const { value, outcome } = await completeSection(provider, request, outline, index, sections.slice(0, index), section.html)
+      section.html = value
+      outcomes.push(prefixOutcome(outcome, `sections[${index}]`))
+    }
+  }
+
+  // The outline's title was already checked; sections are too expensive to rewrite, so a repeat is rejected
+  const repeated = withHistoryCheck([], request, () => ({
+    title: outline.title,
+    content: sections.map(section => section.html).join('\n')
+  })).filter(error => error.field === 'content')
+  if (repeated.length) {
+    throw new GenerationValidationError(provider.name, repeated)
+  }
+
+  const post: GeneratedPost = { ...outline, sections }
+  return toResponse(post, { ...mergeOutcomes(outcomes), mode: 'outline' }, request.wordCount)
+}
+
+// Writes one section, or rewrites it longer when `draft` is given
+async function completeSection(
+  provider: LLMProvider,
+  request: BlogGenerationRequest,
+  outline: GeneratedOutline,
+  index: number,
+  written: GeneratedSection[],
+  draft?: string
+): Promise<{ value: string; outcome: GenerationValidation }> {
+  const section = outline.sections[index]
+  const { value, outcome } = await completeValidJson<{ html: string }>(provider, {
+    model: request.model,
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildSectionPrompt(request, outline, index, written, draft) }
+    ],
+    maxTokens: calculateMaxTokens(section.targetWords),
+    schemaName: SECTION_SCHEMA_NAME,
+    schema: SECTION_JSON_SCHEMA,
+    validate: validateSection,
+    repair: repairSection
+  })
+
+  return { value: value.html, outcome }
+}
+
+// Suggests topics for a schedule's queue. Suggestions close to an earlier post or a queued topic are dropped.
+export async function suggestTopics(
+  request: TopicSuggestionRequest,
+  provider: LLMProvider = createLLMProvider()
+): Promise<string[]> {
+  const { value } = await completeValidJson<{ topics: string[] }>(provider, {
+    model: request.model,
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildTopicPrompt(request) }
+    ],
+    maxTokens: 800,
+    schemaName: TOPICS_SCHEMA_NAME,
+    schema: TOPICS_JSON_SCHEMA,
+    validate: validateTopicSuggestions,
+    repair: repairTopicSuggestions
+  })
+
+  const taken: RecentTopic[] = [
+    ...(request.history ?? []),
+    ...request.queued.map(topic => ({ id: '', title: topic, seo_keywords: null, content: null }))
+  ]
+  return value.topics
+    .filter(topic => !checkAgainstHistory({ title: topic }, taken).length)
+    .slice(0, request.count)
+}
+
+// Adds duplicate-topic errors once a response is otherwise valid
+function withHistoryCheck(
+  errors: FieldError[],
+  request: BlogGenerationRequest,
+  candidate: () => { title: string; content?: string }
+): FieldError[] {
+  if (errors.length || !request.history?.length) {
+    return errors
+  }
+  return checkAgainstHistory(candidate(), request.history)
+}
+
+interface JsonCompletion {
+  model?: string
+  messages: ChatMessage[]
+  maxTokens: number
+  schemaName: string
+  schema: Record<string, unknown>
+  validate: (value: unknown) => FieldError[]
+  repair: (value: unknown) => { value: unknown; repairs: string[] }
+}
+
+// Requests JSON matching a schema. Invalid responses are repaired locally when possible,
+// otherwise the model is asked once more with the field errors.
+async function completeValidJson<T>(
+  provider: LLMProvider,
+  completion: JsonCompletion
+): Promise<{ value: T; outcome: GenerationValidation }> {
+  const complete = (messages: ChatMessage[]) => provider.complete({
+    model: completion.model,
+    messages,
+    maxTokens: completion.maxTokens,
+    temperature: 0.8,
+    jsonSchema: { name: completion.schemaName, schema: completion.schema }
+  })
+
+  const firstMessage = await complete(completion.messages)
+  const first = checkResponse(firstMessage, completion)
+  if (first.value) {
+    return {
+      value: first.value as T,
+      outcome: { status: first.repairs.length ? 'repaired' : 'valid', attempts: 1, errors: first.errors, repairs: first.repairs }
+    }
+  }
+
+  // Re-ask once, telling the model exactly which fields were wrong
+  console.warn(`${provider.name} returned invalid ${completion.schemaName} JSON, asking again:`, formatFieldErrors(first.errors))
+  const retryMessage = await complete([
+    ...completion.messages,
+    { role: 'assistant', content: firstMessage },
+    {
+      role: 'user',
+      content: `Your response did not match the required JSON schema:\n${first.errors.map(error => `- ${error.field} ${error.message}`).join('\n')}\n\nReturn the complete corrected JSON object only.`
+    }
+  ])
+  const retry = checkResponse(retryMessage, completion)
+  if (retry.value) {
+    return {
+      value: retry.value as T,
+      outcome: { status: 'retried', attempts: 2, errors: first.errors, repairs: retry.repairs }
+    }
+  }
+
+  throw new GenerationValidationError(provider.name, retry.errors)
+}
+
+// Validates a response, repairing it locally when that is enough.
+// `errors` are the problems in the response as sent; `value` is set when it is usable.
+function checkResponse(
+  message: string,
+  { validate, repair }: Pick<JsonCompletion, 'validate' | 'repair'>
+): { value?: unknown; errors: FieldError[]; repairs: string[] } {
+  let parsed: unknown
+  try {
+    parsed = parseModelJson(message)
+  } catch {
+    return { errors: [{ field: '$', message: 'is not valid JSON' }], repairs: [] }
+  }
+
+  const errors = validate(parsed)
+  if (!errors.length) {
+    return { value: parsed, errors, repairs: [] }
+  }
+
+  const repaired = repair(parsed)
+  const remaining = validate(repaired.value)
+  if (!remaining.length) {
+    return { value: repaired.value, errors, repairs: repaired.repairs }
+  }
+
+  return { errors: remaining, repairs: repaired.repairs }
+}
+
+// Spreads the requested length over the planned sections, whatever totals the model planned
+function scaleOutline(outline: GeneratedOutline, wordCount: number): GeneratedOutline {
+  const planned = outline.sections.reduce((total, section) => total + section.targetWords, 0)
+  return {
+    ...outline,
+    sections: outline.sections.map(section => ({
+      ...section,
+      targetWords: Math.max(100, Math.round(section.targetWords / planned * wordCount))
+    }))
+  }
+}
+
+function prefixOutcome(outcome: GenerationValidation, field: string): GenerationValidation {
+  const prefix = (text: string) => text === '$' ? field : `${field}.${text}`
+  return {
+    ...outcome,
+    errors: outcome.errors.map(error => ({ ...error, field: prefix(error.field) })),
+    repairs: outcome.repairs.map(repair => `${field}.${repair}`)
+  }
+}
+
+// The post's status is the worst step: any re-ask makes it 'retried', otherwise any repair makes it 'repaired'
+function mergeOutcomes(outcomes: GenerationValidation[]): GenerationValidation {
+  const status = outcomes.some(outcome => outcome.status === 'retried')
+    ? 'retried'
+    : outcomes.some(outcome => outcome.status === 'repaired') ? 'repaired' : 'valid'
+
+  return {
+    status,
+    attempts: outcomes.reduce((total, outcome) => total + outcome.attempts, 0),
+    errors: outcomes.flatMap(outcome => outcome.errors),
+    repairs: outcomes.flatMap(outcome => outcome.repairs)
+  }
+}
+
+function toResponse(post: GeneratedPost, validation: GenerationValidation, targetWords: number): BlogGenerationResponse {
+  const content = renderPostContent(post)
+  const actualWords = countWords(content)
+  if (actualWords < targetWords * WORD_COUNT_TOLERANCE) {
+    console.warn(`Generated post has ${actualWords} words, ${targetWords} were requested`)
+  }
+
+  return {
+    title: post.title,
+    content,
+    excerpt: post.excerpt,
+    tags: post.tags,
+    metaDescription: post.metaDescription,
+    seoKeywords: post.seoKeywords,
+    faq: post.faq,
+    validation: { ...validation, wordCount: { target: targetWords, actual: actualWords } }
+  }
+}
+
+function calculateMaxTokens(wordCount: number): number {
+  const baseTokens = Math.ceil(wordCount * 1.8) + 800
+  return Math.min(baseTokens, 4000)
+}
+
+function buildPrompt(request: BlogGenerationRequest): string {
+  return `You are Alex, a seasoned web developer and digital marketing expert with 10+ years of experience. Write a blog post that sounds completely human and authentic. 
+
+**CRITICAL MISSION: Make this content pass as 100% human-written, not AI-generated.**
+
+**Content Specifications:**
+- **Topic Type**: ${request.type}
+- **Focus**: ${request.content}
+- **CRITICAL WORD COUNT REQUIREMENT**: Write EXACTLY ${request.wordCount} words. This is mandatory - do not write less!
+- **Word Count Verification**: Count your words carefully and ensure you hit the target of ${request.wordCount} words
+- **Tone**: Conversational, personal, and authentic
+${request.description ? `**Additional Context**: ${request.description}` : ''}
+${voiceSection(request)}${historySection(request)}
+**ADVANCED HUMANIZATION TECHNIQUES:**
+
+**1. NATURAL LANGUAGE PATTERNS:**
+- Use imperfect grammar occasionally (like real humans do)
+- Include filler words: "I mean", "you know", "basically", "actually"
+- Use contractions everywhere: "I'm", "you're", "don't", "can't", "won't"
+- Start sentences with "And", "But", "So", "Plus", "Also"
+- Use incomplete sentences for emphasis. Like this.
+
+**2. PERSONAL VOICE & AUTHENTICITY:**
+- Write in first person with personal experiences
+- Include specific, realistic examples from your work
+- Share opinions and take sides (don't be neutral)
+- Use casual expressions: "pretty cool", "super helpful", "totally worth it"
+- Add personal reactions: "This blew my mind", "I was shocked"
+
+**3. CONVERSATIONAL FLOW:**
+- Ask direct questions to readers
+- Use "you" and "your" extensively  
+- Include rhetorical questions: "But here's the thing..."
+- Add conversational transitions: "Anyway", "So here's what happened"
+- Use parenthetical thoughts (because we all have them)
+
+**4. SENTENCE STRUCTURE VARIETY:**
+- Mix very short sentences with longer ones
+- Use lists and bullet points naturally
+- Include em dashes for natural pauses — like this
+- Add ellipses for trailing thoughts...
+- Vary paragraph lengths (some 1 line, others 4-5 lines)
+
+**5. WORD CHOICE & EXPRESSIONS:**
+- Replace formal words with casual ones:
+  - "utilize" → "use"
+  - "implement" → "try out" or "do"
+  - "furthermore" → "plus" or "also"
+  - "in order to" → "to"
+- Use colloquialisms: "game-changer", "no-brainer", "piece of cake"
+- Include mild exaggerations: "absolutely love", "totally changed"
+- Use power words naturally: "discover", "effortless", "proven"
+
+**6. AUTHENTIC IMPERFECTIONS:**
+- Occasionally repeat words for emphasis: "really, really important"
+- Use redundant phrases sometimes: "free gift", "past history"
+- Include self-corrections: "Well, actually..." or "I mean..."
+- Add hesitation markers: "Um, so..." or "Let me think..."
+
+**7. ENGAGEMENT TECHNIQUES:**
+- Start with a relatable hook or story
+- Include calls-to-action throughout (not just at end)
+- Reference current events or trends casually
+- Ask for reader experiences: "Have you tried this?"
+- Use inclusive language: "we", "us", "our community"
+
+**8. CONTENT STRUCTURE:**
+- Use subheadings as questions or statements
+- Break up text with natural transitions
+- Include numbered tips or steps
+- Add emphasis with formatting cues
+- End sections with cliffhangers
+
+**CONTENT EXPANSION STRATEGIES FOR LONGER POSTS:**
+
+**For 1000+ word posts, include these sections:**
+1. **Personal Introduction** (100-150 words): Share your background and why this topic matters
+2. **Problem/Challenge Overview** (150-200 words): What issues does this address?
+3. **Main Content Sections** (600-800 words): Break into 3-4 detailed sections with:
+   - Real examples from your experience
+   - Step-by-step processes
+   - Common mistakes and solutions
+   - Tools and resources
+4. **Actionable Tips** (100-150 words): Specific things readers can do today
+5. **Conclusion & CTA** (50-100 words): Wrap up and engage readers
+
+**For 1500+ word posts, also add:**
+- Case studies or client stories
+- Industry trends and predictions
+- Comparison of different approaches
+- Advanced tips for experienced readers
+- Resource lists and tool recommendations
+
+**Word Count Padding Techniques (use naturally):**
+- Expand on examples with specific details
+- Add personal anecdotes and stories
+- Include step-by-step breakdowns
+- Provide context and background information
+- Add transitional paragraphs between sections
+- Include relevant statistics or data points
+- Explain the "why" behind each recommendation
+
+**FORBIDDEN AI PHRASES (NEVER USE):**
+- "It's important to note"
+- "In today's digital landscape"
+- "Furthermore" or "Moreover"
+- "Additionally" (use "Plus" or "Also")
+- "In conclusion" (use "Bottom line" or "Here's the deal")
+- "Utilize" (use "use")
+- "Implement" (use "try" or "do")
+
+**WRITING STYLE EXAMPLES:**
+❌ AI: "It is essential to understand that social media marketing requires strategic planning."
+✅ Human: "Look, social media marketing isn't just posting random stuff and hoping for the best."
+
+❌ AI: "This methodology will enhance your productivity significantly."
+✅ Human: "I've been using this trick for months, and honestly? It's a total game-changer."
+
+❌ AI: "Furthermore, it is advisable to consider the following factors."
+✅ Human: "Plus, here are a few things you definitely want to keep in mind."
+
+**FINAL INSTRUCTIONS:**
+- **WORD COUNT IS CRITICAL**: You MUST write exactly ${request.wordCount} words. If you write less, you have failed the task.
+- **Content Length Strategy**: For longer word counts (1000+ words), include:
+  - Detailed examples and case studies
+  - Step-by-step processes
+  - Multiple subheadings and sections
+  - Personal stories and anecdotes
+  - Actionable tips and strategies
+  - Common mistakes and how to avoid them
+  - Tools and resources recommendations
+- Write like you're explaining to a friend over coffee
+- Be opinionated and take strong positions
+- Include personal anecdotes and real examples
+- Use natural speech patterns and casual language
+- Make it sound like YOU wrote it, not an AI
+
+Return only a JSON object with this structure:
+{
+  "title": "Conversational, human-like title (under 60 characters)",
+  "sections": [
+    { "heading": "", "html": "<p>Introduction that hooks the reader...</p>" },
+    { "heading": "Subheading as a question or statement", "html": "<p>Section body as HTML paragraphs and lists, without the heading</p>" }
+  ],
+  "excerpt": "Brief, engaging summary (150-160 characters)",
+  "tags": ["tag1", "tag2", "tag3", "tag4", "tag5"],
+  "metaDescription": "SEO meta description (150-160 characters)",
+  "seoKeywords": ["keyword1", "keyword2", "keyword3", "keyword4", "keyword5"],
+  "faq": [
+    { "question": "A question readers are likely to ask", "answer": "A short, plain text answer" }
+  ]
+}
+
+The sections together make up the whole post and must hit the word count. Close every HTML tag you open.
+
+**REMEMBER: This must sound like a real human expert wrote it, not AI. Be authentic, personal, and conversational!**`
+}
+
+function voiceSection(request: Pick<BlogGenerationRequest, 'voice'>): string {
+  return request.voice ? `\n${buildVoiceGuide(request.voice)}\n` : ''
+}
+
+function historySection(request: Pick<BlogGenerationRequest, 'history'>): string {
+  return request.history?.length ? `\n${buildHistoryGuide(request.history)}\n` : ''
+}
+
+function buildOutlinePrompt(request: BlogGenerationRequest): string {
+  return `Plan a ${request.wordCount}-word blog post before it is written. Each section will be written separately from this outline, so the key points must say exactly what each section covers.
+
+**Content Specifications:**
+- **Topic Type**: ${request.type}
+- **Focus**: ${request.content}
+- **Total Length**: ${request.wordCount} words across all sections
+- **Tone**: Conversational, personal, and authentic
+${request.description ? `**Additional Context**: ${request.description}` : ''}
+${voiceSection(request)}${historySection(request)}
+**Structure:**
+- Start with an introduction section with an empty heading: a relatable hook or personal story
+- Follow with 4 to 8 sections whose headings are questions or statements, as a human blogger would write them
+- Finish with a "Bottom line" style wrap-up with a call to action
+- Give every section 2 to 5 key points and a targetWords share so the targets add up to ${request.wordCount}
+- Do not repeat a point in two sections
+
+Return only a JSON object with this structure:
+{
+  "title": "Conversational, human-like title (under 60 characters)",
+  "sections": [
+    { "heading": "", "keyPoints": ["Hook", "Why this matters to me"], "targetWords": 150 },
+    { "heading": "Subheading as a question or statement", "keyPoints": ["Point one", "Point two"], "targetWords": 350 }
+  ],
+  "excerpt": "Brief, engaging summary (150-160 characters)",
+  "tags": ["tag1", "tag2", "tag3", "tag4", "tag5"],
+  "metaDescription": "SEO meta description (150-160 characters)",
+  "seoKeywords": ["keyword1", "keyword2", "keyword3", "keyword4", "keyword5"],
+  "faq": [
+    { "question": "A question readers are likely to ask", "answer": "A short, plain text answer" }
+  ]
+}`
+}
+
+function buildTopicPrompt(request: TopicSuggestionRequest): string {
+  const queued = request.queued.length
+    ? `\n**ALREADY QUEUED - DO NOT SUGGEST AGAIN:**\n${request.queued.map(topic => `- "${topic}"`).join('\n')}\n`
+    : ''
+
+  // Ask for a few extra, some may be dropped as too close to earlier posts
+  return `Suggest ${request.count + 3} blog post topics for a schedule that publishes regularly on this ${request.type}: ${request.content}
+${request.description ? `\n**Additional Context**: ${request.description}\n` : ''}${voiceSection(request)}${historySection(request)}${queued}
+Each topic is one specific post: a working title or a precise angle a reader would search for, not a broad category.
+Cover different questions, problems and audiences so the posts do not overlap each other.
+
+Return only a JSON object with this structure:
+{
+  "topics": ["First topic", "Second topic"]
+}`
+}
+
+function buildSectionPrompt(
+  request: BlogGenerationRequest,
+  outline: GeneratedOutline,
+  index: number,
+  written: GeneratedSection[],
+  draft?: string
+): string {
+  const section = outline.sections[index]
+  const plan = outline.sections
+    .map((item, position) => `${position + 1}. ${item.heading || 'Introduction'}${position === index ? ' (this section)' : ''}: ${item.keyPoints.join('; ')}`)
+    .join('\n')
+  // The end of the previous section keeps the voice and transitions continuous
+  const previous = written.length ? written[written.length - 1].html.slice(-1200) : ''
+
+  return `You are writing one section of the blog post "${outline.title}" (${request.type}: ${request.content}).
+${request.description ? `\n**Additional Context**: ${request.description}\n` : ''}${voiceSection(request)}
+**Full outline:**
+${plan}
+
+**This section:** ${section.heading || 'Introduction (no heading)'}
+**Cover:** ${section.keyPoints.join('; ')}
+**Length:** about ${section.targetWords} words. This is mandatory - do not write less!
+${previous ? `\n**End of the previous section, continue naturally from it:**\n${previous}\n` : ''}${draft ? `\n**Your previous draft of this section was too short. Expand it to about ${section.targetWords} words with more detail, examples and personal experience:**\n${draft}\n` : ''}
+Write in first person as Alex: conversational, opinionated, with contractions, short and long sentences mixed, real examples and direct questions to the reader. Never use "It's important to note", "In today's digital landscape", "Furthermore", "Moreover", "Additionally" or "In conclusion".
+Only cover this section's points, the other sections are written separately. Do not repeat the heading, use <h3> for any sub-points, and close every HTML tag you open.
+
+Return only a JSON object with this structure:
+{
+  "html": "<p>Section body as HTML paragraphs and lists</p>"
+}`
+}
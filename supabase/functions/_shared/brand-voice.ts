@@ -0,0 +1,94 @@
+// Brand voice profiles for edge functions
+// Resolves the voice a post is written in and turns it into prompt instructions
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export interface BrandVoice {
+  id: string
+  name: string
+  tone: string
+  audience: string
+  reading_level: 'easy' | 'standard' | 'advanced' | 'expert'
+  banned_words: string[]
+  preferred_phrases: string[]
+  sample_paragraphs: string[]
+}
+
+const READING_LEVELS: Record<BrandVoice['reading_level'], string> = {
+  easy: 'Easy reading (around US grade 6-8): short sentences, everyday words, explain any jargon',
+  standard: 'Standard reading (around US grade 9-10): plain language with the occasional technical term',
+  advanced: 'Advanced reading (college level): assume background knowledge and go into depth',
+  expert: 'Expert reading: write for practitioners, use precise terminology without explaining basics'
+}
+
+// Samples are trimmed so a long example cannot crowd out the rest of the prompt
+const MAX_SAMPLE_LENGTH = 1200
+
+// The schedule's own voice wins, otherwise the site's default voice is used. Returns null for the built-in style.
+// Service role callers pass userId so a schedule can only use its owner's voices.
+export async function resolveBrandVoice(
+  supabaseClient: SupabaseClient,
+  options: { brandVoiceId?: string | null; wordpressSiteId?: string | null; userId?: string }
+): Promise<BrandVoice | null> {
+  const columns = 'id, name, tone, audience, reading_level, banned_words, preferred_phrases, sample_paragraphs'
+  const ownVoices = () => {
+    const query = supabaseClient.from('brand_voices').select(columns)
+    return options.userId ? query.eq('user_id', options.userId) : query
+  }
+
+  if (options.brandVoiceId) {
+    const { data, error } = await ownVoices()
+      .eq('id', options.brandVoiceId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load brand voice: ${error.message}`)
+    }
+    if (data) {
+      return data as BrandVoice
+    }
+  }
+
+  if (options.wordpressSiteId) {
+    const { data, error } = await ownVoices()
+      .eq('wordpress_site_id', options.wordpressSiteId)
+      .eq('is_site_default', true)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load brand voice: ${error.message}`)
+    }
+    return (data as BrandVoice) ?? null
+  }
+
+  return null
+}
+
+// Prompt section describing the voice. Empty fields are left out rather than sent as blanks.
+export function buildVoiceGuide(voice: BrandVoice): string {
+  const lines = [`**BRAND VOICE: ${voice.name}** - This voice takes precedence over the general style guidance wherever they conflict.`]
+
+  if (voice.tone.trim()) {
+    lines.push(`- **Tone**: ${voice.tone.trim()}`)
+  }
+  if (voice.audience.trim()) {
+    lines.push(`- **Audience**: ${voice.audience.trim()}`)
+  }
+  lines.push(`- **Reading Level**: ${READING_LEVELS[voice.reading_level] ?? READING_LEVELS.standard}`)
+  if (voice.preferred_phrases.length) {
+    lines.push(`- **Preferred Phrasing** (use where it fits naturally): ${voice.preferred_phrases.map(phrase => `"${phrase}"`).join(', ')}`)
+  }
+  if (voice.banned_words.length) {
+    lines.push(`- **NEVER USE these words or phrases**: ${voice.banned_words.map(word => `"${word}"`).join(', ')}`)
+  }
+  if (voice.sample_paragraphs.length) {
+    lines.push('- **Write like these samples** (match their rhythm and word choice, do not copy them):')
+    voice.sample_paragraphs.forEach((sample, index) => {
+      lines.push(`  Sample ${index + 1}: """${sample.trim().slice(0, MAX_SAMPLE_LENGTH)}"""`)
+    })
+  }
+
+  return lines.join('\n')
+}
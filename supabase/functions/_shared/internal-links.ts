@@ -0,0 +1,266 @@
+// Internal linking to a site's existing posts
+// Published posts are cached per site, and the most relevant ones are linked from the generated body
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { wordPressService, loadWordPressSite, type WordPressSite } from './wordpress.ts'
+import { SIMILARITY_THRESHOLD, jaccard, stripHtml, wordSet } from './topic-history.ts'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export interface SitePost {
+  wordpress_post_id: number
+  title: string
+  url: string
+  slug: string
+}
+
+// Recorded on the post so the inserted links can be audited
+export interface InternalLink {
+  wordpressPostId: number
+  title: string
+  url: string
+  anchor: string
+  placement: 'inline' | 'related' // Linked from a phrase in the text, or listed under "Related reading"
+}
+
+// The cached post list is refreshed from WordPress once it is older than this
+const CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000
+const MAX_CACHED_POSTS = 500
+// Longest run of title words tried as link text
+const MAX_ANCHOR_WORDS = 5
+
+// Links are never added inside these elements
+const BLOCKED_TAGS = new Set(['a', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'code', 'pre', 'figure', 'blockquote'])
+// Only body text is linked
+const TEXT_TAGS = new Set(['p', 'li'])
+
+// Links up to `count` relevant existing posts of the owner's site from the content. Linking is best effort and
+// never fails a post: on any error the content is returned unchanged with no links.
+// Requires a service role client, which reads the site credentials and writes the post cache.
+export async function addInternalLinks(
+  supabaseClient: SupabaseClient,
+  options: { siteId: string; userId: string; count: number; excludeWordPressPostId?: number | null },
+  post: { title: string; content: string }
+): Promise<{ content: string; links: InternalLink[] }> {
+  if (options.count <= 0) {
+    return { content: post.content, links: [] }
+  }
+
+  try {
+    const site = await loadWordPressSite(supabaseClient, options.siteId)
+    if (site.user_id !== options.userId) {
+      throw new Error('WordPress site belongs to another user')
+    }
+
+    const sitePosts = await loadSitePosts(supabaseClient, site)
+    const targets = pickTargets(
+      sitePosts.filter(sitePost => sitePost.wordpress_post_id !== options.excludeWordPressPostId),
+      post,
+      options.count
+    )
+    return insertLinks(post.content, targets)
+  } catch (error) {
+    console.warn(`Skipping internal links for site ${options.siteId}:`, error)
+    return { content: post.content, links: [] }
+  }
+}
+
+// Cached published posts of a site, refreshed when stale. A failed refresh falls back to the stale cache.
+export async function loadSitePosts(
+  supabaseClient: SupabaseClient,
+  site: WordPressSite & { user_id: string }
+): Promise<SitePost[]> {
+  const { data: siteRow } = await supabaseClient
+    .from('wordpress_sites')
+    .select('posts_synced_at')
+    .eq('id', site.id)
+    .maybeSingle()
+
+  const syncedAt = (siteRow as { posts_synced_at: string | null } | null)?.posts_synced_at
+  if (!syncedAt || Date.now() - new Date(syncedAt).getTime() > CACHE_MAX_AGE_MS) {
+    await refreshSitePosts(supabaseClient, site)
+  }
+
+  const { data, error } = await supabaseClient
+    .from('wordpress_site_posts')
+    .select('wordpress_post_id, title, url, slug')
+    .eq('wordpress_site_id', site.id)
+
+  if (error) {
+    throw new Error(`Failed to load site posts: ${error.message}`)
+  }
+
+  return (data as SitePost[]) ?? []
+}
+
+async function refreshSitePosts(supabaseClient: SupabaseClient, site: WordPressSite & { user_id: string }) {
+  const result = await wordPressService.listPublishedPosts(site, MAX_CACHED_POSTS)
+  if (!result.success || !result.posts) {
+    console.warn(`Failed to refresh posts of site ${site.id}:`, result.error)
+    return
+  }
+
+  const syncedAt = new Date().toISOString()
+  if (result.posts.length) {
+    const { error } = await supabaseClient
+      .from('wordpress_site_posts')
+      .upsert(result.posts.map(post => ({
+        wordpress_site_id: site.id,
+        user_id: site.user_id,
+        wordpress_post_id: post.id,
+        title: post.title,
+        url: post.link,
+        slug: post.slug,
+        synced_at: syncedAt
+      })), { onConflict: 'wordpress_site_id,wordpress_post_id' })
+
+    if (error) {
+      console.warn(`Failed to cache posts of site ${site.id}:`, error.message)
+      return
+    }
+  }
+
+  // Posts that were not seen in this sync have been deleted or unpublished
+  await supabaseClient
+    .from('wordpress_site_posts')
+    .delete()
+    .eq('wordpress_site_id', site.id)
+    .lt('synced_at', syncedAt)
+
+  await supabaseClient
+    .from('wordpress_sites')
+    .update({ posts_synced_at: syncedAt })
+    .eq('id', site.id)
+}
+
+// Ranks existing posts by how many of their title words the new post uses.
+// Posts on the same topic as the new one are skipped, a link to them would compete with it.
+function pickTargets(sitePosts: SitePost[], post: { title: string; content: string }, count: number): SitePost[] {
+  const titleWords = wordSet(post.title)
+  const contentWords = wordSet(stripHtml(post.content))
+
+  return sitePosts
+    .map(sitePost => {
+      const words = wordSet(sitePost.title)
+      if (!words.size || jaccard(words, titleWords) > SIMILARITY_THRESHOLD) {
+        return null
+      }
+
+      let inContent = 0
+      let inTitle = 0
+      for (const word of words) {
+        if (contentWords.has(word)) inContent++
+        if (titleWords.has(word)) inTitle++
+      }
+      if (inContent < Math.min(2, words.size)) {
+        return null
+      }
+      return { sitePost, score: (inContent + inTitle) / words.size }
+    })
+    .filter((match): match is { sitePost: SitePost; score: number } => match !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(match => match.sitePost)
+}
+
+// Links each target from the first body phrase taken from its title. Targets without a matching phrase
+// are listed in a "Related reading" block before the FAQ.
+function insertLinks(content: string, targets: SitePost[]): { content: string; links: InternalLink[] } {
+  const links: InternalLink[] = []
+  const related: SitePost[] = []
+
+  for (const target of targets) {
+    const linked = linkFirstPhrase(content, anchorPhrases(target.title), target.url)
+    if (linked) {
+      content = linked.html
+      links.push({ wordpressPostId: target.wordpress_post_id, title: target.title, url: target.url, anchor: linked.anchor, placement: 'inline' })
+    } else {
+      related.push(target)
+    }
+  }
+
+  if (related.length) {
+    const block = [
+      '<h3>Related reading</h3>',
+      '<ul>',
+      ...related.map(target => `<li><a href="${escapeAttribute(target.url)}">${escapeHtml(target.title)}</a></li>`),
+      '</ul>'
+    ].join('\n')
+    const faqIndex = content.indexOf('<h2>Frequently Asked Questions</h2>')
+    content = faqIndex >= 0
+      ? `${content.slice(0, faqIndex)}${block}\n\n${content.slice(faqIndex)}`
+      : `${content}\n\n${block}`
+
+    links.push(...related.map(target => ({
+      wordpressPostId: target.wordpress_post_id,
+      title: target.title,
+      url: target.url,
+      anchor: target.title,
+      placement: 'related' as const
+    })))
+  }
+
+  return { content, links }
+}
+
+// Runs of two or more title words, longest first, that neither start nor end with a stop word
+function anchorPhrases(title: string): string[][] {
+  const words = title.match(/[a-z0-9]+(?:'[a-z]+)?/gi) ?? []
+  const isKeyword = (word: string) => wordSet(word).size > 0
+  const phrases: string[][] = []
+
+  for (let length = Math.min(MAX_ANCHOR_WORDS, words.length); length >= 2; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const phrase = words.slice(start, start + length)
+      if (isKeyword(phrase[0]) && isKeyword(phrase[phrase.length - 1])) {
+        phrases.push(phrase)
+      }
+    }
+  }
+
+  return phrases
+}
+
+function linkFirstPhrase(html: string, phrases: string[][], url: string): { html: string; anchor: string } | null {
+  if (!phrases.length) return null
+
+  const patterns = phrases.map(phrase => new RegExp(`\\b${phrase.map(escapeRegExp).join('\\s+')}\\b`, 'i'))
+  const parts = html.split(/(<[^>]+>)/)
+  let blocked = 0
+  let inText = 0
+
+  for (let index = 0; index < parts.length; index++) {
+    const part = parts[index]
+    const tag = part.match(/^<(\/?)([a-z0-9]+)/i)
+    if (tag) {
+      const name = tag[2].toLowerCase()
+      const step = tag[1] ? -1 : 1
+      if (BLOCKED_TAGS.has(name)) blocked = Math.max(0, blocked + step)
+      if (TEXT_TAGS.has(name)) inText = Math.max(0, inText + step)
+      continue
+    }
+    if (blocked || !inText) continue
+
+    for (const pattern of patterns) {
+      const found = pattern.exec(part)
+      if (found) {
+        parts[index] = `${part.slice(0, found.index)}<a href="${escapeAttribute(url)}">${found[0]}</a>${part.slice(found.index + found[0].length)}`
+        return { html: parts.join(''), anchor: found[0] }
+      }
+    }
+  }
+
+  return null
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/"/g, '&quot;')
+}
@@ -0,0 +1,133 @@
+// Chat completion providers for edge functions
+// Any OpenAI-compatible server works, including Ollama or llama.cpp
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[]
+  model?: string // Falls back to the provider's default model
+  maxTokens: number
+  temperature: number
+  // Asks for output matching a strict JSON schema. Models without structured outputs get JSON mode instead
+  // and follow the structure described in the prompt.
+  jsonSchema?: { name: string; schema: Record<string, unknown> }
+}
+
+export interface LLMProvider {
+  readonly name: string
+  readonly defaultModel: string
+  complete(request: ChatCompletionRequest): Promise<string>
+  testConnection(): Promise<boolean>
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const DEFAULT_MODEL = 'gpt-4o-mini'
+
+// OpenAI models that accept strict json_schema response formats. Older ones reject the request outright.
+const JSON_SCHEMA_MODEL_PREFIXES = ['gpt-4o', 'gpt-4.1', 'gpt-5', 'o1', 'o3', 'o4']
+const JSON_SCHEMA_UNSUPPORTED_MODELS = ['gpt-4o-2024-05-13', 'o1-mini', 'o1-preview']
+
+function supportsJsonSchema(model: string): boolean {
+  if (JSON_SCHEMA_UNSUPPORTED_MODELS.some(unsupported => model === unsupported || model.startsWith(`${unsupported}-`))) {
+    return false
+  }
+  return JSON_SCHEMA_MODEL_PREFIXES.some(prefix => model === prefix || model.startsWith(`${prefix}-`))
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string
+  readonly defaultModel: string
+  private baseUrl: string
+  private apiKey?: string
+  private jsonSchema?: boolean
+
+  // `jsonSchema` forces strict JSON schemas on or off, by default they are only sent to models known to accept them
+  constructor(config: { name: string; baseUrl: string; apiKey?: string; defaultModel: string; jsonSchema?: boolean }) {
+    this.name = config.name
+    this.defaultModel = config.defaultModel
+    this.baseUrl = config.baseUrl.replace(/\/$/, '')
+    this.apiKey = config.apiKey?.trim() || undefined
+    this.jsonSchema = config.jsonSchema
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<string> {
+    const model = request.model || this.defaultModel
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.jsonSchema && { response_format: this.responseFormat(model, request.jsonSchema) })
+      })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`${this.name} API error: ${response.status} ${response.statusText} - ${errorText}`)
+    }
+
+    const data = await response.json()
+    const message = data.choices?.[0]?.message?.content
+    if (!message) {
+      throw new Error(`Invalid response format from ${this.name}`)
+    }
+
+    return message
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.headers()
+      })
+      return response.ok
+    } catch (error) {
+      console.error(`${this.name} connection test failed:`, error)
+      return false
+    }
+  }
+
+  private responseFormat(model: string, jsonSchema: NonNullable<ChatCompletionRequest['jsonSchema']>) {
+    if (this.jsonSchema ?? supportsJsonSchema(model)) {
+      return {
+        type: 'json_schema',
+        json_schema: { name: jsonSchema.name, schema: jsonSchema.schema, strict: true }
+      }
+    }
+    return { type: 'json_object' }
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+    }
+  }
+}
+
+// LLM_BASE_URL points generation at any OpenAI-compatible server; OpenAI itself still needs a key.
+// LLM_JSON_SCHEMA=true or false overrides which models are sent strict JSON schemas, for servers whose
+// model names do not follow OpenAI's.
+export function createLLMProvider(): LLMProvider {
+  const baseUrl = Deno.env.get('LLM_BASE_URL') || OPENAI_BASE_URL
+  const apiKey = Deno.env.get('LLM_API_KEY') || Deno.env.get('OPENAI_API_KEY')
+  const jsonSchema = Deno.env.get('LLM_JSON_SCHEMA')
+
+  if (baseUrl === OPENAI_BASE_URL && !apiKey) {
+    throw new Error('OPENAI_API_KEY is not configured for edge functions')
+  }
+
+  return new OpenAICompatibleProvider({
+    name: baseUrl === OPENAI_BASE_URL ? 'OpenAI' : 'LLM server',
+    baseUrl,
+    apiKey,
+    defaultModel: Deno.env.get('LLM_MODEL') || DEFAULT_MODEL,
+    jsonSchema: jsonSchema ? jsonSchema === 'true' : undefined
+  })
+}
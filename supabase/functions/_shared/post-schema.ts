@@ -0,0 +1,482 @@
+// JSON schema and validation for generated posts
+// The schema is sent to the model as a strict response format; the validator checks what actually came back
+
+export interface GeneratedSection {
+  heading: string
+  html: string
+}
+
+export interface GeneratedFaq {
+  question: string
+  answer: string
+}
+
+// Shape the model is asked to return
+export interface GeneratedPost {
+  title: string
+  sections: GeneratedSection[]
+  excerpt: string
+  tags: string[]
+  metaDescription: string
+  seoKeywords: string[]
+  faq: GeneratedFaq[]
+}
+
+// Plan for long-form posts, each section is then written by its own completion
+export interface GeneratedOutline extends Omit<GeneratedPost, 'sections'> {
+  sections: OutlineSection[]
+}
+
+export interface OutlineSection {
+  heading: string
+  keyPoints: string[]
+  targetWords: number
+}
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+// Stored on scheduled_posts.generation_validation
+export interface GenerationValidation {
+  status: 'valid' | 'repaired' | 'retried'
+  attempts: number
+  errors: FieldError[] // Problems found in the first response, empty when it was valid
+  repairs: string[]
+  mode?: 'single' | 'outline' // Long posts are written from an outline, one section at a time
+  wordCount?: { target: number; actual: number }
+}
+
+export const POST_SCHEMA_NAME = 'blog_post'
+export const OUTLINE_SCHEMA_NAME = 'blog_post_outline'
+export const SECTION_SCHEMA_NAME = 'blog_post_section'
+export const TOPICS_SCHEMA_NAME = 'topic_suggestions'
+
+// Strict mode needs every property listed as required and no additional properties
+const METADATA_PROPERTIES = {
+  title: { type: 'string', description: 'Conversational, human-like title under 60 characters' },
+  excerpt: { type: 'string', description: 'Brief, engaging summary (150-160 characters)' },
+  tags: { type: 'array', items: { type: 'string' }, description: '3 to 8 short tags' },
+  metaDescription: { type: 'string', description: 'SEO meta description (150-160 characters)' },
+  seoKeywords: { type: 'array', items: { type: 'string' }, description: '3 to 8 SEO keywords' },
+  faq: {
+    type: 'array',
+    description: '3 to 5 questions readers are likely to ask, answered in plain text',
+    items: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['question', 'answer'],
+      properties: {
+        question: { type: 'string' },
+        answer: { type: 'string' }
+      }
+    }
+  }
+}
+
+export const POST_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['title', 'sections', 'excerpt', 'tags', 'metaDescription', 'seoKeywords', 'faq'],
+  properties: {
+    ...METADATA_PROPERTIES,
+    sections: {
+      type: 'array',
+      description: 'Body of the post in reading order. The first section is the introduction and may have an empty heading.',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['heading', 'html'],
+        properties: {
+          heading: { type: 'string', description: 'Plain text subheading' },
+          html: { type: 'string', description: 'Section body as HTML paragraphs and lists, without the heading' }
+        }
+      }
+    }
+  }
+}
+
+export const OUTLINE_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['title', 'sections', 'excerpt', 'tags', 'metaDescription', 'seoKeywords', 'faq'],
+  properties: {
+    ...METADATA_PROPERTIES,
+    sections: {
+      type: 'array',
+      description: 'Planned sections in reading order. The first section is the introduction and may have an empty heading.',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['heading', 'keyPoints', 'targetWords'],
+        properties: {
+          heading: { type: 'string', description: 'Plain text subheading' },
+          keyPoints: { type: 'array', items: { type: 'string' }, description: 'What the section covers' },
+          targetWords: { type: 'integer', description: 'Words planned for this section' }
+        }
+      }
+    }
+  }
+}
+
+export const SECTION_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['html'],
+  properties: {
+    html: { type: 'string', description: 'Section body as HTML paragraphs and lists, without the heading' }
+  }
+}
+
+export const TOPICS_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['topics'],
+  properties: {
+    topics: { type: 'array', items: { type: 'string' }, description: 'One specific blog post topic per entry' }
+  }
+}
+
+const MAX_TITLE_LENGTH = 100
+const MAX_EXCERPT_LENGTH = 320
+const MAX_META_DESCRIPTION_LENGTH = 170
+const MAX_TAGS = 10
+
+// Elements without a closing tag
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'source', 'wbr', 'col', 'area', 'base', 'embed', 'track', 'param'])
+
+// Parses a model response, tolerating the markdown code fences some models wrap JSON in
+export function parseModelJson(message: string): unknown {
+  const unfenced = message.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+  return JSON.parse(unfenced)
+}
+
+export function validateGeneratedPost(value: unknown): FieldError[] {
+  if (!isRecord(value)) {
+    return [{ field: '$', message: 'Response must be a JSON object' }]
+  }
+
+  const errors = validateMetadata(value)
+
+  if (!Array.isArray(value.sections) || value.sections.length === 0) {
+    errors.push({ field: 'sections', message: 'must be a non-empty array' })
+  } else {
+    value.sections.forEach((section, index) => {
+      const field = `sections[${index}]`
+      if (!isRecord(section)) {
+        errors.push({ field, message: 'must be an object with heading and html' })
+        return
+      }
+      if (typeof section.heading !== 'string' || (index > 0 && !section.heading.trim())) {
+        errors.push({ field: `${field}.heading`, message: index > 0 ? 'must be a non-empty string' : 'must be a string' })
+      }
+      checkHtml(errors, section.html, `${field}.html`)
+    })
+  }
+
+  return errors
+}
+
+export function validateOutline(value: unknown): FieldError[] {
+  if (!isRecord(value)) {
+    return [{ field: '$', message: 'Response must be a JSON object' }]
+  }
+
+  const errors = validateMetadata(value)
+
+  if (!Array.isArray(value.sections) || value.sections.length < 2) {
+    errors.push({ field: 'sections', message: 'must plan at least two sections' })
+  } else {
+    value.sections.forEach((section, index) => {
+      const field = `sections[${index}]`
+      if (!isRecord(section)) {
+        errors.push({ field, message: 'must be an object with heading, keyPoints and targetWords' })
+        return
+      }
+      if (typeof section.heading !== 'string' || (index > 0 && !section.heading.trim())) {
+        errors.push({ field: `${field}.heading`, message: index > 0 ? 'must be a non-empty string' : 'must be a string' })
+      }
+      if (!Array.isArray(section.keyPoints) || !section.keyPoints.every(isFilled)) {
+        errors.push({ field: `${field}.keyPoints`, message: 'must be an array of non-empty strings' })
+      }
+      if (typeof section.targetWords !== 'number' || section.targetWords <= 0) {
+        errors.push({ field: `${field}.targetWords`, message: 'must be a positive number' })
+      }
+    })
+  }
+
+  return errors
+}
+
+export function validateSection(value: unknown): FieldError[] {
+  if (!isRecord(value)) {
+    return [{ field: '$', message: 'Response must be a JSON object' }]
+  }
+
+  const errors: FieldError[] = []
+  checkHtml(errors, value.html, 'html')
+  return errors
+}
+
+export function repairSection(value: unknown): { value: unknown; repairs: string[] } {
+  if (!isRecord(value) || typeof value.html !== 'string') {
+    return { value, repairs: [] }
+  }
+
+  const balanced = balanceTags(value.html)
+  return balanced === value.html
+    ? { value, repairs: [] }
+    : { value: { ...value, html: balanced }, repairs: ['html: closed unbalanced tags'] }
+}
+
+export function validateTopicSuggestions(value: unknown): FieldError[] {
+  if (!isRecord(value)) {
+    return [{ field: '$', message: 'Response must be a JSON object' }]
+  }
+  if (!Array.isArray(value.topics) || !value.topics.length || !value.topics.every(isFilled)) {
+    return [{ field: 'topics', message: 'must be a non-empty array of non-empty strings' }]
+  }
+  return []
+}
+
+// Drops blank and repeated topics, and splits a single comma or newline separated string
+export function repairTopicSuggestions(value: unknown): { value: unknown; repairs: string[] } {
+  if (!isRecord(value)) {
+    return { value, repairs: [] }
+  }
+
+  const source = typeof value.topics === 'string' ? value.topics.split(/\n|,/) : value.topics
+  if (!Array.isArray(source)) {
+    return { value, repairs: [] }
+  }
+
+  const topics = Array.from(new Set(source.filter(isFilled).map(topic => topic.trim())))
+  if (typeof value.topics === 'string') {
+    return { value: { topics }, repairs: ['topics: split a string into a list'] }
+  }
+  return topics.length === source.length
+    ? { value, repairs: [] }
+    : { value: { topics }, repairs: ['topics: removed blank and repeated entries'] }
+}
+
+// Words a reader sees, ignoring markup
+export function countWords(html: string): number {
+  const text = html.replace(/<[^>]*>/g, ' ').replace(/&[a-z#0-9]+;/gi, ' ').trim()
+  return text ? text.split(/\s+/).length : 0
+}
+
+// Fields shared by full posts and outlines
+function validateMetadata(value: Record<string, unknown>): FieldError[] {
+  const errors: FieldError[] = []
+
+  checkText(errors, value, 'title', MAX_TITLE_LENGTH)
+  checkText(errors, value, 'excerpt', MAX_EXCERPT_LENGTH)
+  checkText(errors, value, 'metaDescription', MAX_META_DESCRIPTION_LENGTH)
+  checkStringList(errors, value, 'tags', MAX_TAGS)
+  checkStringList(errors, value, 'seoKeywords', MAX_TAGS)
+
+  if (!Array.isArray(value.faq)) {
+    errors.push({ field: 'faq', message: 'must be an array' })
+  } else {
+    value.faq.forEach((item, index) => {
+      if (!isRecord(item) || !isFilled(item.question) || !isFilled(item.answer)) {
+        errors.push({ field: `faq[${index}]`, message: 'must have a non-empty question and answer' })
+      }
+    })
+  }
+
+  return errors
+}
+
+// Fixes the mistakes that do not need the model: lists sent as comma separated strings, a missing
+// meta description, stray whitespace and unclosed HTML tags. Returns the repaired copy and what changed.
+export function repairGeneratedPost(value: unknown): { value: unknown; repairs: string[] } {
+  if (!isRecord(value)) {
+    return { value, repairs: [] }
+  }
+
+  const repaired: Record<string, unknown> = { ...value }
+  const repairs: string[] = []
+
+  for (const field of ['title', 'excerpt', 'metaDescription']) {
+    if (typeof repaired[field] === 'string' && repaired[field] !== (repaired[field] as string).trim()) {
+      repaired[field] = (repaired[field] as string).trim()
+    }
+  }
+
+  for (const field of ['tags', 'seoKeywords']) {
+    const list = repaired[field]
+    if (typeof list === 'string') {
+      repaired[field] = splitList(list)
+      repairs.push(`${field}: split comma separated text into a list`)
+    } else if (Array.isArray(list)) {
+      const cleaned = Array.from(new Set(list.filter(isFilled).map(item => item.trim()))).slice(0, MAX_TAGS)
+      if (cleaned.length !== list.length) {
+        repaired[field] = cleaned
+        repairs.push(`${field}: removed empty or duplicate entries`)
+      }
+    }
+  }
+
+  if (!isFilled(repaired.metaDescription) && isFilled(repaired.excerpt)) {
+    repaired.metaDescription = truncate(repaired.excerpt as string, 160)
+    repairs.push('metaDescription: filled from the excerpt')
+  }
+
+  if (typeof repaired.metaDescription === 'string' && repaired.metaDescription.length > MAX_META_DESCRIPTION_LENGTH) {
+    repaired.metaDescription = truncate(repaired.metaDescription, 160)
+    repairs.push('metaDescription: shortened to 160 characters')
+  }
+
+  // Older prompts and some models return the whole body as one HTML string
+  if (!Array.isArray(repaired.sections) && isFilled(repaired.content)) {
+    repaired.sections = [{ heading: '', html: repaired.content }]
+    delete repaired.content
+    repairs.push('sections: wrapped the HTML body in a single section')
+  }
+
+  if (Array.isArray(repaired.sections)) {
+    repaired.sections = repaired.sections.map((section, index) => {
+      if (!isRecord(section) || typeof section.html !== 'string') {
+        return section
+      }
+      const balanced = balanceTags(section.html)
+      if (balanced !== section.html) {
+        repairs.push(`sections[${index}].html: closed unbalanced tags`)
+        return { ...section, html: balanced }
+      }
+      return section
+    })
+  }
+
+  if (repaired.faq === undefined || repaired.faq === null) {
+    repaired.faq = []
+    repairs.push('faq: defaulted to an empty list')
+  }
+
+  return { value: repaired, repairs }
+}
+
+// Joins the sections and FAQ into the HTML body stored on the post
+export function renderPostContent(post: GeneratedPost): string {
+  const body = post.sections.map(section => {
+    const heading = section.heading.trim()
+    return heading ? `<h2>${escapeHtml(heading)}</h2>\n${section.html.trim()}` : section.html.trim()
+  })
+
+  if (post.faq.length) {
+    body.push([
+      '<h2>Frequently Asked Questions</h2>',
+      ...post.faq.map(item => `<h3>${escapeHtml(item.question.trim())}</h3>\n<p>${escapeHtml(item.answer.trim())}</p>`)
+    ].join('\n'))
+  }
+
+  return body.join('\n\n')
+}
+
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map(error => `${error.field} ${error.message}`).join('; ')
+}
+
+// Lists tags that are opened and never closed, or closed without being opened
+function findUnbalancedTags(html: string): string[] {
+  const { open, stray } = scanTags(html)
+  return [...open.map(tag => `<${tag}>`), ...stray.map(tag => `</${tag}>`)]
+}
+
+// Drops closing tags that were never opened and closes the ones left open
+function balanceTags(html: string): string {
+  const { open, stray } = scanTags(html)
+  if (!open.length && !stray.length) {
+    return html
+  }
+
+  let result = html
+  for (const tag of stray) {
+    const index = result.lastIndexOf(`</${tag}>`)
+    if (index !== -1) {
+      result = result.slice(0, index) + result.slice(index + tag.length + 3)
+    }
+  }
+
+  return result + open.slice().reverse().map(tag => `</${tag}>`).join('')
+}
+
+function scanTags(html: string): { open: string[]; stray: string[] } {
+  const open: string[] = []
+  const stray: string[] = []
+  const tagPattern = /<\/?([a-zA-Z][a-zA-Z0-9]*)\b[^>]*?(\/?)>/g
+
+  for (const match of html.matchAll(tagPattern)) {
+    const tag = match[1].toLowerCase()
+    if (VOID_ELEMENTS.has(tag) || match[2] === '/') continue
+
+    if (match[0].startsWith('</')) {
+      const index = open.lastIndexOf(tag)
+      if (index === -1) {
+        stray.push(tag)
+      } else {
+        open.splice(index, 1)
+      }
+    } else {
+      open.push(tag)
+    }
+  }
+
+  return { open, stray }
+}
+
+function checkHtml(errors: FieldError[], html: unknown, field: string) {
+  if (typeof html !== 'string' || !html.trim()) {
+    errors.push({ field, message: 'must be non-empty HTML' })
+    return
+  }
+
+  const unclosed = findUnbalancedTags(html)
+  if (unclosed.length) {
+    errors.push({ field, message: `has unbalanced tags: ${unclosed.join(', ')}` })
+  }
+}
+
+function checkText(errors: FieldError[], value: Record<string, unknown>, field: string, maxLength: number) {
+  const text = value[field]
+  if (!isFilled(text)) {
+    errors.push({ field, message: 'must be a non-empty string' })
+  } else if (text.length > maxLength) {
+    errors.push({ field, message: `must be at most ${maxLength} characters (got ${text.length})` })
+  }
+}
+
+function checkStringList(errors: FieldError[], value: Record<string, unknown>, field: string, maxItems: number) {
+  const list = value[field]
+  if (!Array.isArray(list) || list.length === 0) {
+    errors.push({ field, message: 'must be a non-empty array of strings' })
+  } else if (!list.every(isFilled)) {
+    errors.push({ field, message: 'must only contain non-empty strings' })
+  } else if (list.length > maxItems) {
+    errors.push({ field, message: `must have at most ${maxItems} items (got ${list.length})` })
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFilled(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function splitList(text: string): string[] {
+  return Array.from(new Set(text.split(',').map(item => item.trim()).filter(Boolean))).slice(0, MAX_TAGS)
+}
+
+function truncate(text: string, maxLength: number): string {
+  const trimmed = text.trim()
+  if (trimmed.length <= maxLength) return trimmed
+  return trimmed.slice(0, maxLength - 3).replace(/\s+\S*$/, '') + '...'
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
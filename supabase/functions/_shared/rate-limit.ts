@@ -0,0 +1,29 @@
+// Per-user call limits for edge functions that spend API credits without a points reservation
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export interface RateLimit {
+  limit: number
+  windowSeconds: number
+}
+
+// Records a call as the caller, so the limit applies to them. False once the limit is reached.
+export async function consumeRateLimit(
+  userClient: SupabaseClient,
+  functionName: string,
+  { limit, windowSeconds }: RateLimit
+): Promise<boolean> {
+  const { data, error } = await userClient.rpc('consume_rate_limit', {
+    p_function: functionName,
+    p_limit: limit,
+    p_window_seconds: windowSeconds
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data === true
+}
@@ -0,0 +1,276 @@
+// On-page SEO analysis for generated posts
+// Scores a post against its focus keyword (the first SEO keyword) and common on-page checks
+
+export type SeoCheck =
+  | 'keyword_in_title'
+  | 'keyword_in_intro'
+  | 'keyword_in_headings'
+  | 'keyword_density'
+  | 'meta_description'
+  | 'heading_structure'
+  | 'image_alt_text'
+  | 'readability'
+  | 'internal_links'
+  | 'external_links'
+
+export interface SeoFinding {
+  check: SeoCheck
+  status: 'pass' | 'warn' | 'fail'
+  message: string
+}
+
+export interface SeoAnalysis {
+  score: number // 0 to 100
+  focusKeyword: string | null
+  findings: SeoFinding[]
+  stats: {
+    wordCount: number
+    keywordCount: number
+    keywordDensity: number // Percent of words that belong to a focus keyword match
+    metaDescriptionLength: number
+    headings: { h1: number; h2: number; h3: number }
+    images: number
+    imagesWithoutAlt: number
+    readingGrade: number // Flesch-Kincaid grade level
+    internalLinks: number
+    externalLinks: number
+  }
+  analyzedAt: string
+}
+
+export interface SeoInput {
+  title: string
+  content: string
+  metaDescription?: string | null
+  seoKeywords?: string[] | null
+  siteUrl?: string | null // Links to this host count as internal
+}
+
+// How much each check counts towards the score
+const WEIGHTS: Record<SeoCheck, number> = {
+  keyword_in_title: 12,
+  keyword_in_intro: 10,
+  keyword_in_headings: 8,
+  keyword_density: 10,
+  meta_description: 12,
+  heading_structure: 10,
+  image_alt_text: 8,
+  readability: 12,
+  internal_links: 10,
+  external_links: 8
+}
+
+const DENSITY_RANGE = { min: 0.5, max: 2.5 } // Percent
+const META_DESCRIPTION_RANGE = { min: 120, max: 160 } // Characters
+const TARGET_READING_GRADE = 9
+
+export function analyzeSeo(post: SeoInput): SeoAnalysis {
+  const findings: SeoFinding[] = []
+  const add = (check: SeoCheck, status: SeoFinding['status'], message: string) => findings.push({ check, status, message })
+
+  const focusKeyword = post.seoKeywords?.find(keyword => keyword.trim())?.trim() || null
+  const keywordPattern = focusKeyword ? phrasePattern(focusKeyword) : null
+  const text = htmlToText(post.content)
+  const words = text.match(/[a-z0-9]+(?:'[a-z]+)?/gi) ?? []
+  const headings = extractHeadings(post.content)
+  const meta = (post.metaDescription ?? '').trim()
+
+  // Focus keyword placement
+  const keywordCount = keywordPattern ? (text.match(keywordPattern) ?? []).length : 0
+  const keywordDensity = words.length && focusKeyword
+    ? round((keywordCount * focusKeyword.split(/\s+/).length / words.length) * 100, 2)
+    : 0
+
+  if (!keywordPattern) {
+    add('keyword_in_title', 'fail', 'No focus keyword set. Add SEO keywords, the first one is the focus keyword.')
+  } else {
+    add('keyword_in_title', matches(keywordPattern, post.title) ? 'pass' : 'fail',
+      matches(keywordPattern, post.title) ? 'The title contains the focus keyword.' : `The title does not contain "${focusKeyword}".`)
+
+    const intro = htmlToText(firstParagraph(post.content))
+    add('keyword_in_intro', matches(keywordPattern, intro) ? 'pass' : 'warn',
+      matches(keywordPattern, intro) ? 'The first paragraph mentions the focus keyword.' : 'Mention the focus keyword in the first paragraph.')
+
+    const inHeadings = headings.filter(heading => heading.level > 1 && matches(keywordPattern, heading.text)).length
+    add('keyword_in_headings', inHeadings ? 'pass' : 'warn',
+      inHeadings ? `${inHeadings} subheading${inHeadings === 1 ? ' uses' : 's use'} the focus keyword.` : 'No subheading uses the focus keyword.')
+
+    if (keywordDensity >= DENSITY_RANGE.min && keywordDensity <= DENSITY_RANGE.max) {
+      add('keyword_density', 'pass', `Keyword density is ${keywordDensity}%.`)
+    } else if (keywordDensity > DENSITY_RANGE.max) {
+      add('keyword_density', keywordDensity > DENSITY_RANGE.max * 1.5 ? 'fail' : 'warn',
+        `Keyword density is ${keywordDensity}%, which reads as keyword stuffing. Aim for ${DENSITY_RANGE.min}-${DENSITY_RANGE.max}%.`)
+    } else {
+      add('keyword_density', keywordCount ? 'warn' : 'fail',
+        `Keyword density is ${keywordDensity}% (${keywordCount} use${keywordCount === 1 ? '' : 's'}). Aim for ${DENSITY_RANGE.min}-${DENSITY_RANGE.max}%.`)
+    }
+  }
+
+  // Meta description
+  if (!meta) {
+    add('meta_description', 'fail', 'The meta description is empty.')
+  } else if (meta.length < META_DESCRIPTION_RANGE.min || meta.length > META_DESCRIPTION_RANGE.max) {
+    const tooLong = meta.length > META_DESCRIPTION_RANGE.max
+    add('meta_description', tooLong && meta.length > 200 ? 'fail' : 'warn',
+      `The meta description is ${meta.length} characters; ${tooLong ? 'search engines cut it off after about' : 'aim for'} ${META_DESCRIPTION_RANGE.min}-${META_DESCRIPTION_RANGE.max}.`)
+  } else if (keywordPattern && !matches(keywordPattern, meta)) {
+    add('meta_description', 'warn', `The meta description is ${meta.length} characters but does not mention the focus keyword.`)
+  } else {
+    add('meta_description', 'pass', `The meta description is ${meta.length} characters.`)
+  }
+
+  // Heading structure: the title is the page's H1, so the body starts at H2 and never skips a level
+  const counts = { h1: 0, h2: 0, h3: 0 }
+  headings.forEach(heading => {
+    if (heading.level === 1) counts.h1++
+    if (heading.level === 2) counts.h2++
+    if (heading.level === 3) counts.h3++
+  })
+  const skipped = headings.some((heading, index) => heading.level - (index ? headings[index - 1].level : 1) > 1)
+  if (counts.h1) {
+    add('heading_structure', 'fail', `The body has ${counts.h1} H1 heading${counts.h1 === 1 ? '' : 's'}; WordPress already shows the title as the H1.`)
+  } else if (counts.h2 < 2) {
+    add('heading_structure', 'warn', 'Break the post up with at least two H2 subheadings.')
+  } else if (skipped) {
+    add('heading_structure', 'warn', 'A heading level is skipped, e.g. an H4 straight after an H2.')
+  } else {
+    add('heading_structure', 'pass', `${counts.h2} H2 and ${counts.h3} H3 headings in order.`)
+  }
+
+  // Image alt text
+  const images = post.content.match(/<img\b[^>]*>/gi) ?? []
+  const imagesWithoutAlt = images.filter(image => !/\balt\s*=\s*(["'])\s*\S[^"']*\1/i.test(image)).length
+  if (!images.length) {
+    add('image_alt_text', 'pass', 'No inline images to describe; the featured image gets its alt text when it is uploaded.')
+  } else if (imagesWithoutAlt) {
+    add('image_alt_text', 'fail', `${imagesWithoutAlt} of ${images.length} images have no alt text.`)
+  } else {
+    add('image_alt_text', 'pass', `All ${images.length} images have alt text.`)
+  }
+
+  // Readability
+  const readingGrade = fleschKincaidGrade(text, words)
+  if (readingGrade <= TARGET_READING_GRADE) {
+    add('readability', 'pass', `Reading grade ${readingGrade}, easy for most readers.`)
+  } else if (readingGrade <= TARGET_READING_GRADE + 3) {
+    add('readability', 'warn', `Reading grade ${readingGrade}. Shorter sentences and simpler words would help.`)
+  } else {
+    add('readability', 'fail', `Reading grade ${readingGrade} is hard going for most readers.`)
+  }
+
+  // Links
+  const { internalLinks, externalLinks } = countLinks(post.content, post.siteUrl)
+  add('internal_links', internalLinks ? 'pass' : 'warn',
+    internalLinks ? `${internalLinks} link${internalLinks === 1 ? '' : 's'} to other pages of the site.` : 'No links to other posts on the site.')
+  add('external_links', externalLinks ? 'pass' : 'warn',
+    externalLinks ? `${externalLinks} link${externalLinks === 1 ? '' : 's'} to other sites.` : 'No links to outside sources.')
+
+  const totalWeight = findings.reduce((sum, finding) => sum + WEIGHTS[finding.check], 0)
+  const earned = findings.reduce((sum, finding) => sum + WEIGHTS[finding.check] * { pass: 1, warn: 0.5, fail: 0 }[finding.status], 0)
+  // Without a focus keyword the keyword checks are missing, and count as failed
+  const missing = keywordPattern ? 0 : WEIGHTS.keyword_in_intro + WEIGHTS.keyword_in_headings + WEIGHTS.keyword_density
+
+  return {
+    score: Math.round((earned / (totalWeight + missing)) * 100),
+    focusKeyword,
+    findings,
+    stats: {
+      wordCount: words.length,
+      keywordCount,
+      keywordDensity,
+      metaDescriptionLength: meta.length,
+      headings: counts,
+      images: images.length,
+      imagesWithoutAlt,
+      readingGrade,
+      internalLinks,
+      externalLinks
+    },
+    analyzedAt: new Date().toISOString()
+  }
+}
+
+function phrasePattern(keyword: string): RegExp {
+  const words = keyword.trim().split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  return new RegExp(`\\b${words.join('\\s+')}\\b`, 'gi')
+}
+
+function matches(pattern: RegExp, text: string): boolean {
+  pattern.lastIndex = 0
+  return pattern.test(text)
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<\/(p|li|h[1-6]|div|blockquote)>/gi, '. ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&[a-z#0-9]+;/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function firstParagraph(html: string): string {
+  return html.match(/<p\b[^>]*>([\s\S]*?)<\/p>/i)?.[1] ?? html.slice(0, 600)
+}
+
+function extractHeadings(html: string): { level: number; text: string }[] {
+  return Array.from(html.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi)).map(match => ({
+    level: Number(match[1]),
+    text: htmlToText(match[2])
+  }))
+}
+
+function countLinks(html: string, siteUrl?: string | null): { internalLinks: number; externalLinks: number } {
+  const siteHost = siteUrl ? hostOf(siteUrl) : null
+  let internalLinks = 0
+  let externalLinks = 0
+
+  for (const match of html.matchAll(/<a\b[^>]*\bhref\s*=\s*(["'])(.*?)\1/gi)) {
+    const href = match[2].trim()
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) continue
+
+    const host = /^https?:\/\//i.test(href) ? hostOf(href) : siteHost
+    if (host && host === siteHost) {
+      internalLinks++
+    } else {
+      externalLinks++
+    }
+  }
+
+  return { internalLinks, externalLinks }
+}
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase()
+  } catch {
+    return null
+  }
+}
+
+function fleschKincaidGrade(text: string, words: string[]): number {
+  if (!words.length) return 0
+
+  const sentences = Math.max(1, text.split(/[.!?]+(?:\s|$)/).filter(sentence => /[a-z0-9]/i.test(sentence)).length)
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0)
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59
+  return Math.max(0, round(grade, 1))
+}
+
+// Vowel groups, less a silent final "e"; good enough for a grade estimate
+function countSyllables(word: string): number {
+  const lower = word.toLowerCase().replace(/'.*$/, '')
+  if (/^\d+$/.test(lower)) return 1
+  if (lower.length <= 3) return 1
+
+  const groups = lower.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g)
+  return Math.max(1, groups?.length ?? 1)
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
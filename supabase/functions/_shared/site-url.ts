@@ -0,0 +1,133 @@
+// WordPress site URL checks
+// Site URLs come from users and are fetched by our servers, so they must point at the public internet
+
+// IPv4 ranges that are not publicly routable: this network, private, carrier-grade NAT, loopback,
+// link-local, IETF protocol assignments, benchmarking, multicast and reserved
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+]
+
+// Throws unless the URL is https and its host, as written and as resolved, is a public address
+export async function assertPublicSiteUrl(url: string): Promise<void> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new Error('The site URL is not a valid URL')
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw new Error('The site URL must use https')
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.local') || hostname.endsWith('.internal')) {
+    throw new Error('The site URL must point at a public address')
+  }
+
+  const addresses = isIpLiteral(hostname) ? [hostname] : await resolveHost(hostname)
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}`)
+  }
+  if (addresses.some(isBlockedAddress)) {
+    throw new Error('The site URL must point at a public address')
+  }
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA')
+  ])
+  return lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : [])
+}
+
+function isIpLiteral(hostname: string): boolean {
+  return parseIpv4(hostname) !== null || hostname.includes(':')
+}
+
+function isBlockedAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address)
+  if (ipv4 !== null) {
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) => inRange(ipv4, parseIpv4(base)!, bits))
+  }
+
+  const ipv6 = address.toLowerCase()
+  // IPv4-mapped addresses reach the IPv4 host they embed
+  const mapped = ipv6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) {
+    return isBlockedAddress(mapped[1])
+  }
+  const mappedHex = ipv6.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16)
+    const low = parseInt(mappedHex[2], 16)
+    return isBlockedAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+  }
+
+  const firstGroup = parseInt(ipv6.split(':')[0] || '0', 16)
+  return ipv6 === '::' ||
+    ipv6 === '::1' ||
+    (firstGroup & 0xfe00) === 0xfc00 || // Unique local, fc00::/7
+    (firstGroup & 0xffc0) === 0xfe80 || // Link-local, fe80::/10
+    (firstGroup & 0xff00) === 0xff00 // Multicast, ff00::/8
+}
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.')
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0)
+}
+
+function inRange(address: number, base: number, bits: number): boolean {
+  const size = 2 ** (32 - bits)
+  return Math.floor(address / size) === Math.floor(base / size)
+}
+
+const MAX_REDIRECTS = 5
+
+// fetch for URLs on a user's site. Every URL is checked right before it is requested, redirect targets
+// included, so a site cannot point our requests at a private address by redirecting or re-resolving.
+export async function fetchSiteUrl(url: string, init: RequestInit = {}): Promise<Response> {
+  let target = new URL(url)
+  let request: RequestInit = init
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicSiteUrl(target.href)
+    const response = await fetch(target, { ...request, redirect: 'manual' })
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response
+    }
+
+    await response.body?.cancel()
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error('The site redirected too many times')
+    }
+
+    const next = new URL(location, target)
+    // Credentials are only sent to the site's own origin
+    if (next.origin !== target.origin) {
+      const headers = new Headers(request.headers)
+      headers.delete('Authorization')
+      request = { ...request, headers }
+    }
+    // Like fetch, a 303 or a redirected POST continues as a GET without the body
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && request.method === 'POST')) {
+      request = { ...request, method: 'GET', body: undefined }
+    }
+    target = next
+  }
+}
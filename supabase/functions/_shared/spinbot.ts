@@ -0,0 +1,51 @@
+// Spinbot content rewriting for edge functions. The API key never leaves the server.
+
+const SPINBOT_URL = 'http://api.spinbot.net'
+
+interface SpinbotResponse {
+  success: boolean
+  spun_text?: string
+  error?: string
+}
+
+export interface HumanizeResult {
+  success: boolean
+  humanizedContent?: string
+  error?: string
+}
+
+export async function humanizeContent(content: string): Promise<HumanizeResult> {
+  const apiKey = Deno.env.get('SPINBOT_API_KEY')
+  if (!apiKey) {
+    return { success: false, error: 'SPINBOT_API_KEY is not configured for edge functions' }
+  }
+
+  try {
+    const formData = new FormData()
+    formData.append('api_key', apiKey)
+    formData.append('text', content)
+    formData.append('format', 'json')
+
+    const response = await fetch(SPINBOT_URL, {
+      method: 'POST',
+      body: formData
+    })
+
+    if (!response.ok) {
+      throw new Error(`Spinbot API error: ${response.status} ${response.statusText}`)
+    }
+
+    const data: SpinbotResponse = await response.json()
+    if (!data.success || !data.spun_text) {
+      throw new Error(data.error || 'Unknown error from Spinbot')
+    }
+
+    return { success: true, humanizedContent: data.spun_text }
+  } catch (error) {
+    console.error('Spinbot humanization error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to humanize content'
+    }
+  }
+}
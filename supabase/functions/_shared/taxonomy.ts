@@ -0,0 +1,85 @@
+// Matching of model-suggested tags to a site's existing WordPress terms
+// Keeps "Email Marketing", "email-marketing" and "E-mail marketing" from becoming three different tags
+
+export interface TermLike {
+  id: number
+  name: string
+  slug: string
+}
+
+// Terms are compared without case, punctuation and simple plurals
+export function normalizeTerm(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&amp;/g, '&')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .map(singular)
+    .join(' ')
+}
+
+// The existing term that means the same as `name`, or null. Terms should be ordered by preference,
+// most used first, since the first of equally close matches wins.
+export function findMatchingTerm<T extends TermLike>(name: string, terms: T[]): T | null {
+  const wanted = normalizeTerm(name)
+  if (!wanted) return null
+  const wantedCompact = wanted.replace(/ /g, '')
+
+  let closest: T | null = null
+  let closestDistance = maxTypoDistance(wantedCompact) + 1
+
+  for (const term of terms) {
+    for (const candidate of [normalizeTerm(term.name), normalizeTerm(term.slug)]) {
+      const compact = candidate.replace(/ /g, '')
+      if (candidate === wanted || compact === wantedCompact) {
+        return term
+      }
+
+      const distance = editDistance(compact, wantedCompact, closestDistance)
+      if (distance < closestDistance) {
+        closest = term
+        closestDistance = distance
+      }
+    }
+  }
+
+  return closest
+}
+
+// Short names only match exactly, a one letter change can turn "seo" into "ceo"
+function maxTypoDistance(compact: string): number {
+  if (compact.length >= 10) return 2
+  if (compact.length >= 5) return 1
+  return 0
+}
+
+function singular(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1)
+  return word
+}
+
+// Levenshtein distance, giving up once it reaches `limit`
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) >= limit) return limit
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin >= limit) return limit
+    previous = current
+  }
+
+  return Math.min(previous[b.length], limit)
+}
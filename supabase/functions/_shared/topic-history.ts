@@ -0,0 +1,126 @@
+// Schedule history for duplicate-topic avoidance
+// Earlier posts are listed in the prompt to steer away from them, and near copies are rejected
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import type { FieldError } from './post-schema.ts'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export interface RecentTopic {
+  id: string
+  title: string
+  seo_keywords: string[] | null
+  content: string | null
+}
+
+// Posts whose title or body overlap an earlier post's by more than this share are rejected
+export const SIMILARITY_THRESHOLD = 0.6
+
+const HISTORY_LIMIT = 20
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'if', 'in',
+  'is', 'it', 'its', 'me', 'my', 'not', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'this', 'to', 'was',
+  'we', 'what', 'when', 'why', 'will', 'with', 'you', 'your'
+])
+
+// Most recent posts of a schedule, newest first. `excludePostId` leaves out a post being regenerated.
+export async function loadRecentTopics(
+  supabaseClient: SupabaseClient,
+  scheduleId: string,
+  excludePostId?: string
+): Promise<RecentTopic[]> {
+  let query = supabaseClient
+    .from('scheduled_posts')
+    .select('id, title, seo_keywords, content')
+    .eq('schedule_id', scheduleId)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_LIMIT)
+
+  if (excludePostId) {
+    query = query.neq('id', excludePostId)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load schedule history: ${error.message}`)
+  }
+
+  return (data as RecentTopic[]) ?? []
+}
+
+// Prompt section listing what the schedule already covered
+export function buildHistoryGuide(history: RecentTopic[]): string {
+  const lines = history.map(topic => {
+    const keywords = topic.seo_keywords?.length ? ` (keywords: ${topic.seo_keywords.join(', ')})` : ''
+    return `- "${topic.title}"${keywords}`
+  })
+
+  return `**ALREADY PUBLISHED ON THIS SCHEDULE - DO NOT REPEAT:**
+${lines.join('\n')}
+Pick a clearly different angle, question or sub-topic. Do not reuse these titles, their wording or their main keywords.`
+}
+
+// Errors for a candidate that is too close to an earlier post. Content is optional, outlines only have a title.
+export function checkAgainstHistory(
+  candidate: { title: string; content?: string },
+  history: RecentTopic[],
+  threshold = SIMILARITY_THRESHOLD
+): FieldError[] {
+  const errors: FieldError[] = []
+  const titleWords = wordSet(candidate.title)
+  const contentWords = candidate.content ? wordSet(stripHtml(candidate.content)) : null
+
+  for (const topic of history) {
+    const titleSimilarity = jaccard(titleWords, wordSet(topic.title))
+    if (titleSimilarity > threshold) {
+      errors.push({
+        field: 'title',
+        message: `is too similar to the earlier post "${topic.title}" (${Math.round(titleSimilarity * 100)}% overlap)`
+      })
+      break
+    }
+  }
+
+  if (contentWords) {
+    for (const topic of history) {
+      if (!topic.content) continue
+
+      const contentSimilarity = jaccard(contentWords, wordSet(stripHtml(topic.content)))
+      if (contentSimilarity > threshold) {
+        errors.push({
+          field: 'content',
+          message: `repeats the earlier post "${topic.title}" (${Math.round(contentSimilarity * 100)}% overlap)`
+        })
+        break
+      }
+    }
+  }
+
+  return errors
+}
+
+// Lowercase words of a text, without stop words and single letters
+export function wordSet(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+  )
+}
+
+export function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&[a-z#0-9]+;/gi, ' ')
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0
+
+  let shared = 0
+  for (const word of a) {
+    if (b.has(word)) shared++
+  }
+  return shared / (a.size + b.size - shared)
+}
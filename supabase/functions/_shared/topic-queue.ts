@@ -0,0 +1,41 @@
+// Schedule topic queue for edge functions
+// Each generation uses the next queued topic, falling back to the schedule's content_input
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export interface QueuedTopic {
+  id: string
+  topic: string
+}
+
+export async function nextQueuedTopic(supabaseClient: SupabaseClient, scheduleId: string): Promise<QueuedTopic | null> {
+  const { data, error } = await supabaseClient
+    .from('schedule_topics')
+    .select('id, topic')
+    .eq('schedule_id', scheduleId)
+    .eq('status', 'queued')
+    .order('position')
+    .order('created_at')
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load the topic queue: ${error.message}`)
+  }
+
+  return data as QueuedTopic | null
+}
+
+// Only called once the post is saved, so a failed generation leaves the topic at the front of the queue
+export async function markTopicUsed(supabaseClient: SupabaseClient, topicId: string, postId: string): Promise<void> {
+  const { error } = await supabaseClient
+    .from('schedule_topics')
+    .update({ status: 'used', scheduled_post_id: postId, used_at: new Date().toISOString() })
+    .eq('id', topicId)
+
+  if (error) {
+    console.error(`Failed to mark topic ${topicId} as used:`, error)
+  }
+}
@@ -0,0 +1,1252 @@
+// WordPress REST API Client for Edge Functions
+// Credentials are decrypted from Vault here, so application passwords never reach the browser
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { trackUnsplashDownload } from './unsplash.ts'
+import { findMatchingTerm } from './taxonomy.ts'
+import { assertPublicSiteUrl, fetchSiteUrl } from './site-url.ts'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export type SeoPlugin = 'yoast' | 'rank_math' | 'none'
+
+// How the model's tags become WordPress tags: matched to existing tags only, matched or created, or not sent
+export type TagPolicy = 'existing_only' | 'allow_new' | 'none'
+
+export interface WordPressSite {
+  id: string
+  name: string
+  url: string
+  username: string
+  password: string // Application password
+  seo_plugin?: SeoPlugin | null // Detected by testConnection; SEO fields are not sent while unknown
+  seo_fields_writable?: boolean | null
+  publish_settings?: PublishSettings | null // Site defaults, overridden per schedule
+}
+
+// Where and how posts are created on a site. Unset fields keep WordPress' own defaults.
+export interface PublishSettings {
+  postType?: string // REST base of the post type, e.g. 'posts', 'pages' or 'news'
+  authorId?: number
+  format?: string // Post format, e.g. 'standard', 'aside' or 'gallery'
+  commentStatus?: 'open' | 'closed'
+  sticky?: boolean // Only posts can be sticky
+}
+
+export interface SeoPluginDetection {
+  plugin: SeoPlugin
+  fieldsWritable: boolean // Whether the plugin's fields can be written over REST
+  warning?: string
+}
+
+export type DiagnosticCheck =
+  | 'reachability'
+  | 'rest_api'
+  | 'authentication'
+  | 'capabilities'
+  | 'media_upload'
+  | 'seo_plugin'
+  | 'wordpress_version'
+
+export interface DiagnosticResult {
+  check: DiagnosticCheck
+  status: 'pass' | 'warn' | 'fail' | 'skipped'
+  message: string
+  hint?: string // What the site owner can do about a warning or failure
+}
+
+// Stored on the site by every connection test
+export interface WordPressDiagnostics {
+  checks: DiagnosticResult[]
+  wordpressVersion: string | null
+  checkedAt: string
+}
+
+export interface ConnectionTestResult {
+  connected: boolean
+  seo: SeoPluginDetection | null // Null when the connection failed
+  diagnostics: WordPressDiagnostics
+}
+
+export interface WordPressPost {
+  title: string
+  content: string
+  excerpt: string
+  status: 'draft' | 'publish' | 'future'
+  tags: string[]
+  tagPolicy?: TagPolicy // Defaults to 'allow_new'
+  categories: string[] // Category names, found or created; ignored when categoryIds is set
+  categoryIds?: number[] // Existing WordPress categories chosen for the schedule
+  metaDescription?: string
+  seoTitle?: string
+  focusKeyword?: string
+  canonicalUrl?: string // Set on copies of a post that was first published on another site
+  scheduledDate?: string // ISO timestamp, required for 'future' posts
+  featuredImage?: {
+    id?: string
+    url: string
+    altText: string
+    attribution: string
+    attributionHtml?: string
+    downloadLocation?: string
+  }
+  featuredMediaId?: number | null // Media already uploaded for this post by an earlier attempt, reused if it still exists
+  publishSettings?: PublishSettings // Overrides the site's publish settings
+  createdAfter?: string // ISO timestamp before any attempt; set on retries to look for a post an interrupted attempt created
+}
+
+export interface WordPressResponse {
+  success: boolean
+  postId?: number
+  postUrl?: string
+  error?: string
+  statusCode?: number
+  retryable?: boolean // Whether a later attempt could succeed (timeouts, 5xx, 429)
+  featuredMediaId?: number // Set whenever the featured image is on WordPress, even if the post itself failed
+  postType?: string // REST base the post was created under, needed to find it again
+}
+
+// A category or tag of the site
+export interface WordPressTerm {
+  id: number
+  name: string
+  slug: string
+  parent: number // Parent category, 0 for top level categories and all tags
+  count: number // Published posts using the term
+}
+
+export interface WordPressTermListResponse extends WordPressResponse {
+  terms?: WordPressTerm[]
+}
+
+// A post type that can be created over REST, with the fields its create endpoint accepts
+export interface WordPressPostType {
+  slug: string
+  name: string
+  restBase: string
+  formats: string[] // Empty when the type has no post formats
+  supportsAuthor: boolean
+  supportsComments: boolean
+  supportsSticky: boolean
+  taxonomies: string[] // e.g. 'category' and 'post_tag'
+}
+
+export interface WordPressAuthor {
+  id: number
+  name: string
+}
+
+export interface PublishOptionsResponse extends WordPressResponse {
+  postTypes?: WordPressPostType[]
+  authors?: WordPressAuthor[]
+}
+
+// Raw (unrendered) copy of a post as stored on WordPress
+export interface WordPressRemotePost {
+  id: number
+  status: string
+  link: string
+  date: string // Publish date in UTC, the scheduled date while the post is 'future'
+  modified: string // Last change in UTC
+  title: string
+  content: string
+  excerpt: string
+}
+
+export interface WordPressPostResponse extends WordPressResponse {
+  post?: WordPressRemotePost
+}
+
+// Published post as listed for internal linking
+export interface WordPressPostSummary {
+  id: number
+  title: string
+  link: string
+  slug: string
+}
+
+export interface WordPressPostListResponse extends WordPressResponse {
+  posts?: WordPressPostSummary[]
+}
+
+const PUBLISH_TIMEOUT_MS = 30000
+
+// Timeouts and rate limits or server errors are worth retrying; auth and payload errors are not
+export function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+// Fingerprint of the fields LemmeWrite edits. Must match hashPostContent in src/lib/wordpress.ts.
+// Whitespace is collapsed so WordPress reformatting does not count as a change.
+export async function hashPostContent(post: { title: string; content: string; excerpt: string }): Promise<string> {
+  const normalized = [post.title, post.content, post.excerpt]
+    .map(value => (value || '').replace(/\s+/g, ' ').trim())
+    .join('\n')
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized))
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export class WordPressService {
+  async publishPost(site: WordPressSite, post: WordPressPost): Promise<WordPressResponse> {
+    let featuredMediaId: number | undefined
+
+    try {
+      console.log('Publishing to WordPress:', { site: site.name, title: post.title })
+      
+      const settings: PublishSettings = { ...site.publish_settings, ...post.publishSettings }
+      const postType = settings.postType || 'posts'
+      const auth = btoa(`${site.username}:${site.password}`)
+      const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/${postType}`
+
+      // A request that timed out may still have created the post, so a retry adopts it instead of posting twice
+      if (post.createdAfter) {
+        const existing = await this.findEarlierAttempt(site, postType, post.title, post.createdAfter)
+        if (existing) {
+          console.log('Found the post created by an earlier attempt:', { id: existing.id, link: existing.link })
+          await this.writeRankMathMeta(site, existing.id, post)
+          return {
+            success: true,
+            postId: existing.id,
+            postUrl: existing.link,
+            featuredMediaId: post.featuredMediaId ?? undefined,
+            postType
+          }
+        }
+      }
+
+      // Other post types may not have categories or tags, so terms are only resolved for the ones they have
+      const taxonomies = postType === 'posts' ? null : await this.postTypeTaxonomies(site, postType)
+      const hasCategories = !taxonomies || taxonomies.includes('category')
+      const hasTags = !taxonomies || taxonomies.includes('post_tag')
+
+      // Use the schedule's categories, otherwise find or create the named ones. Tags follow the tag policy.
+      const categoryIds = !hasCategories
+        ? []
+        : post.categoryIds?.length
+          ? post.categoryIds
+          : await this.getOrCreateCategories(site, post.categories)
+      const tagIds = hasTags ? await this.resolveTags(site, post.tags, post.tagPolicy) : []
+
+      // Handle featured image if provided, reusing the one uploaded by an earlier attempt
+      if (post.featuredMediaId && await this.mediaExists(site, post.featuredMediaId)) {
+        featuredMediaId = post.featuredMediaId
+      } else if (post.featuredImage) {
+        try {
+          featuredMediaId = await this.uploadFeaturedImage(site, post.featuredImage, post.title)
+          console.log('Featured image uploaded with ID:', featuredMediaId)
+          await trackUnsplashDownload(post.featuredImage.downloadLocation)
+        } catch (imageError) {
+          console.warn('Failed to upload featured image:', imageError)
+          // Continue without featured image
+        }
+      }
+
+      const postData: Record<string, unknown> = {
+        title: post.title,
+        content: post.content,
+        excerpt: post.excerpt,
+        status: post.status,
+        ...(hasCategories && { categories: categoryIds }),
+        ...(hasTags && { tags: tagIds }),
+        ...(featuredMediaId && { featured_media: featuredMediaId }),
+        ...publishSettingsFields(settings, postType),
+        ...yoastMeta(site, post)
+      }
+
+      // If scheduled, add date. Sent as date_gmt because `date` is read in the site's own timezone.
+      if (post.status === 'future' && post.scheduledDate) {
+        postData.date_gmt = new Date(post.scheduledDate).toISOString().slice(0, 19)
+      }
+
+      console.log('Sending post data to WordPress:', postData)
+
+      const response = await fetchSiteUrl(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Basic ${auth}`
+        },
+        body: JSON.stringify(postData),
+        signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('WordPress API error:', errorData)
+        return {
+          success: false,
+          error: errorData.message || `HTTP ${response.status}`,
+          statusCode: response.status,
+          retryable: isTransientStatus(response.status),
+          featuredMediaId
+        }
+      }
+
+      const result = await response.json()
+      console.log('WordPress publish success:', { id: result.id, link: result.link })
+      await this.writeRankMathMeta(site, result.id, post)
+      
+      return {
+        success: true,
+        postId: result.id,
+        postUrl: result.link,
+        featuredMediaId,
+        postType
+      }
+    } catch (error) {
+      // WordPress may have created the post before the request failed or timed out. The failure is recorded,
+      // so the retry is sent with createdAfter and finds that post first.
+      console.error('WordPress publish error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        retryable: true,
+        featuredMediaId
+      }
+    }
+  }
+
+  // Pushes local edits to a post that already exists on WordPress
+  async updatePost(
+    site: WordPressSite,
+    wordpressPostId: number,
+    post: Partial<WordPressPost>,
+    postType = 'posts'
+  ): Promise<WordPressResponse> {
+    try {
+      console.log('Updating WordPress post:', { site: site.name, wordpressPostId })
+
+      const auth = btoa(`${site.username}:${site.password}`)
+      const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/${postType}/${wordpressPostId}`
+
+      const postData: Record<string, unknown> = {
+        ...(post.title !== undefined && { title: post.title }),
+        ...(post.content !== undefined && { content: post.content }),
+        ...(post.excerpt !== undefined && { excerpt: post.excerpt }),
+        ...(post.status && { status: post.status }),
+        ...yoastMeta(site, post)
+      }
+
+      if (post.tags && post.tagPolicy !== 'none') {
+        postData.tags = await this.resolveTags(site, post.tags, post.tagPolicy)
+      }
+      if (post.categoryIds?.length) {
+        postData.categories = post.categoryIds
+      } else if (post.categories) {
+        postData.categories = await this.getOrCreateCategories(site, post.categories)
+      }
+
+      const response = await fetchSiteUrl(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Basic ${auth}`
+        },
+        body: JSON.stringify(postData),
+        signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('WordPress API error:', errorData)
+        return {
+          success: false,
+          error: errorData.message || `HTTP ${response.status}`,
+          statusCode: response.status,
+          retryable: isTransientStatus(response.status)
+        }
+      }
+
+      const result = await response.json()
+      console.log('WordPress update success:', { id: result.id, link: result.link })
+      await this.writeRankMathMeta(site, result.id, post)
+
+      return {
+        success: true,
+        postId: result.id,
+        postUrl: result.link
+      }
+    } catch (error) {
+      console.error('WordPress update error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        retryable: true
+      }
+    }
+  }
+
+  // Fetches the raw post so it can be compared with the local copy
+  async getPost(site: WordPressSite, wordpressPostId: number, postType = 'posts'): Promise<WordPressPostResponse> {
+    try {
+      const auth = btoa(`${site.username}:${site.password}`)
+      const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/${postType}/${wordpressPostId}?context=edit`
+
+      const response = await fetchSiteUrl(apiUrl, {
+        headers: {
+          'Authorization': `Basic ${auth}`
+        },
+        signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        return {
+          success: false,
+          error: errorData.message || `HTTP ${response.status}`,
+          statusCode: response.status,
+          retryable: isTransientStatus(response.status)
+        }
+      }
+
+      const result = await response.json()
+
+      return {
+        success: true,
+        postId: result.id,
+        postUrl: result.link,
+        post: {
+          id: result.id,
+          status: result.status,
+          link: result.link,
+          date: result.date_gmt ? `${result.date_gmt}Z` : result.date,
+          modified: result.modified_gmt ? `${result.modified_gmt}Z` : result.modified,
+          title: result.title?.raw ?? '',
+          content: result.content?.raw ?? '',
+          excerpt: result.excerpt?.raw ?? ''
+        }
+      }
+    } catch (error) {
+      console.error('WordPress fetch error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        retryable: true
+      }
+    }
+  }
+
+  // Lists the site's published posts, newest first, up to `maxPosts`
+  async listPublishedPosts(site: WordPressSite, maxPosts = 500): Promise<WordPressPostListResponse> {
+    try {
+      const auth = btoa(`${site.username}:${site.password}`)
+      const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/posts`
+      const posts: WordPressPostSummary[] = []
+
+      for (let page = 1; posts.length < maxPosts; page++) {
+        const response = await fetchSiteUrl(`${apiUrl}?status=publish&per_page=100&page=${page}&orderby=date&order=desc&_fields=id,title,link,slug`, {
+          headers: {
+            'Authorization': `Basic ${auth}`
+          },
+          signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+        })
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          return {
+            success: false,
+            error: errorData.message || `HTTP ${response.status}`,
+            statusCode: response.status,
+            retryable: isTransientStatus(response.status)
+          }
+        }
+
+        const results = await response.json()
+        posts.push(...results.map((result: { id: number; title?: { rendered?: string }; link: string; slug: string }) => ({
+          id: result.id,
+          title: decodeEntities(result.title?.rendered ?? ''),
+          link: result.link,
+          slug: result.slug
+        })))
+
+        const totalPages = Number(response.headers.get('X-WP-TotalPages') || 1)
+        if (page >= totalPages || !results.length) break
+      }
+
+      return { success: true, posts: posts.slice(0, maxPosts) }
+    } catch (error) {
+      console.error('WordPress list error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        retryable: true
+      }
+    }
+  }
+
+  // All categories or tags of the site, most used first
+  async listTerms(site: WordPressSite, taxonomy: 'categories' | 'tags', maxTerms = 1000): Promise<WordPressTermListResponse> {
+    try {
+      const auth = btoa(`${site.username}:${site.password}`)
+      const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/${taxonomy}`
+      const terms: WordPressTerm[] = []
+
+      for (let page = 1; terms.length < maxTerms; page++) {
+        const response = await fetchSiteUrl(`${apiUrl}?per_page=100&page=${page}&orderby=count&order=desc&hide_empty=false&_fields=id,name,slug,parent,count`, {
+          headers: {
+            'Authorization': `Basic ${auth}`
+          },
+          signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+        })
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          return {
+            success: false,
+            error: errorData.message || `HTTP ${response.status}`,
+            statusCode: response.status,
+            retryable: isTransientStatus(response.status)
+          }
+        }
+
+        const results = await response.json()
+        terms.push(...results.map((result: { id: number; name: string; slug: string; parent?: number; count?: number }) => ({
+          id: result.id,
+          name: decodeEntities(result.name),
+          slug: result.slug,
+          parent: result.parent ?? 0,
+          count: result.count ?? 0
+        })))
+
+        const totalPages = Number(response.headers.get('X-WP-TotalPages') || 1)
+        if (page >= totalPages || !results.length) break
+      }
+
+      return { success: true, terms: terms.slice(0, maxTerms) }
+    } catch (error) {
+      console.error('WordPress term list error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        retryable: true
+      }
+    }
+  }
+
+  // Moves a post to the WordPress trash, where it can still be restored from wp-admin
+  async trashPost(site: WordPressSite, wordpressPostId: number, postType = 'posts'): Promise<WordPressResponse> {
+    try {
+      console.log('Trashing WordPress post:', { site: site.name, wordpressPostId })
+
+      const auth = btoa(`${site.username}:${site.password}`)
+      const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/${postType}/${wordpressPostId}`
+
+      const response = await fetchSiteUrl(apiUrl, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Basic ${auth}`
+        },
+        signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+      })
+
+      // 404 means the post was deleted on WordPress, 410 means it is already in the trash
+      if (response.status === 404 || response.status === 410) {
+        return { success: true, postId: wordpressPostId, statusCode: response.status }
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('WordPress API error:', errorData)
+        return {
+          success: false,
+          error: errorData.message || `HTTP ${response.status}`,
+          statusCode: response.status,
+          retryable: isTransientStatus(response.status)
+        }
+      }
+
+      return {
+        success: true,
+        postId: wordpressPostId
+      }
+    } catch (error) {
+      console.error('WordPress trash error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        retryable: true
+      }
+    }
+  }
+
+  // Post types, post formats and authors the site offers. Each type's options come from the arguments its
+  // create endpoint lists in the REST index, so only fields WordPress accepts for that type are offered.
+  async getPublishOptions(site: WordPressSite): Promise<PublishOptionsResponse> {
+    try {
+      const auth = btoa(`${site.username}:${site.password}`)
+      const baseUrl = `${site.url.replace(/\/$/, '')}/wp-json`
+      const headers = { 'Authorization': `Basic ${auth}` }
+
+      const [indexResponse, typesResponse, usersResponse] = await Promise.all([
+        fetchSiteUrl(`${baseUrl}/`, { headers, signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS) }),
+        fetchSiteUrl(`${baseUrl}/wp/v2/types?context=edit`, { headers, signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS) }),
+        fetchSiteUrl(`${baseUrl}/wp/v2/users?who=authors&per_page=100&_fields=id,name`, { headers, signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS) })
+      ])
+
+      for (const response of [indexResponse, typesResponse]) {
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          return {
+            success: false,
+            error: errorData.message || `HTTP ${response.status}`,
+            statusCode: response.status,
+            retryable: isTransientStatus(response.status)
+          }
+        }
+      }
+
+      const index = await indexResponse.json()
+      const types: Record<string, RestPostType> = await typesResponse.json()
+      const routes: Record<string, RestRoute> = index.routes ?? {}
+
+      const postTypes: WordPressPostType[] = []
+      for (const type of Object.values(types)) {
+        if (!type.rest_base || !isPublishableType(type)) continue
+
+        const create = routes[`/wp/v2/${type.rest_base}`]?.endpoints?.find(endpoint => endpoint.methods.includes('POST'))
+        if (!create) continue
+
+        const args = create.args ?? {}
+        postTypes.push({
+          slug: type.slug,
+          name: decodeEntities(type.name),
+          restBase: type.rest_base,
+          formats: args.format?.enum ?? [],
+          supportsAuthor: 'author' in args,
+          supportsComments: 'comment_status' in args,
+          supportsSticky: 'sticky' in args,
+          taxonomies: type.taxonomies ?? []
+        })
+      }
+
+      // Listing authors needs more than publishing does, so without them posts keep the connected user as author
+      const authors: WordPressAuthor[] = usersResponse.ok
+        ? (await usersResponse.json()).map((user: { id: number; name: string }) => ({ id: user.id, name: decodeEntities(user.name) }))
+        : []
+
+      return { success: true, postTypes, authors }
+    } catch (error) {
+      console.error('WordPress publish options error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        retryable: true
+      }
+    }
+  }
+
+  // Works through the site from the outside in, so a failure names the first thing that is wrong:
+  // reachability, REST API, credentials, the user's capabilities, then the SEO plugin and WordPress version
+  async testConnection(site: WordPressSite): Promise<ConnectionTestResult> {
+    console.log('Testing WordPress connection:', site.name)
+    const baseUrl = site.url.replace(/\/$/, '')
+    const auth = btoa(`${site.username}:${site.password}`)
+    const checks: DiagnosticResult[] = []
+    const finish = (connected: boolean, seo: SeoPluginDetection | null, wordpressVersion: string | null = null) => {
+      console.log('WordPress connection test result:', connected)
+      return { connected, seo, diagnostics: { checks, wordpressVersion, checkedAt: new Date().toISOString() } }
+    }
+    const skipRemaining = (from: DiagnosticCheck[], message: string) => {
+      checks.push(...from.map(check => ({ check, status: 'skipped' as const, message })))
+    }
+
+    const home = await probe(baseUrl)
+    if (!home.response) {
+      checks.push({
+        check: 'reachability',
+        status: 'fail',
+        message: `The site could not be reached: ${home.error}`,
+        hint: 'Check the site URL, including https://, and that the site is online and not behind a maintenance page.'
+      })
+      skipRemaining(['rest_api', 'authentication', 'capabilities', 'media_upload', 'seo_plugin', 'wordpress_version'], 'Skipped, the site is unreachable')
+      return finish(false, null)
+    }
+    checks.push(home.response.ok
+      ? { check: 'reachability', status: 'pass', message: `The site responded with HTTP ${home.response.status}` }
+      : {
+        check: 'reachability',
+        status: 'warn',
+        message: `The home page responded with HTTP ${home.response.status}`,
+        hint: 'The site is online, but its home page returns an error. Publishing can still work if the REST API answers.'
+      })
+
+    const index = await probe(`${baseUrl}/wp-json/`)
+    checks.push(restApiResult(index))
+
+    const me = await probe(`${baseUrl}/wp-json/wp/v2/users/me?context=edit`, auth)
+    const user = me.response?.ok ? me.json as { name?: string; capabilities?: Record<string, boolean> } | null : null
+    checks.push(user
+      ? { check: 'authentication', status: 'pass', message: `Signed in as ${user.name || site.username}` }
+      : authenticationResult(me))
+
+    const wordpressVersion = generatorVersion(home.body) ?? generatorVersion((await probe(`${baseUrl}/feed/`)).body)
+
+    if (!user) {
+      skipRemaining(['capabilities', 'media_upload', 'seo_plugin'], 'Skipped, WordPress did not accept the credentials')
+      checks.push(versionResult(wordpressVersion))
+      return finish(false, null, wordpressVersion)
+    }
+
+    checks.push(...capabilityResults(user.capabilities ?? {}))
+
+    const seo = await this.detectSeoPlugin(site)
+    checks.push({
+      check: 'seo_plugin',
+      status: seo.fieldsWritable ? 'pass' : 'warn',
+      message: seo.plugin === 'rank_math' ? 'Rank Math' : seo.plugin === 'yoast' ? 'Yoast SEO' : 'No supported SEO plugin found',
+      ...(seo.warning && { hint: seo.warning })
+    })
+    checks.push(versionResult(wordpressVersion))
+
+    return finish(true, seo, wordpressVersion)
+  }
+
+  // Yoast fields are only writable when the site registers them for REST, WordPress silently drops
+  // unregistered meta. Rank Math has its own endpoint for them.
+  async detectSeoPlugin(site: WordPressSite): Promise<SeoPluginDetection> {
+    const auth = btoa(`${site.username}:${site.password}`)
+    const baseUrl = `${site.url.replace(/\/$/, '')}/wp-json`
+
+    try {
+      const indexResponse = await fetchSiteUrl(`${baseUrl}/`, {
+        headers: { 'Authorization': `Basic ${auth}` },
+        signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+      })
+      const index = indexResponse.ok ? await indexResponse.json() : {}
+      const namespaces: string[] = Array.isArray(index.namespaces) ? index.namespaces : []
+
+      if (namespaces.includes('rankmath/v1')) {
+        return { plugin: 'rank_math', fieldsWritable: true }
+      }
+
+      if (namespaces.includes('yoast/v1')) {
+        const schemaResponse = await fetchSiteUrl(`${baseUrl}/wp/v2/posts`, {
+          method: 'OPTIONS',
+          headers: { 'Authorization': `Basic ${auth}` },
+          signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+        })
+        const schema = schemaResponse.ok ? await schemaResponse.json() : {}
+        const metaKeys = Object.keys(schema.schema?.properties?.meta?.properties ?? {})
+
+        return metaKeys.includes(YOAST_FIELDS.metaDescription)
+          ? { plugin: 'yoast', fieldsWritable: true }
+          : {
+            plugin: 'yoast',
+            fieldsWritable: false,
+            warning: 'Yoast SEO is installed but its fields are not exposed to the REST API, so meta descriptions, SEO titles and focus keywords cannot be set. Register the _yoast_wpseo_* post meta with show_in_rest to enable them.'
+          }
+      }
+
+      return {
+        plugin: 'none',
+        fieldsWritable: false,
+        warning: 'Neither Yoast SEO nor Rank Math was found through the REST API, so meta descriptions, SEO titles and focus keywords are not sent to this site.'
+      }
+    } catch (error) {
+      console.warn('SEO plugin detection failed:', error)
+      return {
+        plugin: 'none',
+        fieldsWritable: false,
+        warning: 'The SEO plugin could not be detected. Test the connection again to retry.'
+      }
+    }
+  }
+
+  // Rank Math keeps its fields behind its own endpoint. A failure here never fails the publish.
+  private async writeRankMathMeta(site: WordPressSite, wordpressPostId: number, post: Partial<WordPressPost>) {
+    if (site.seo_plugin !== 'rank_math' || !site.seo_fields_writable) return
+
+    const meta = seoFieldValues(RANK_MATH_FIELDS, post)
+    if (!Object.keys(meta).length) return
+
+    try {
+      const auth = btoa(`${site.username}:${site.password}`)
+      const response = await fetchSiteUrl(`${site.url.replace(/\/$/, '')}/wp-json/rankmath/v1/updateMeta`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Basic ${auth}`
+        },
+        body: JSON.stringify({ objectType: 'post', objectID: wordpressPostId, meta }),
+        signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+      })
+
+      if (!response.ok) {
+        console.warn('Rank Math meta update failed:', response.status, await response.text().catch(() => ''))
+      }
+    } catch (error) {
+      console.warn('Rank Math meta update failed:', error)
+    }
+  }
+
+  // Post of this type titled exactly `title` that was created since `since`, in any state but trash.
+  // Throws when the site cannot be searched, posting again could then create a duplicate.
+  private async findEarlierAttempt(
+    site: WordPressSite,
+    postType: string,
+    title: string,
+    since: string
+  ): Promise<{ id: number; link: string } | null> {
+    const auth = btoa(`${site.username}:${site.password}`)
+    // `after` is compared with the post date in the site's timezone, a day of slack covers any offset
+    const params = new URLSearchParams({
+      search: title,
+      after: new Date(new Date(since).getTime() - 24 * 60 * 60 * 1000).toISOString(),
+      status: 'publish,future,draft,pending,private',
+      context: 'edit',
+      per_page: '20',
+      _fields: 'id,link,title'
+    })
+    const response = await fetchSiteUrl(`${site.url.replace(/\/$/, '')}/wp-json/wp/v2/${postType}?${params}`, {
+      headers: { 'Authorization': `Basic ${auth}` },
+      signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Could not check for a post created by an earlier attempt: HTTP ${response.status}`)
+    }
+
+    const posts: { id: number; link: string; title: { raw: string } }[] = await response.json()
+    return posts.find(candidate => candidate.title.raw === title) ?? null
+  }
+
+  private async mediaExists(site: WordPressSite, mediaId: number): Promise<boolean> {
+    try {
+      const auth = btoa(`${site.username}:${site.password}`)
+      const response = await fetchSiteUrl(`${site.url.replace(/\/$/, '')}/wp-json/wp/v2/media/${mediaId}?_fields=id`, {
+        headers: { 'Authorization': `Basic ${auth}` },
+        signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+      })
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+
+  private async uploadFeaturedImage(
+    site: WordPressSite, 
+    image: NonNullable<WordPressPost['featuredImage']>,
+    postTitle: string
+  ): Promise<number> {
+    try {
+      const auth = btoa(`${site.username}:${site.password}`)
+      const mediaUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/media`
+
+      // Download image from Unsplash. The URL is stored with the post, so nothing else is fetched.
+      const imageUrl = new URL(image.url)
+      if (imageUrl.protocol !== 'https:' || imageUrl.hostname !== 'images.unsplash.com') {
+        throw new Error('Featured images must be hosted on images.unsplash.com')
+      }
+      const imageResponse = await fetch(imageUrl, { redirect: 'error' })
+      if (!imageResponse.ok) {
+        throw new Error(`Failed to download image: ${imageResponse.status}`)
+      }
+
+      const imageBlob = await imageResponse.blob()
+      const fileName = `featured-image-${Date.now()}.jpg`
+
+      // Create form data for WordPress media upload
+      const formData = new FormData()
+      formData.append('file', imageBlob, fileName)
+      formData.append('title', `Featured image for: ${postTitle}`)
+      formData.append('alt_text', image.altText)
+      // The linked credit when there is one, images stored before it existed only have the plain text
+      formData.append('caption', image.attributionHtml ?? image.attribution)
+
+      // Upload to WordPress
+      const uploadResponse = await fetchSiteUrl(mediaUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${auth}`
+        },
+        body: formData
+      })
+
+      if (!uploadResponse.ok) {
+        const errorData = await uploadResponse.json()
+        throw new Error(errorData.message || `Upload failed: ${uploadResponse.status}`)
+      }
+
+      const mediaData = await uploadResponse.json()
+      return mediaData.id
+    } catch (error) {
+      console.error('Error uploading featured image:', error)
+      throw error
+    }
+  }
+
+  // Taxonomies of the post type with this REST base, or null when they could not be read
+  private async postTypeTaxonomies(site: WordPressSite, restBase: string): Promise<string[] | null> {
+    try {
+      const auth = btoa(`${site.username}:${site.password}`)
+      const response = await fetchSiteUrl(`${site.url.replace(/\/$/, '')}/wp-json/wp/v2/types`, {
+        headers: { 'Authorization': `Basic ${auth}` },
+        signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS)
+      })
+      if (!response.ok) return null
+
+      const types: Record<string, RestPostType> = await response.json()
+      return Object.values(types).find(type => type.rest_base === restBase)?.taxonomies ?? null
+    } catch (error) {
+      console.warn('Failed to read post type taxonomies:', error)
+      return null
+    }
+  }
+
+  private async getOrCreateCategories(site: WordPressSite, categories: string[]): Promise<number[]> {
+    if (!categories.length) return []
+
+    const auth = btoa(`${site.username}:${site.password}`)
+    const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/categories`
+    const categoryIds: number[] = []
+
+    for (const categoryName of categories) {
+      try {
+        // First, try to find existing category
+        const searchResponse = await fetchSiteUrl(`${apiUrl}?search=${encodeURIComponent(categoryName)}`, {
+          headers: { 'Authorization': `Basic ${auth}` }
+        })
+
+        if (searchResponse.ok) {
+          const existingCategories = await searchResponse.json()
+          const existingCategory = existingCategories.find(
+            (cat: any) => cat.name.toLowerCase() === categoryName.toLowerCase()
+          )
+
+          if (existingCategory) {
+            categoryIds.push(existingCategory.id)
+            continue
+          }
+        }
+
+        // Create new category if not found
+        const createResponse = await fetchSiteUrl(apiUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Basic ${auth}`
+          },
+          body: JSON.stringify({ name: categoryName })
+        })
+
+        if (createResponse.ok) {
+          const newCategory = await createResponse.json()
+          categoryIds.push(newCategory.id)
+        }
+      } catch (error) {
+        console.warn(`Failed to handle category "${categoryName}":`, error)
+      }
+    }
+
+    return categoryIds
+  }
+
+  // Maps the model's tags onto the site's existing tags, allowing for case, punctuation, plurals and typos.
+  // Tags without a match are only created when the policy allows new tags.
+  private async resolveTags(site: WordPressSite, tags: string[], policy: TagPolicy = 'allow_new'): Promise<number[]> {
+    if (!tags.length || policy === 'none') return []
+
+    const existing = await this.listTerms(site, 'tags')
+    if (!existing.success) {
+      console.warn('Failed to load existing tags, only creating new ones if allowed:', existing.error)
+    }
+    const terms = existing.terms ?? []
+
+    const auth = btoa(`${site.username}:${site.password}`)
+    const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/tags`
+    const tagIds = new Set<number>()
+
+    for (const tagName of tags) {
+      const match = findMatchingTerm(tagName, terms)
+      if (match) {
+        tagIds.add(match.id)
+        continue
+      }
+      if (policy !== 'allow_new') continue
+
+      try {
+        const createResponse = await fetchSiteUrl(apiUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Basic ${auth}`
+          },
+          body: JSON.stringify({ name: tagName })
+        })
+        const result = await createResponse.json().catch(() => ({}))
+
+        if (createResponse.ok) {
+          tagIds.add(result.id)
+          terms.push({ id: result.id, name: tagName, slug: result.slug ?? '', parent: 0, count: 0 })
+        } else if (result.code === 'term_exists' && result.data?.term_id) {
+          // Created since the list was loaded, or missing from it
+          tagIds.add(result.data.term_id)
+        }
+      } catch (error) {
+        console.warn(`Failed to handle tag "${tagName}":`, error)
+      }
+    }
+
+    return Array.from(tagIds)
+  }
+}
+
+export const wordPressService = new WordPressService()
+
+const DIAGNOSTIC_TIMEOUT_MS = 15000
+// Application passwords were added to core in 5.6
+const MIN_WORDPRESS_VERSION = [5, 6]
+
+interface ProbeResult {
+  response?: Response
+  body: string
+  json: unknown
+  error?: string
+}
+
+// A request that never throws, for diagnostics
+async function probe(url: string, auth?: string): Promise<ProbeResult> {
+  try {
+    const response = await fetchSiteUrl(url, {
+      headers: auth ? { 'Authorization': `Basic ${auth}` } : {},
+      signal: AbortSignal.timeout(DIAGNOSTIC_TIMEOUT_MS)
+    })
+    const body = await response.text()
+    let json: unknown = null
+    try {
+      json = JSON.parse(body)
+    } catch {
+      // Not JSON, callers check for that
+    }
+    return { response, body, json }
+  } catch (error) {
+    return { body: '', json: null, error: error instanceof Error ? error.message : 'Request failed' }
+  }
+}
+
+function restApiResult(index: ProbeResult): DiagnosticResult {
+  const namespaces = (index.json as { namespaces?: unknown } | null)?.namespaces
+  if (index.response?.ok && Array.isArray(namespaces) && namespaces.includes('wp/v2')) {
+    return { check: 'rest_api', status: 'pass', message: 'The REST API is available at /wp-json' }
+  }
+
+  const status = index.response?.status
+  if (status === 401 || status === 403) {
+    return {
+      check: 'rest_api',
+      status: 'fail',
+      message: `Requests to /wp-json are blocked (HTTP ${status})`,
+      hint: 'A security plugin such as Wordfence, iThemes Security or Disable REST API, or the host\'s firewall, is blocking the REST API. Allow /wp-json for authenticated users.'
+    }
+  }
+  if (index.response?.ok && index.json === null) {
+    return {
+      check: 'rest_api',
+      status: 'fail',
+      message: '/wp-json returned a web page instead of the REST API',
+      hint: 'A caching, maintenance or security plugin is answering REST requests with HTML. Exclude /wp-json from it.'
+    }
+  }
+  return {
+    check: 'rest_api',
+    status: 'fail',
+    message: index.response ? `/wp-json responded with HTTP ${status}` : `/wp-json could not be reached: ${index.error}`,
+    hint: 'Enable pretty permalinks under Settings → Permalinks, and check that no plugin disables the REST API.'
+  }
+}
+
+function authenticationResult(me: ProbeResult): DiagnosticResult {
+  const code = (me.json as { code?: string } | null)?.code
+  switch (code) {
+    case 'incorrect_password':
+    case 'invalid_username':
+    case 'invalid_email':
+      return {
+        check: 'authentication',
+        status: 'fail',
+        message: 'WordPress rejected the username or application password',
+        hint: 'Create a new application password under Users → Profile and rotate the credentials. Use the login username, and the application password rather than the account password.'
+      }
+    case 'application_passwords_disabled':
+      return {
+        check: 'authentication',
+        status: 'fail',
+        message: 'Application passwords are disabled on this site',
+        hint: 'WordPress only offers application passwords over HTTPS, and some security plugins turn them off. Enable them and create a new one.'
+      }
+    case 'rest_not_logged_in':
+      return {
+        check: 'authentication',
+        status: 'fail',
+        message: 'WordPress did not receive the credentials',
+        hint: 'The server strips the Authorization header. On Apache, add `SetEnvIf Authorization "(.*)" HTTP_AUTHORIZATION=$1` to .htaccess, or ask the host to pass the header to PHP.'
+      }
+  }
+  return {
+    check: 'authentication',
+    status: 'fail',
+    message: me.response
+      ? `Signing in failed with HTTP ${me.response.status}${code ? ` (${code})` : ''}`
+      : `Signing in failed: ${me.error}`,
+    hint: 'Test the connection again, and rotate the credentials if it keeps failing.'
+  }
+}
+
+function capabilityResults(capabilities: Record<string, boolean>): DiagnosticResult[] {
+  const missing = ['edit_posts', 'publish_posts', 'edit_published_posts'].filter(capability => !capabilities[capability])
+  const roleHint = 'Give the WordPress user the Author, Editor or Administrator role.'
+
+  return [
+    missing.length
+      ? {
+        check: 'capabilities',
+        status: 'fail',
+        message: `The user cannot publish posts (missing ${missing.join(', ')})`,
+        hint: roleHint
+      }
+      : capabilities.manage_categories
+        ? { check: 'capabilities', status: 'pass', message: 'The user can publish posts and create categories' }
+        : {
+          check: 'capabilities',
+          status: 'warn',
+          message: 'The user can publish posts but cannot create new categories',
+          hint: 'Posts can only use existing categories. Give the user the Editor role to let new ones be created.'
+        },
+    capabilities.upload_files
+      ? { check: 'media_upload', status: 'pass', message: 'The user can upload media' }
+      : {
+        check: 'media_upload',
+        status: 'fail',
+        message: 'The user cannot upload media, so posts are published without featured images',
+        hint: roleHint
+      }
+  ]
+}
+
+// The version from the generator tag of the home page or feed, which some security plugins remove
+function generatorVersion(html: string): string | null {
+  return html.match(/<meta[^>]+name=["']generator["'][^>]+content=["']WordPress\s+([\d.]+)/i)?.[1]
+    ?? html.match(/<generator>https?:\/\/wordpress\.org\/\?v=([\d.]+)<\/generator>/i)?.[1]
+    ?? null
+}
+
+function versionResult(version: string | null): DiagnosticResult {
+  if (!version) {
+    return {
+      check: 'wordpress_version',
+      status: 'warn',
+      message: 'The WordPress version is hidden',
+      hint: 'Usually harmless, security plugins often remove it. Application passwords need WordPress 5.6 or later.'
+    }
+  }
+
+  const [major, minor = 0] = version.split('.').map(Number)
+  const supported = major > MIN_WORDPRESS_VERSION[0] || (major === MIN_WORDPRESS_VERSION[0] && minor >= MIN_WORDPRESS_VERSION[1])
+  return supported
+    ? { check: 'wordpress_version', status: 'pass', message: `WordPress ${version}` }
+    : {
+      check: 'wordpress_version',
+      status: 'fail',
+      message: `WordPress ${version} is too old for application passwords`,
+      hint: 'Update WordPress to 5.6 or later.'
+    }
+}
+
+const YOAST_FIELDS = {
+  metaDescription: '_yoast_wpseo_metadesc',
+  seoTitle: '_yoast_wpseo_title',
+  focusKeyword: '_yoast_wpseo_focuskw',
+  canonicalUrl: '_yoast_wpseo_canonical'
+} as const
+
+const RANK_MATH_FIELDS = {
+  metaDescription: 'rank_math_description',
+  seoTitle: 'rank_math_title',
+  focusKeyword: 'rank_math_focus_keyword',
+  canonicalUrl: 'rank_math_canonical_url'
+} as const
+
+function seoFieldValues(fields: Record<keyof typeof YOAST_FIELDS, string>, post: Partial<WordPressPost>): Record<string, string> {
+  const meta: Record<string, string> = {}
+  for (const key of Object.keys(fields) as (keyof typeof YOAST_FIELDS)[]) {
+    const value = post[key]?.trim()
+    if (value) {
+      meta[fields[key]] = value
+    }
+  }
+  return meta
+}
+
+// Yoast fields go in the post's own meta, but only on sites that expose them
+function yoastMeta(site: WordPressSite, post: Partial<WordPressPost>): { meta?: Record<string, string> } {
+  if (site.seo_plugin !== 'yoast' || !site.seo_fields_writable) return {}
+
+  const meta = seoFieldValues(YOAST_FIELDS, post)
+  return Object.keys(meta).length ? { meta } : {}
+}
+
+// Post type as listed by /wp/v2/types
+interface RestPostType {
+  slug: string
+  name: string
+  rest_base?: string
+  taxonomies?: string[]
+  viewable?: boolean // Only in the edit context
+}
+
+// Route of the REST index with the arguments each of its endpoints accepts
+interface RestRoute {
+  endpoints?: { methods: string[]; args?: Record<string, { enum?: string[] }> }[]
+}
+
+// Media, reusable blocks, templates and navigation menus are not posts LemmeWrite should create
+function isPublishableType(type: RestPostType): boolean {
+  return type.slug !== 'attachment' && type.slug !== 'nav_menu_item' && !type.slug.startsWith('wp_') && type.viewable !== false
+}
+
+// Request fields for the publish settings the post type supports. Posts are the only type that can be sticky.
+function publishSettingsFields(settings: PublishSettings, postType: string): Record<string, unknown> {
+  return {
+    ...(settings.authorId && { author: settings.authorId }),
+    ...(settings.format && { format: settings.format }),
+    ...(settings.commentStatus && { comment_status: settings.commentStatus }),
+    ...(settings.sticky !== undefined && postType === 'posts' && { sticky: settings.sticky })
+  }
+}
+
+// Rendered titles come back HTML encoded, e.g. "Tips &#038; Tricks"
+function decodeEntities(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+}
+
+// Loads a site with its decrypted application password. Requires a service role client.
+export async function loadWordPressSite(supabaseClient: SupabaseClient, siteId: string): Promise<WordPressSite & { user_id: string }> {
+  const { data, error } = await supabaseClient
+    .rpc('get_wordpress_site_credentials', { site_id: siteId })
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  if (!data) {
+    throw new Error('WordPress site not found')
+  }
+
+  const site = data as WordPressSite & { user_id: string }
+  if (!site.password) {
+    throw new Error('No application password is stored for this WordPress site')
+  }
+  // Checked on every load, the URL can be edited after the site was connected
+  await assertPublicSiteUrl(site.url)
+
+  return site
+}
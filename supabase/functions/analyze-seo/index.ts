@@ -0,0 +1,61 @@
+// On-page SEO Scoring for Saved Posts
+// Re-scores a post after it is edited and stores the score with its findings
+
+import { corsHeaders, jsonResponse, getAuthenticatedUser, createUserClient } from '../_shared/auth.ts'
+import { analyzeSeo } from '../_shared/seo-analyzer.ts'
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const user = await getAuthenticatedUser(req)
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401)
+  }
+
+  try {
+    const { postId } = await req.json()
+    if (typeof postId !== 'string' || !postId) {
+      return jsonResponse({ error: 'postId is required' }, 400)
+    }
+
+    // Loaded and saved as the caller, so row level security keeps other users' posts out
+    const userClient = createUserClient(req)
+    const { data: post, error: postError } = await userClient
+      .from('scheduled_posts')
+      .select('id, title, content, meta_description, seo_keywords, wordpress_sites ( url )')
+      .eq('id', postId)
+      .maybeSingle()
+
+    if (postError) {
+      throw new Error(postError.message)
+    }
+    if (!post) {
+      return jsonResponse({ error: 'Post not found' }, 404)
+    }
+
+    const analysis = analyzeSeo({
+      title: post.title,
+      content: post.content,
+      metaDescription: post.meta_description,
+      seoKeywords: post.seo_keywords,
+      siteUrl: (post.wordpress_sites as { url: string } | null)?.url
+    })
+
+    const { error: updateError } = await userClient
+      .from('scheduled_posts')
+      .update({ seo_score: analysis.score, seo_analysis: analysis })
+      .eq('id', postId)
+
+    if (updateError) {
+      throw new Error(updateError.message)
+    }
+
+    return jsonResponse(analysis)
+  } catch (error) {
+    console.error('Error analyzing post SEO:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to analyze post' }, 500)
+  }
+})
@@ -0,0 +1,277 @@
+// Blog Post Generation for the App
+// Holds the LLM, Spinbot and Unsplash keys so they are never shipped to the browser
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse, getAuthenticatedUser, createUserClient } from '../_shared/auth.ts'
+import { generateBlogPost, BlogGenerationRequest, BlogGenerationResponse, ProgressCallback } from '../_shared/blog-generator.ts'
+import { createLLMProvider } from '../_shared/llm-provider.ts'
+import { humanizeContent } from '../_shared/spinbot.ts'
+import { findFeaturedImage, loadUsedPhotoIds, type FeaturedImage } from '../_shared/unsplash.ts'
+import { resolveBrandVoice } from '../_shared/brand-voice.ts'
+import { loadRecentTopics } from '../_shared/topic-history.ts'
+import { addInternalLinks, InternalLink } from '../_shared/internal-links.ts'
+import { analyzeSeo, SeoAnalysis } from '../_shared/seo-analyzer.ts'
+
+interface GeneratePostRequest extends Omit<BlogGenerationRequest, 'voice' | 'history'> {
+  ledgerEntryId?: string // The caller's unused points reservation that pays for this generation
+  scheduleId?: string // The schedule's earlier posts are avoided
+  excludePostId?: string // Post being regenerated, not counted as history
+  brandVoiceId?: string
+  wordpressSiteId?: string // Picks the site's default voice and the site whose posts are linked
+  internalLinkCount?: number // Links to the site's existing posts, needs wordpressSiteId
+  imageKeywords?: string
+  humanizeContent?: boolean
+  progressId?: string // generation_progress row the app polls while a long-form post is written
+  save?: SavePostRequest // Required for generation
+  test?: boolean // Only checks that the provider is reachable, used by Settings
+}
+
+// The scheduled_posts row the generated content is saved to. It is saved here so a failed save is refunded,
+// the app cannot refund a reservation once generation started.
+interface SavePostRequest {
+  postId?: string // Post whose content is replaced; a new post is inserted when unset
+  fields: Record<string, unknown> // The post's other columns, e.g. schedule_id and status
+}
+
+interface GeneratePostResponse extends BlogGenerationResponse {
+  internalLinks: InternalLink[]
+  seo?: SeoAnalysis
+  featuredImage?: FeaturedImage
+  post?: Record<string, unknown> // The saved scheduled_posts row
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const user = await getAuthenticatedUser(req)
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401)
+  }
+
+  let progress: ProgressTracker | undefined
+  let reservationId: string | undefined
+
+  try {
+    const request: GeneratePostRequest = await req.json()
+    const provider = createLLMProvider()
+
+    if (request.test) {
+      return jsonResponse({ connected: await provider.testConnection() })
+    }
+
+    if (!request.content || !request.wordCount) {
+      return jsonResponse({ error: 'content and wordCount are required' }, 400)
+    }
+
+    // Loaded as the caller, so row level security keeps other users' voices and posts out
+    const userClient = createUserClient(req)
+
+    // Generation is paid for up front, each reservation pays for one post and is committed to it once saved
+    if (!request.ledgerEntryId || !request.save) {
+      return jsonResponse({ error: 'ledgerEntryId and save are required' }, 400)
+    }
+    const { data: reserved, error: reservationError } = await userClient
+      .rpc('start_generation_for_reservation', {
+        ledger_entry_id: request.ledgerEntryId,
+        p_word_count: request.wordCount
+      })
+    if (reservationError) {
+      throw new Error(reservationError.message)
+    }
+    if (!reserved) {
+      return jsonResponse({ error: 'No unused points reservation covers this post' }, 402)
+    }
+    reservationId = request.ledgerEntryId
+
+    console.log('Generating post for user:', user.id, { type: request.type, wordCount: request.wordCount, model: request.model })
+    progress = request.progressId ? createProgressTracker(userClient, request.progressId, user.id) : undefined
+    const voice = await resolveBrandVoice(userClient, {
+      brandVoiceId: request.brandVoiceId,
+      wordpressSiteId: request.wordpressSiteId
+    })
+    const history = request.scheduleId
+      ? await loadRecentTopics(userClient, request.scheduleId, request.excludePostId)
+      : undefined
+    const result: GeneratePostResponse = {
+      ...await generateBlogPost({ ...request, voice, history }, provider, progress?.report),
+      internalLinks: []
+    }
+
+    if (request.humanizeContent) {
+      const humanized = await humanizeContent(result.content)
+      if (humanized.success && humanized.humanizedContent) {
+        result.content = humanized.humanizedContent
+      } else {
+        console.warn('Humanization failed, using original content:', humanized.error)
+      }
+    }
+
+    // Added after humanizing so the rewrite cannot drop the links
+    if (request.wordpressSiteId && request.internalLinkCount) {
+      const linked = await addInternalLinks(createServiceClient(), {
+        siteId: request.wordpressSiteId,
+        userId: user.id,
+        count: request.internalLinkCount,
+        excludeWordPressPostId: await regeneratedWordPressPostId(userClient, request.excludePostId)
+      }, result)
+      result.content = linked.content
+      result.internalLinks = linked.links
+    }
+
+    result.seo = analyzeSeo({
+      title: result.title,
+      content: result.content,
+      metaDescription: result.metaDescription,
+      seoKeywords: result.seoKeywords,
+      siteUrl: await loadSiteUrl(userClient, request.wordpressSiteId)
+    })
+
+    const usedPhotoIds = request.wordpressSiteId ? await loadUsedPhotoIds(userClient, request.wordpressSiteId) : undefined
+    result.featuredImage = await findFeaturedImage(result.title, request.imageKeywords, usedPhotoIds) ?? undefined
+
+    result.post = await savePost(userClient, request.save, result, reservationId)
+    return jsonResponse(result)
+  } catch (error) {
+    console.error('Error generating post:', error)
+    // The app cannot refund a reservation once generation started, so a failed generation is refunded here
+    if (reservationId) {
+      const { error: refundError } = await createServiceClient().rpc('refund_points_for_post', {
+        ledger_entry_id: reservationId,
+        reason: 'Content generation failed'
+      })
+      if (refundError) {
+        console.error(`Failed to refund reservation ${reservationId}:`, refundError.message)
+      }
+    }
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to generate content' }, 500)
+  } finally {
+    await progress?.clear()
+  }
+})
+
+interface ProgressTracker {
+  report: ProgressCallback
+  clear: () => Promise<void>
+}
+
+function createServiceClient() {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+}
+
+// Saves the generated content as the caller, so row level security applies, and commits the reservation to
+// the post. Throws when the post could not be saved, which refunds the reservation.
+async function savePost(
+  userClient: ReturnType<typeof createUserClient>,
+  save: SavePostRequest,
+  result: GeneratePostResponse,
+  ledgerEntryId: string
+): Promise<Record<string, unknown>> {
+  const columns = {
+    ...save.fields,
+    title: result.title,
+    content: result.content,
+    excerpt: result.excerpt,
+    tags: result.tags,
+    meta_description: result.metaDescription,
+    seo_keywords: result.seoKeywords,
+    generation_validation: result.validation,
+    internal_links: result.internalLinks,
+    seo_score: result.seo?.score ?? null,
+    seo_analysis: result.seo ?? null,
+    featured_image: result.featuredImage ?? null
+  }
+
+  const { data: post, error: saveError } = save.postId
+    ? await userClient.from('scheduled_posts').update(columns).eq('id', save.postId).select().single()
+    : await userClient.from('scheduled_posts').insert([columns]).select().single()
+
+  if (saveError || !post) {
+    throw new Error(`Failed to save the post: ${saveError?.message ?? 'Post not found'}`)
+  }
+
+  const savedPost = post as Record<string, unknown> & { id: string }
+  const { data: committed, error: commitError } = await userClient.rpc('commit_points_for_post', {
+    ledger_entry_id: ledgerEntryId,
+    post_id: savedPost.id
+  })
+
+  if (commitError || !committed) {
+    const message = commitError?.message ?? 'The points reservation was already used'
+    if (save.postId) {
+      // The post already has the new content, its reservation stays deducted
+      console.error(`Failed to commit reservation ${ledgerEntryId} to post ${savedPost.id}:`, message)
+      return savedPost
+    }
+    // A post whose points were not committed would be published for free
+    await userClient.from('scheduled_posts').delete().eq('id', savedPost.id)
+    throw new Error(message)
+  }
+
+  return savedPost
+}
+
+async function loadSiteUrl(userClient: ReturnType<typeof createUserClient>, siteId?: string): Promise<string | null> {
+  if (!siteId) return null
+
+  const { data } = await userClient
+    .from('wordpress_sites')
+    .select('url')
+    .eq('id', siteId)
+    .maybeSingle()
+
+  return (data as { url: string } | null)?.url ?? null
+}
+
+// A regenerated post must not link to its own published copy
+async function regeneratedWordPressPostId(
+  userClient: ReturnType<typeof createUserClient>,
+  postId?: string
+): Promise<number | null> {
+  if (!postId) return null
+
+  const { data } = await userClient
+    .from('scheduled_posts')
+    .select('wordpress_post_id')
+    .eq('id', postId)
+    .maybeSingle()
+
+  return (data as { wordpress_post_id: number | null } | null)?.wordpress_post_id ?? null
+}
+
+// Records each generation step for the app to poll. Progress is best effort and never fails the post.
+// Written as the caller, so row level security keeps a progress id from touching another user's row.
+function createProgressTracker(
+  supabaseClient: ReturnType<typeof createUserClient>,
+  progressId: string,
+  userId: string
+): ProgressTracker {
+  const report: ProgressCallback = async (progress) => {
+    const { error } = await supabaseClient
+      .from('generation_progress')
+      .upsert({
+        id: progressId,
+        user_id: userId,
+        stage: progress.stage,
+        completed_steps: progress.completedSteps,
+        total_steps: progress.totalSteps,
+        message: progress.message,
+        updated_at: new Date().toISOString()
+      })
+
+    if (error) {
+      console.warn('Failed to record generation progress:', error.message)
+    }
+  }
+
+  const clear = async () => {
+    await supabaseClient.from('generation_progress').delete().eq('id', progressId).eq('user_id', userId)
+  }
+
+  return { report, clear }
+}
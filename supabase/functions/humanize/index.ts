@@ -0,0 +1,37 @@
+// Content Humanization for the App
+// Keeps the Spinbot API key on the server
+
+import { corsHeaders, jsonResponse, getAuthenticatedUser, createUserClient } from '../_shared/auth.ts'
+import { humanizeContent } from '../_shared/spinbot.ts'
+import { consumeRateLimit, type RateLimit } from '../_shared/rate-limit.ts'
+
+// Humanizing on its own is free, so each user gets a limited number of requests
+const RATE_LIMIT: RateLimit = { limit: 20, windowSeconds: 3600 }
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const user = await getAuthenticatedUser(req)
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401)
+  }
+
+  try {
+    const { content } = await req.json()
+    if (typeof content !== 'string' || !content.trim()) {
+      return jsonResponse({ error: 'content is required' }, 400)
+    }
+
+    if (!await consumeRateLimit(createUserClient(req), 'humanize', RATE_LIMIT)) {
+      return jsonResponse({ success: false, error: 'Too many humanize requests, try again in an hour' }, 429)
+    }
+
+    return jsonResponse(await humanizeContent(content))
+  } catch (error) {
+    console.error('Error humanizing content:', error)
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to humanize content' }, 500)
+  }
+})
@@ -0,0 +1,221 @@
+// PayPal Subscription Creation for the App
+// Holds the PayPal client secret; the browser only receives the approval URL
+
+import { corsHeaders, jsonResponse, getAuthenticatedUser } from '../_shared/auth.ts'
+
+interface PayPalPlan {
+  name: string
+  description: string
+  price: number
+  envPlanId: string // Secret holding the PayPal plan ID, created on first use when unset
+}
+
+const PLANS: Record<string, PayPalPlan> = {
+  pro: {
+    name: 'Creator Plan',
+    description: '1,250 points per month for content creators',
+    price: 29,
+    envPlanId: 'PAYPAL_PLAN_ID_PRO'
+  },
+  business: {
+    name: 'Agency Plan',
+    description: '3,500 points per month for agencies',
+    price: 79,
+    envPlanId: 'PAYPAL_PLAN_ID_BUSINESS'
+  },
+  enterprise: {
+    name: 'Scale Plan',
+    description: '10,000 points per month for enterprises',
+    price: 199,
+    envPlanId: 'PAYPAL_PLAN_ID_ENTERPRISE'
+  }
+}
+
+// Plans created on the fly are reused for as long as this instance stays warm
+const createdPlanIds: Record<string, string> = {}
+
+function getBaseUrl(): string {
+  return Deno.env.get('PAYPAL_ENVIRONMENT') === 'live'
+    ? 'https://api-m.paypal.com'
+    : 'https://api-m.sandbox.paypal.com'
+}
+
+async function getAccessToken(): Promise<string> {
+  const clientId = Deno.env.get('PAYPAL_CLIENT_ID')
+  const clientSecret = Deno.env.get('PAYPAL_CLIENT_SECRET')
+  if (!clientId || !clientSecret) {
+    throw new Error('PayPal credentials are not configured for edge functions')
+  }
+
+  const response = await fetch(`${getBaseUrl()}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: 'grant_type=client_credentials'
+  })
+
+  if (!response.ok) {
+    throw new Error(`PayPal auth failed: ${response.status}`)
+  }
+
+  const data = await response.json()
+  return data.access_token
+}
+
+async function createPlan(plan: PayPalPlan, accessToken: string): Promise<string> {
+  const headers = {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json'
+  }
+
+  const productResponse = await fetch(`${getBaseUrl()}/v1/catalogs/products`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      name: plan.name,
+      description: plan.description,
+      type: 'SERVICE',
+      category: 'SOFTWARE'
+    })
+  })
+
+  if (!productResponse.ok) {
+    throw new Error(`Product creation failed: ${productResponse.status}`)
+  }
+
+  const product = await productResponse.json()
+
+  const planResponse = await fetch(`${getBaseUrl()}/v1/billing/plans`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      product_id: product.id,
+      name: plan.name,
+      description: plan.description,
+      billing_cycles: [
+        {
+          frequency: {
+            interval_unit: 'MONTH',
+            interval_count: 1
+          },
+          tenure_type: 'REGULAR',
+          sequence: 1,
+          total_cycles: 0, // Infinite cycles
+          pricing_scheme: {
+            fixed_price: {
+              value: plan.price.toString(),
+              currency_code: 'USD'
+            }
+          }
+        }
+      ],
+      payment_preferences: {
+        auto_bill_outstanding: true,
+        setup_fee_failure_action: 'CONTINUE',
+        payment_failure_threshold: 3
+      }
+    })
+  })
+
+  if (!planResponse.ok) {
+    throw new Error(`Plan creation failed: ${planResponse.status}`)
+  }
+
+  const createdPlan = await planResponse.json()
+  return createdPlan.id
+}
+
+async function getOrCreatePlanId(planKey: string, accessToken: string): Promise<string> {
+  const plan = PLANS[planKey]
+  const configuredId = Deno.env.get(plan.envPlanId)
+  if (configuredId) {
+    return configuredId
+  }
+
+  if (!createdPlanIds[planKey]) {
+    console.warn(`${plan.envPlanId} is not set, creating a PayPal plan on the fly`)
+    createdPlanIds[planKey] = await createPlan(plan, accessToken)
+  }
+
+  return createdPlanIds[planKey]
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const user = await getAuthenticatedUser(req)
+  if (!user) {
+    return jsonResponse({ success: false, error: 'Not authenticated' }, 401)
+  }
+
+  try {
+    const { planId } = await req.json()
+    if (!PLANS[planId]) {
+      return jsonResponse({ success: false, error: 'Invalid plan selected' }, 400)
+    }
+
+    const accessToken = await getAccessToken()
+    const paypalPlanId = await getOrCreatePlanId(planId, accessToken)
+
+    // The webhook matches the subscription to the account by email, so always use the signed-in user's
+    const firstName = user.user_metadata?.first_name || 'User'
+    const lastName = user.user_metadata?.last_name || 'Account'
+    const appUrl = Deno.env.get('APP_URL') || req.headers.get('origin') || ''
+
+    const response = await fetch(`${getBaseUrl()}/v1/billing/subscriptions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        plan_id: paypalPlanId,
+        custom_id: user.id,
+        subscriber: {
+          name: {
+            given_name: firstName,
+            surname: lastName
+          },
+          email_address: user.email
+        },
+        application_context: {
+          brand_name: 'LemmeWrite',
+          locale: 'en-US',
+          shipping_preference: 'NO_SHIPPING',
+          user_action: 'SUBSCRIBE_NOW',
+          payment_method: {
+            payer_selected: 'PAYPAL',
+            payee_preferred: 'IMMEDIATE_PAYMENT_REQUIRED'
+          },
+          return_url: `${appUrl}/payment/success?plan=${planId}`,
+          cancel_url: `${appUrl}/payment/cancel`
+        }
+      })
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      console.error('PayPal subscription creation failed:', errorData)
+      return jsonResponse({ success: false, error: errorData.message || 'Subscription creation failed' }, 502)
+    }
+
+    const subscription = await response.json()
+    const approvalUrl = subscription.links?.find((link: { rel: string; href: string }) => link.rel === 'approve')?.href
+
+    return jsonResponse({
+      success: true,
+      subscriptionId: subscription.id,
+      approvalUrl
+    })
+  } catch (error) {
+    console.error('PayPal subscription error:', error)
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Subscription creation failed' }, 500)
+  }
+})
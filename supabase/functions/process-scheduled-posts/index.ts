@@ -1,13 +1,78 @@
 // Supabase Edge Function to process scheduled posts
-// This function runs periodically to check for posts that need to be published
+// This function runs periodically to generate posts for due schedules and publish posts that are ready
 
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import { generateBlogPost, type BlogGenerationResponse } from '../_shared/blog-generator.ts'
+import { wordPressService, loadWordPressSite, hashPostContent, type PublishSettings, type TagPolicy } from '../_shared/wordpress.ts'
+import { resolveBrandVoice } from '../_shared/brand-voice.ts'
+import { loadRecentTopics } from '../_shared/topic-history.ts'
+import { nextQueuedTopic, markTopicUsed } from '../_shared/topic-queue.ts'
+import { addInternalLinks } from '../_shared/internal-links.ts'
+import { analyzeSeo } from '../_shared/seo-analyzer.ts'
+import { findFeaturedImage, loadUsedPhotoIds, type FeaturedImage } from '../_shared/unsplash.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+type SupabaseClient = ReturnType<typeof createClient>
+
+const LEASE_SECONDS = 300
+// WordPress-scheduled posts checked per run once their time has passed
+const RECONCILE_BATCH_SIZE = 25
+
+interface PostSchedule {
+  id: string
+  user_id: string
+  wordpress_site_id: string
+  schedule_type: 'topic' | 'category' | 'keyword'
+  content_input: string
+  description: string | null
+  image_keywords: string | null
+  frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly'
+  word_count: number
+  stop_condition: 'never' | 'date' | 'post_count' | 'points_exhausted' | null
+  stop_date: string | null
+  max_posts: number | null
+  posts_generated: number | null
+  next_post_date: string
+  requires_approval: boolean
+  model: string | null
+  brand_voice_id: string | null
+  internal_link_count: number
+  category_ids: number[]
+  tag_policy: TagPolicy
+  publish_settings: PublishSettings
+  fanout_mode: 'unique' | 'canonical'
+  failure_count: number
+}
+
+interface ScheduleResult {
+  scheduleId: string
+  status: 'generated' | 'completed' | 'failed' | 'paused'
+  postId?: string
+  sitePosts?: SitePostResult[] // Posts for the schedule's extra sites
+  reason?: string
+  error?: string
+}
+
+interface SitePostResult {
+  siteId: string
+  status: 'generated' | 'failed'
+  postId?: string
+  error?: string
+}
+
+// Generated content of a post as it is stored for one site
+type SitePostFields = Awaited<ReturnType<typeof preparePostForSite>>
+
+interface ReconcileResult {
+  postId: string
+  status: 'published' | 'cancelled' | 'waiting'
+  error?: string
+}
+
 interface ScheduledPost {
   id: string
   schedule_id: string
@@ -18,13 +83,17 @@ interface ScheduledPost {
   tags: string[]
   meta_description: string
   seo_keywords: string[]
+  featured_image: FeaturedImage | null
+  featured_media_id: number | null
+  category_ids: number[] | null
+  tag_policy: TagPolicy | null
+  primary_post_id: string | null
+  canonical_to_primary: boolean
+  publish_settings: PublishSettings | null
   scheduled_for: string
-  wordpress_sites: {
-    name: string
-    url: string
-    username: string
-    password: string
-  }
+  created_at: string
+  attempt_count: number
+  last_error: string | null
 }
 
 Deno.serve(async (req) => {
@@ -43,21 +112,36 @@ Deno.serve(async (req) => {
     // Get current time
     const now = new Date().toISOString()
 
-    // Fetch posts that are ready to be published
-    const { data: postsToPublish, error: fetchError } = await supabaseClient
-      .from('scheduled_posts')
-      .select(`
-        *,
-        wordpress_sites (
-          name,
-          url,
-          username,
-          password
-        )
-      `)
-      .eq('status', 'pending')
-      .lte('scheduled_for', now)
-      .limit(10) // Process up to 10 posts at a time
+    // Generate posts for schedules that are due, so they can be published in this same run
+    const scheduleResults = await processDueSchedules(supabaseClient, now)
+
+    // Claim posts that are ready to be published. Claimed rows move to 'publishing' under a lease,
+    // so overlapping runs skip them; stale leases from crashed runs are released first.
+    const { data: claimedPosts, error: claimError } = await supabaseClient
+      .rpc('claim_scheduled_posts', {
+        batch_size: 10, // Process up to 10 posts at a time
+        lease_seconds: LEASE_SECONDS
+      })
+
+    if (claimError) {
+      console.error('Error claiming posts to publish:', claimError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to claim posts' }),
+        { 
+          status: 500, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    const claimedIds = (claimedPosts as { id: string }[]).map((post) => post.id)
+
+    const { data: postsToPublish, error: fetchError } = claimedIds.length === 0
+      ? { data: [], error: null }
+      : await supabaseClient
+        .from('scheduled_posts')
+        .select('*')
+        .in('id', claimedIds)
 
     if (fetchError) {
       console.error('Error fetching posts to publish:', fetchError)
@@ -75,65 +159,109 @@ Deno.serve(async (req) => {
     // Process each post
     for (const post of postsToPublish as ScheduledPost[]) {
       try {
-        // Publish to WordPress
-        const publishResult = await publishToWordPress(post)
-        
+        // Only posts of schedules that use WordPress scheduling are claimed before they are due
+        const publishAhead = new Date(post.scheduled_for) > new Date(now)
+
+        // Publish to WordPress with the site's password decrypted from Vault
+        const site = await loadWordPressSite(supabaseClient, post.wordpress_site_id)
+        const canonicalUrl = post.canonical_to_primary
+          ? await loadPrimaryPostUrl(supabaseClient, post.primary_post_id)
+          : undefined
+        const publishResult = await wordPressService.publishPost(site, {
+          title: post.title,
+          content: post.content,
+          excerpt: post.excerpt,
+          status: publishAhead ? 'future' : 'publish',
+          ...(publishAhead && { scheduledDate: post.scheduled_for }),
+          tags: post.tags || [],
+          tagPolicy: post.tag_policy ?? undefined,
+          categories: [],
+          categoryIds: post.category_ids ?? undefined,
+          metaDescription: post.meta_description,
+          seoTitle: post.title,
+          focusKeyword: post.seo_keywords?.[0],
+          canonicalUrl,
+          featuredImage: post.featured_image ?? undefined,
+          featuredMediaId: post.featured_media_id,
+          publishSettings: post.publish_settings ?? undefined,
+          // Only a post with an earlier failed or interrupted attempt can already be on WordPress.
+          // retry_scheduled_post resets the attempt count but keeps last_error.
+          ...((post.attempt_count > 0 || post.last_error) && { createdAfter: post.created_at })
+        })
+
+        // Remember the uploaded image so a retry does not upload it again
+        if (publishResult.featuredMediaId && publishResult.featuredMediaId !== post.featured_media_id) {
+          await supabaseClient
+            .from('scheduled_posts')
+            .update({ featured_media_id: publishResult.featuredMediaId })
+            .eq('id', post.id)
+        }
+
         if (publishResult.success) {
-          // Update post status to published
+          // A post sent ahead stays 'scheduled' until reconcileScheduledPosts sees WordPress publish it
           await supabaseClient
             .from('scheduled_posts')
             .update({
-              status: 'published',
-              published_at: now,
-              wordpress_post_id: publishResult.postId
+              status: publishAhead ? 'scheduled' : 'published',
+              ...(!publishAhead && { published_at: now }),
+              wordpress_post_id: publishResult.postId,
+              wordpress_post_url: publishResult.postUrl,
+              wordpress_post_type: publishResult.postType,
+              lease_expires_at: null,
+              content_hash: await hashPostContent(post),
+              synced_at: now
             })
             .eq('id', post.id)
 
           results.push({
             postId: post.id,
-            status: 'published',
+            status: publishAhead ? 'scheduled' : 'published',
             wordpressPostId: publishResult.postId
           })
         } else {
-          // Update post status to failed
-          await supabaseClient
-            .from('scheduled_posts')
-            .update({
-              status: 'failed',
-              error_message: publishResult.error
+          // Schedule a retry for transient errors, dead-letter everything else
+          const { data: newStatus } = await supabaseClient
+            .rpc('record_publish_failure', {
+              post_id: post.id,
+              error_text: publishResult.error,
+              is_transient: publishResult.retryable
             })
-            .eq('id', post.id)
 
           results.push({
             postId: post.id,
-            status: 'failed',
+            status: newStatus === 'pending' ? 'retry_scheduled' : 'dead_letter',
             error: publishResult.error
           })
         }
       } catch (error) {
         console.error(`Error processing post ${post.id}:`, error)
         
-        // Update post status to failed
-        await supabaseClient
-          .from('scheduled_posts')
-          .update({
-            status: 'failed',
-            error_message: error.message
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+        const { data: newStatus } = await supabaseClient
+          .rpc('record_publish_failure', {
+            post_id: post.id,
+            error_text: errorMessage,
+            is_transient: true
           })
-          .eq('id', post.id)
 
         results.push({
           postId: post.id,
-          status: 'failed',
-          error: error.message
+          status: newStatus === 'pending' ? 'retry_scheduled' : 'dead_letter',
+          error: errorMessage
         })
       }
     }
 
+    const reconcileResults = await reconcileScheduledPosts(supabaseClient, now)
+
     return new Response(
       JSON.stringify({
         processed: results.length,
-        results
+        results,
+        schedulesProcessed: scheduleResults.length,
+        scheduleResults,
+        reconciled: reconcileResults.length,
+        reconcileResults
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -152,48 +280,456 @@ Deno.serve(async (req) => {
   }
 })
 
-async function publishToWordPress(post: ScheduledPost): Promise<{ success: boolean; postId?: number; error?: string }> {
-  try {
-    const site = post.wordpress_sites
-    const auth = btoa(`${site.username}:${site.password}`)
-    const apiUrl = `${site.url.replace(/\/$/, '')}/wp-json/wp/v2/posts`
-
-    // Create categories and tags first (simplified for this example)
-    const postData = {
-      title: post.title,
-      content: post.content,
-      excerpt: post.excerpt,
-      status: 'publish',
-      meta: {
-        _yoast_wpseo_metadesc: post.meta_description
+async function processDueSchedules(supabaseClient: SupabaseClient, now: string): Promise<ScheduleResult[]> {
+  // Claimed schedules are leased to this run until update_next_post_date releases them. Schedules that use
+  // WordPress scheduling are claimed ahead of time, their posts are then sent to WordPress as scheduled posts.
+  const { data: dueSchedules, error: claimError } = await supabaseClient
+    .rpc('claim_due_schedules', {
+      batch_size: 10, // Generate up to 10 posts at a time
+      lease_seconds: LEASE_SECONDS * 2
+    })
+
+  if (claimError) {
+    console.error('Error claiming due schedules:', claimError)
+    return []
+  }
+
+  const results: ScheduleResult[] = []
+
+  for (const schedule of dueSchedules as PostSchedule[]) {
+    try {
+      const stopReason = getStopReason(schedule, now)
+
+      if (stopReason) {
+        await supabaseClient
+          .from('post_schedules')
+          .update({ status: 'completed', lease_expires_at: null })
+          .eq('id', schedule.id)
+
+        results.push({
+          scheduleId: schedule.id,
+          status: 'completed',
+          reason: stopReason
+        })
+        continue
       }
-    }
 
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${auth}`
-      },
-      body: JSON.stringify(postData)
-    })
+      // Reserve the points before spending anything on generation
+      const { data: ledgerEntryId, error: debitError } = await supabaseClient
+        .rpc('debit_points_for_post', {
+          target_user_id: schedule.user_id,
+          frequency_type: schedule.frequency,
+          word_count: schedule.word_count,
+          p_schedule_id: schedule.id
+        })
+
+      if (debitError) {
+        throw new Error(debitError.message)
+      }
+
+      if (!ledgerEntryId) {
+        if (schedule.stop_condition === 'points_exhausted') {
+          await supabaseClient
+            .from('post_schedules')
+            .update({ status: 'completed', lease_expires_at: null })
+            .eq('id', schedule.id)
+
+          results.push({
+            scheduleId: schedule.id,
+            status: 'completed',
+            reason: 'Not enough points for another post'
+          })
+        } else {
+          // Leave the schedule due so it picks up again once points are added
+          await releaseSchedule(supabaseClient, schedule.id)
+
+          results.push({
+            scheduleId: schedule.id,
+            status: 'failed',
+            error: 'Not enough points for another post'
+          })
+        }
+        continue
+      }
+
+      console.log('Generating content for schedule:', schedule.id)
+      // Anything failing between reserving and committing the points gives them back
+      let topic
+      let fields: SitePostFields
+      let scheduledPost: { id: string } | null = null
+      try {
+        topic = await nextQueuedTopic(supabaseClient, schedule.id)
+        const blogContent = await generateBlogPost({
+          type: schedule.schedule_type,
+          content: topic?.topic ?? schedule.content_input,
+          description: schedule.description ?? undefined,
+          wordCount: schedule.word_count,
+          model: schedule.model ?? undefined,
+          voice: await resolveBrandVoice(supabaseClient, {
+            brandVoiceId: schedule.brand_voice_id,
+            wordpressSiteId: schedule.wordpress_site_id,
+            userId: schedule.user_id
+          }),
+          history: await loadRecentTopics(supabaseClient, schedule.id)
+        })
+
+        fields = await preparePostForSite(supabaseClient, schedule, schedule.wordpress_site_id, blogContent)
+
+        const { data: insertedPost, error: insertError } = await supabaseClient
+          .from('scheduled_posts')
+          .insert([{
+            ...fields,
+            schedule_id: schedule.id,
+            user_id: schedule.user_id,
+            wordpress_site_id: schedule.wordpress_site_id,
+            category_ids: schedule.category_ids,
+            tag_policy: schedule.tag_policy,
+            publish_settings: schedule.publish_settings,
+            // Posts that need a reviewer are only claimed for publishing once they are approved
+            status: schedule.requires_approval ? 'awaiting_review' : 'pending',
+            scheduled_for: schedule.next_post_date
+          }])
+          .select('id')
+          .single()
+
+        if (insertError) {
+          throw new Error(insertError.message)
+        }
+        scheduledPost = insertedPost as { id: string }
+
+        const { error: commitError } = await supabaseClient.rpc('commit_points_for_post', {
+          ledger_entry_id: ledgerEntryId,
+          post_id: scheduledPost.id
+        })
 
-    if (!response.ok) {
-      const errorData = await response.json()
-      throw new Error(errorData.message || `HTTP ${response.status}`)
+        if (commitError) {
+          throw new Error(commitError.message)
+        }
+      } catch (generationError) {
+        // A post whose points were not committed would be published for free
+        if (scheduledPost) {
+          await supabaseClient.from('scheduled_posts').delete().eq('id', scheduledPost.id)
+        }
+        await supabaseClient.rpc('refund_points_for_post', {
+          ledger_entry_id: ledgerEntryId,
+          reason: 'Post could not be generated'
+        })
+        throw generationError
+      }
+
+      if (topic) {
+        await markTopicUsed(supabaseClient, topic.id, scheduledPost.id)
+      }
+
+      // Advance the schedule; this also marks it completed once a date or post count limit is reached
+      const { error: advanceError } = await supabaseClient
+        .rpc('update_next_post_date', { schedule_id: schedule.id })
+
+      if (advanceError) {
+        console.error(`Error advancing schedule ${schedule.id}:`, advanceError)
+      }
+
+      if (schedule.failure_count > 0) {
+        await supabaseClient
+          .from('post_schedules')
+          .update({ failure_count: 0, next_attempt_at: null, last_error: null })
+          .eq('id', schedule.id)
+      }
+
+      // Extra sites come after the schedule has advanced, generating their variants can outlast its lease
+      const sitePosts = await fanOutToSites(
+        supabaseClient,
+        schedule,
+        { id: scheduledPost.id, fields },
+        topic?.topic ?? schedule.content_input
+      )
+
+      results.push({
+        scheduleId: schedule.id,
+        status: 'generated',
+        postId: scheduledPost.id,
+        ...(sitePosts.length && { sitePosts })
+      })
+    } catch (error) {
+      console.error(`Error processing schedule ${schedule.id}:`, error)
+
+      // Back off before the next attempt so a failing schedule does not reserve points every run
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+      const { data: newStatus } = await supabaseClient
+        .rpc('record_schedule_failure', {
+          p_schedule_id: schedule.id,
+          error_text: errorMessage
+        })
+
+      results.push({
+        scheduleId: schedule.id,
+        status: newStatus === 'paused' ? 'paused' : 'failed',
+        error: errorMessage
+      })
     }
+  }
+
+  return results
+}
+
+// Internal links, SEO score and featured image of generated content on one site
+async function preparePostForSite(
+  supabaseClient: SupabaseClient,
+  schedule: PostSchedule,
+  siteId: string,
+  blogContent: BlogGenerationResponse
+) {
+  const linked = await addInternalLinks(supabaseClient, {
+    siteId,
+    userId: schedule.user_id,
+    count: schedule.internal_link_count
+  }, blogContent)
+  const { data: siteRow } = await supabaseClient
+    .from('wordpress_sites')
+    .select('url')
+    .eq('id', siteId)
+    .maybeSingle()
+  const seo = analyzeSeo({
+    title: blogContent.title,
+    content: linked.content,
+    metaDescription: blogContent.metaDescription,
+    seoKeywords: blogContent.seoKeywords,
+    siteUrl: siteRow?.url
+  })
+  const featuredImage = await findFeaturedImage(
+    blogContent.title,
+    schedule.image_keywords,
+    await loadUsedPhotoIds(supabaseClient, siteId)
+  )
+
+  return {
+    title: blogContent.title,
+    content: linked.content,
+    excerpt: blogContent.excerpt,
+    tags: blogContent.tags,
+    meta_description: blogContent.metaDescription,
+    seo_keywords: blogContent.seoKeywords,
+    generation_validation: blogContent.validation,
+    internal_links: linked.links,
+    seo_score: seo.score,
+    seo_analysis: seo,
+    featured_image: featuredImage
+  }
+}
+
+// Adds a post for each of the schedule's extra sites: a variant generated and paid for like any other post,
+// or a copy of the primary post that is published with the primary's URL as its canonical URL.
+// A site that fails is reported and skipped, the primary post and the other sites are kept.
+async function fanOutToSites(
+  supabaseClient: SupabaseClient,
+  schedule: PostSchedule,
+  primary: { id: string; fields: SitePostFields },
+  topicText: string
+): Promise<SitePostResult[]> {
+  const { data: sites, error } = await supabaseClient
+    .from('schedule_sites')
+    .select('wordpress_site_id')
+    .eq('schedule_id', schedule.id)
+
+  if (error) {
+    console.error(`Error loading the extra sites of schedule ${schedule.id}:`, error)
+    return []
+  }
+
+  const results: SitePostResult[] = []
+  for (const { wordpress_site_id: siteId } of sites as { wordpress_site_id: string }[]) {
+    let ledgerEntryId: string | null = null
+    try {
+      let fields = primary.fields
+      if (schedule.fanout_mode === 'unique') {
+        const { data, error: debitError } = await supabaseClient
+          .rpc('debit_points_for_post', {
+            target_user_id: schedule.user_id,
+            frequency_type: schedule.frequency,
+            word_count: schedule.word_count,
+            p_schedule_id: schedule.id
+          })
+
+        if (debitError) {
+          throw new Error(debitError.message)
+        }
+        if (!data) {
+          throw new Error('Not enough points for another post')
+        }
+        ledgerEntryId = data as string
+
+        // The schedule history now includes the primary post, which keeps the variant off its wording
+        const variant = await generateBlogPost({
+          type: schedule.schedule_type,
+          content: topicText,
+          description: schedule.description ?? undefined,
+          wordCount: schedule.word_count,
+          model: schedule.model ?? undefined,
+          voice: await resolveBrandVoice(supabaseClient, {
+            brandVoiceId: schedule.brand_voice_id,
+            wordpressSiteId: siteId,
+            userId: schedule.user_id
+          }),
+          history: await loadRecentTopics(supabaseClient, schedule.id)
+        })
+        fields = await preparePostForSite(supabaseClient, schedule, siteId, variant)
+      }
+
+      const { data: sitePost, error: insertError } = await supabaseClient
+        .from('scheduled_posts')
+        .insert([{
+          ...fields,
+          schedule_id: schedule.id,
+          user_id: schedule.user_id,
+          wordpress_site_id: siteId,
+          primary_post_id: primary.id,
+          canonical_to_primary: schedule.fanout_mode === 'canonical',
+          // The schedule's categories and publish settings belong to the primary site
+          category_ids: [],
+          tag_policy: schedule.tag_policy,
+          status: schedule.requires_approval ? 'awaiting_review' : 'pending',
+          scheduled_for: schedule.next_post_date
+        }])
+        .select('id')
+        .single()
+
+      if (insertError) {
+        throw new Error(insertError.message)
+      }
+
+      if (ledgerEntryId) {
+        const { error: commitError } = await supabaseClient.rpc('commit_points_for_post', {
+          ledger_entry_id: ledgerEntryId,
+          post_id: sitePost.id
+        })
 
-    const result = await response.json()
-    
-    return {
-      success: true,
-      postId: result.id
+        if (commitError) {
+          // A post whose points were not committed would be published for free
+          await supabaseClient.from('scheduled_posts').delete().eq('id', sitePost.id)
+          throw new Error(commitError.message)
+        }
+      }
+
+      results.push({ siteId, status: 'generated', postId: sitePost.id })
+    } catch (siteError) {
+      console.error(`Error generating the post of schedule ${schedule.id} for site ${siteId}:`, siteError)
+      if (ledgerEntryId) {
+        await supabaseClient.rpc('refund_points_for_post', {
+          ledger_entry_id: ledgerEntryId,
+          reason: 'Content generation failed'
+        })
+      }
+
+      results.push({
+        siteId,
+        status: 'failed',
+        error: siteError instanceof Error ? siteError.message : 'Unknown error occurred'
+      })
     }
-  } catch (error) {
-    console.error('WordPress publish error:', error)
-    return {
-      success: false,
-      error: error.message
+  }
+
+  return results
+}
+
+// Permalink of the post a canonical copy points at. Claiming holds copies back until it is published,
+// before that a post scheduled on WordPress only has a preview link.
+async function loadPrimaryPostUrl(supabaseClient: SupabaseClient, primaryPostId: string | null): Promise<string | undefined> {
+  if (!primaryPostId) return undefined
+
+  const { data } = await supabaseClient
+    .from('scheduled_posts')
+    .select('wordpress_post_url')
+    .eq('id', primaryPostId)
+    .eq('status', 'published')
+    .maybeSingle()
+
+  return (data as { wordpress_post_url: string | null } | null)?.wordpress_post_url ?? undefined
+}
+
+// Catches up with posts WordPress was due to publish on its own. Posts still 'future' on WordPress are
+// left alone, WordPress publishes missed posts late when its cron next runs.
+async function reconcileScheduledPosts(supabaseClient: SupabaseClient, now: string): Promise<ReconcileResult[]> {
+  const { data: duePosts, error } = await supabaseClient
+    .from('scheduled_posts')
+    .select('id, wordpress_site_id, wordpress_post_id, wordpress_post_type')
+    .eq('status', 'scheduled')
+    .lte('scheduled_for', now)
+    .order('scheduled_for')
+    .limit(RECONCILE_BATCH_SIZE)
+
+  if (error) {
+    console.error('Error loading scheduled posts to reconcile:', error)
+    return []
+  }
+
+  const results: ReconcileResult[] = []
+  for (const post of duePosts as { id: string; wordpress_site_id: string; wordpress_post_id: number; wordpress_post_type: string }[]) {
+    try {
+      const site = await loadWordPressSite(supabaseClient, post.wordpress_site_id)
+      const remote = await wordPressService.getPost(site, post.wordpress_post_id, post.wordpress_post_type)
+
+      if (remote.success && remote.post?.status === 'publish') {
+        await supabaseClient
+          .from('scheduled_posts')
+          .update({ status: 'published', published_at: remote.post.date, wordpress_post_url: remote.post.link })
+          .eq('id', post.id)
+        results.push({ postId: post.id, status: 'published' })
+        continue
+      }
+
+      const gone = remote.statusCode === 404 || remote.statusCode === 410 || remote.post?.status === 'trash'
+      if (gone || (remote.post && remote.post.status !== 'future')) {
+        const errorMessage = gone
+          ? 'The post was deleted on WordPress before it went live'
+          : `The post was changed to '${remote.post!.status}' on WordPress before it went live`
+        // The site owner withdrew a delivered post, which is not a failure and keeps its points
+        await supabaseClient
+          .from('scheduled_posts')
+          .update({ status: 'cancelled', error_message: errorMessage })
+          .eq('id', post.id)
+        results.push({ postId: post.id, status: 'cancelled', error: errorMessage })
+        continue
+      }
+
+      results.push({ postId: post.id, status: 'waiting', error: remote.error })
+    } catch (reconcileError) {
+      console.error(`Error reconciling post ${post.id}:`, reconcileError)
+      results.push({
+        postId: post.id,
+        status: 'waiting',
+        error: reconcileError instanceof Error ? reconcileError.message : 'Unknown error occurred'
+      })
     }
   }
-}
\ No newline at end of file
+
+  return results
+}
+
+// Drops this run's claim on a schedule so the next run can pick it up again
+async function releaseSchedule(supabaseClient: SupabaseClient, scheduleId: string) {
+  await supabaseClient
+    .from('post_schedules')
+    .update({ lease_expires_at: null })
+    .eq('id', scheduleId)
+}
+
+// Returns why a schedule should be completed instead of generating another post, or null to keep going.
+// Running out of points is detected when the post's points are reserved.
+function getStopReason(schedule: PostSchedule, now: string): string | null {
+  switch (schedule.stop_condition) {
+    case 'date':
+      if (schedule.stop_date && now > new Date(schedule.stop_date).toISOString()) {
+        return 'Stop date reached'
+      }
+      return null
+
+    case 'post_count':
+      if (schedule.max_posts && (schedule.posts_generated ?? 0) >= schedule.max_posts) {
+        return 'Maximum number of posts reached'
+      }
+      return null
+
+    default:
+      return null
+  }
+}
@@ -0,0 +1,49 @@
+// Unsplash Image Search for the App
+// Keeps the Unsplash access key on the server
+
+import { corsHeaders, jsonResponse, getAuthenticatedUser } from '../_shared/auth.ts'
+import { getUnsplashService } from '../_shared/unsplash.ts'
+
+interface SearchImagesRequest {
+  title?: string
+  keywords?: string
+  test?: boolean // Only checks that Unsplash accepts the key, used by Settings
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const user = await getAuthenticatedUser(req)
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401)
+  }
+
+  try {
+    const request: SearchImagesRequest = await req.json()
+
+    const unsplash = getUnsplashService()
+    if (!unsplash) {
+      return jsonResponse({ error: 'UNSPLASH_ACCESS_KEY is not configured for edge functions' }, 503)
+    }
+
+    if (request.test) {
+      return jsonResponse({ connected: await unsplash.testConnection() })
+    }
+
+    if (!request.title && !request.keywords) {
+      return jsonResponse({ error: 'title or keywords is required' }, 400)
+    }
+
+    const image = request.keywords
+      ? await unsplash.findBestImageForKeywords(request.keywords)
+      : await unsplash.findBestImageForTitle(request.title!)
+
+    return jsonResponse({ image })
+  } catch (error) {
+    console.error('Error searching images:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Image search failed' }, 500)
+  }
+})
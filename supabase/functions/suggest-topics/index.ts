@@ -0,0 +1,81 @@
+// Topic Suggestions for Schedule Queues
+// Suggests topics that fit a schedule without repeating its queue or earlier posts
+
+import { corsHeaders, jsonResponse, getAuthenticatedUser, createUserClient } from '../_shared/auth.ts'
+import { suggestTopics } from '../_shared/blog-generator.ts'
+import { createLLMProvider } from '../_shared/llm-provider.ts'
+import { resolveBrandVoice } from '../_shared/brand-voice.ts'
+import { loadRecentTopics } from '../_shared/topic-history.ts'
+import { consumeRateLimit, type RateLimit } from '../_shared/rate-limit.ts'
+
+const MAX_SUGGESTIONS = 20
+
+// Suggestions are free, so each user gets a limited number of requests
+const RATE_LIMIT: RateLimit = { limit: 30, windowSeconds: 3600 }
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const user = await getAuthenticatedUser(req)
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401)
+  }
+
+  try {
+    const { scheduleId, count } = await req.json()
+    if (typeof scheduleId !== 'string' || !scheduleId) {
+      return jsonResponse({ error: 'scheduleId is required' }, 400)
+    }
+
+    // Loaded as the caller, so row level security keeps other users' schedules out
+    const userClient = createUserClient(req)
+    if (!await consumeRateLimit(userClient, 'suggest-topics', RATE_LIMIT)) {
+      return jsonResponse({ error: 'Too many topic suggestions, try again in an hour' }, 429)
+    }
+
+    const { data: schedule, error: scheduleError } = await userClient
+      .from('post_schedules')
+      .select('id, schedule_type, content_input, description, model, brand_voice_id, wordpress_site_id')
+      .eq('id', scheduleId)
+      .maybeSingle()
+
+    if (scheduleError) {
+      throw new Error(scheduleError.message)
+    }
+    if (!schedule) {
+      return jsonResponse({ error: 'Schedule not found' }, 404)
+    }
+
+    const { data: queued, error: queueError } = await userClient
+      .from('schedule_topics')
+      .select('topic')
+      .eq('schedule_id', scheduleId)
+      .eq('status', 'queued')
+
+    if (queueError) {
+      throw new Error(queueError.message)
+    }
+
+    const topics = await suggestTopics({
+      type: schedule.schedule_type,
+      content: schedule.content_input,
+      description: schedule.description ?? undefined,
+      model: schedule.model ?? undefined,
+      count: Math.min(Math.max(Number(count) || 5, 1), MAX_SUGGESTIONS),
+      voice: await resolveBrandVoice(userClient, {
+        brandVoiceId: schedule.brand_voice_id,
+        wordpressSiteId: schedule.wordpress_site_id
+      }),
+      history: await loadRecentTopics(userClient, scheduleId),
+      queued: (queued ?? []).map(row => row.topic)
+    }, createLLMProvider())
+
+    return jsonResponse({ topics })
+  } catch (error) {
+    console.error('Error suggesting topics:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to suggest topics' }, 500)
+  }
+})
@@ -0,0 +1,227 @@
+// WordPress Site Proxy for the App
+// Connects sites, rotates credentials and runs post operations with the password decrypted on the server
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse, getAuthenticatedUser } from '../_shared/auth.ts'
+import { wordPressService, loadWordPressSite, type ConnectionTestResult, type WordPressPost, type WordPressResponse, type WordPressSite } from '../_shared/wordpress.ts'
+import { assertPublicSiteUrl } from '../_shared/site-url.ts'
+
+// Columns recording a connection test. The detected SEO plugin is left unchanged when the connection failed.
+function testColumns({ seo, diagnostics }: ConnectionTestResult) {
+  return {
+    diagnostics,
+    ...(seo && { seo_plugin: seo.plugin, seo_fields_writable: seo.fieldsWritable, seo_checked_at: diagnostics.checkedAt })
+  }
+}
+
+// Schedules a retry for a transient failure or dead-letters the post, and returns the post's new status.
+// Only a post of the caller that they claimed for publishing is touched.
+async function recordPublishFailure(
+  supabaseClient: ReturnType<typeof createClient>,
+  userId: string,
+  postId: string,
+  result: WordPressResponse
+): Promise<string | undefined> {
+  const { data: post } = await supabaseClient
+    .from('scheduled_posts')
+    .select('user_id, status')
+    .eq('id', postId)
+    .maybeSingle()
+
+  const claimed = post as { user_id: string; status: string } | null
+  if (!claimed || claimed.user_id !== userId || claimed.status !== 'publishing') {
+    return undefined
+  }
+
+  const { data: newStatus, error } = await supabaseClient
+    .rpc('record_publish_failure', {
+      post_id: postId,
+      error_text: result.error || 'Unknown error occurred',
+      is_transient: !!result.retryable
+    })
+
+  if (error) {
+    console.error('Error recording publish failure:', error)
+    return undefined
+  }
+
+  return newStatus as string
+}
+
+type WordPressSitesRequest =
+  | { action: 'connect'; name: string; url: string; username: string; password: string }
+  | { action: 'test'; siteId: string }
+  | { action: 'rotate'; siteId: string; username?: string; password: string }
+  | { action: 'publish'; siteId: string; post: WordPressPost; postId?: string }
+  | { action: 'update'; siteId: string; wordpressPostId: number; post: Partial<WordPressPost>; postType?: string }
+  | { action: 'get'; siteId: string; wordpressPostId: number; postType?: string }
+  | { action: 'trash'; siteId: string; wordpressPostId: number; postType?: string }
+  | { action: 'terms'; siteId: string }
+  | { action: 'publish-options'; siteId: string }
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const user = await getAuthenticatedUser(req)
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401)
+  }
+
+  try {
+    const request: WordPressSitesRequest = await req.json()
+
+    // Credentials are only readable with the service role, so ownership is checked here instead of by RLS
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if (request.action === 'connect') {
+      const { name, url, username, password } = request
+      if (!name || !url || !username || !password) {
+        return jsonResponse({ error: 'name, url, username and password are required' }, 400)
+      }
+
+      try {
+        await assertPublicSiteUrl(url)
+      } catch (urlError) {
+        return jsonResponse({ error: urlError instanceof Error ? urlError.message : 'Invalid site URL' }, 400)
+      }
+
+      const result = await wordPressService.testConnection({ id: '', name, url, username, password })
+
+      const { data: site, error: insertError } = await supabaseClient
+        .from('wordpress_sites')
+        .insert([{
+          user_id: user.id,
+          name,
+          url,
+          username,
+          status: result.connected ? 'connected' : 'disconnected',
+          ...testColumns(result)
+        }])
+        .select('id, name, url, username, status, credentials_rotated_at, seo_plugin, seo_fields_writable, seo_checked_at, diagnostics, created_at, updated_at')
+        .single()
+
+      if (insertError) {
+        throw new Error(insertError.message)
+      }
+
+      const { error: storeError } = await supabaseClient
+        .rpc('store_wordpress_site_password', { site_id: site.id, new_password: password })
+
+      if (storeError) {
+        // Never leave a site behind that has no way to authenticate
+        await supabaseClient.from('wordpress_sites').delete().eq('id', site.id)
+        throw new Error(storeError.message)
+      }
+
+      return jsonResponse({ site, ...result })
+    }
+
+    const site = await loadWordPressSite(supabaseClient, request.siteId)
+    if (site.user_id !== user.id) {
+      return jsonResponse({ error: 'WordPress site not found' }, 404)
+    }
+
+    switch (request.action) {
+      case 'test': {
+        const result = await wordPressService.testConnection(site)
+        await supabaseClient
+          .from('wordpress_sites')
+          .update({ status: result.connected ? 'connected' : 'disconnected', ...testColumns(result) })
+          .eq('id', site.id)
+
+        return jsonResponse(result)
+      }
+
+      case 'rotate': {
+        if (!request.password) {
+          return jsonResponse({ error: 'password is required' }, 400)
+        }
+
+        // Test the new credentials first so a typo never replaces a working password
+        const candidate: WordPressSite = {
+          ...site,
+          username: request.username || site.username,
+          password: request.password
+        }
+        const result = await wordPressService.testConnection(candidate)
+        if (!result.connected) {
+          const failure = result.diagnostics.checks.find(check => check.status === 'fail')
+          return jsonResponse({
+            error: `WordPress rejected the new credentials${failure ? `: ${failure.message}` : ''}. The current credentials were kept.`,
+            diagnostics: result.diagnostics
+          }, 400)
+        }
+
+        const { error: storeError } = await supabaseClient
+          .rpc('store_wordpress_site_password', { site_id: site.id, new_password: candidate.password })
+
+        if (storeError) {
+          throw new Error(storeError.message)
+        }
+
+        const now = new Date().toISOString()
+        await supabaseClient
+          .from('wordpress_sites')
+          .update({
+            username: candidate.username,
+            status: 'connected',
+            credentials_rotated_at: now,
+            ...testColumns(result)
+          })
+          .eq('id', site.id)
+
+        return jsonResponse({ ...result, rotatedAt: now })
+      }
+
+      // WordPress failures are returned as results rather than errors. Failed attempts of the app's posts are
+      // recorded here, failing refunds a post so users cannot record failures themselves.
+      case 'publish': {
+        const result = await wordPressService.publishPost(site, request.post)
+        if (result.success || !request.postId) {
+          return jsonResponse(result)
+        }
+
+        const postStatus = await recordPublishFailure(supabaseClient, user.id, request.postId, result)
+        return jsonResponse({ ...result, postStatus })
+      }
+
+      case 'update':
+        return jsonResponse(await wordPressService.updatePost(site, request.wordpressPostId, request.post, request.postType))
+
+      case 'get':
+        return jsonResponse(await wordPressService.getPost(site, request.wordpressPostId, request.postType))
+
+      case 'trash':
+        return jsonResponse(await wordPressService.trashPost(site, request.wordpressPostId, request.postType))
+
+      case 'terms': {
+        const [categories, tags] = await Promise.all([
+          wordPressService.listTerms(site, 'categories'),
+          wordPressService.listTerms(site, 'tags')
+        ])
+        if (!categories.success) {
+          return jsonResponse(categories)
+        }
+        if (!tags.success) {
+          return jsonResponse(tags)
+        }
+        return jsonResponse({ success: true, categories: categories.terms, tags: tags.terms })
+      }
+
+      case 'publish-options':
+        return jsonResponse(await wordPressService.getPublishOptions(site))
+
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+  } catch (error) {
+    console.error('Error handling WordPress site request:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'WordPress request failed' }, 500)
+  }
+})
@@ -0,0 +1,107 @@
+/*
+  # Server-Side Schedule Processing
+
+  1. Functions
+    - `calculate_post_cost` - Points cost of one post (frequency cost + word count cost),
+      mirroring the cost breakdown shown on the Post Schedule page
+    - `update_next_post_date` - Recreated so stop conditions are evaluated against the
+      post that was just generated instead of the previous one
+
+  2. Changes
+    - `post_count` schedules complete as soon as `posts_generated` reaches `max_posts`
+    - `date` schedules complete when the next post would fall after `stop_date`
+    - Overdue schedules skip missed slots instead of generating a backlog of posts
+*/
+
+-- Function to calculate the points cost of a single post
+CREATE OR REPLACE FUNCTION calculate_post_cost(
+  frequency_type text,
+  word_count integer
+)
+RETURNS integer AS $$
+DECLARE
+  frequency_cost integer;
+  word_count_cost integer;
+BEGIN
+  frequency_cost := CASE frequency_type
+    WHEN 'daily' THEN 10
+    WHEN 'weekly' THEN 5
+    WHEN 'biweekly' THEN 3
+    WHEN 'monthly' THEN 2
+    ELSE 0
+  END;
+
+  word_count_cost := CASE
+    WHEN word_count >= 2000 THEN 20
+    WHEN word_count >= 1500 THEN 15
+    WHEN word_count >= 1000 THEN 10
+    ELSE 5
+  END;
+
+  RETURN frequency_cost + word_count_cost;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Recreate update_next_post_date so it counts the post that was just generated
+CREATE OR REPLACE FUNCTION update_next_post_date(schedule_id uuid)
+RETURNS void AS $$
+DECLARE
+  schedule_record post_schedules%ROWTYPE;
+  step interval;
+  next_date timestamptz;
+  new_posts_generated integer;
+  should_stop boolean := false;
+BEGIN
+  -- Get the schedule record
+  SELECT * INTO schedule_record FROM post_schedules WHERE id = schedule_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  new_posts_generated := COALESCE(schedule_record.posts_generated, 0) + 1;
+
+  -- Calculate the interval based on frequency
+  step := CASE schedule_record.frequency
+    WHEN 'daily' THEN interval '1 day'
+    WHEN 'weekly' THEN interval '1 week'
+    WHEN 'biweekly' THEN interval '2 weeks'
+    WHEN 'monthly' THEN interval '1 month'
+  END;
+
+  next_date := COALESCE(schedule_record.next_post_date, now()) + step;
+
+  -- Skip any slots that were missed while nothing was processing the schedule
+  WHILE next_date <= now() LOOP
+    next_date := next_date + step;
+  END LOOP;
+
+  -- Check stopping conditions
+  CASE schedule_record.stop_condition
+    WHEN 'date' THEN
+      IF schedule_record.stop_date IS NOT NULL AND next_date > schedule_record.stop_date THEN
+        should_stop := true;
+      END IF;
+    WHEN 'post_count' THEN
+      IF schedule_record.max_posts IS NOT NULL AND new_posts_generated >= schedule_record.max_posts THEN
+        should_stop := true;
+      END IF;
+    ELSE
+      -- 'never' keeps going, 'points_exhausted' is checked before each generation
+      should_stop := false;
+  END CASE;
+
+  -- Update the schedule
+  UPDATE post_schedules
+  SET
+    next_post_date = next_date,
+    posts_generated = new_posts_generated,
+    status = CASE WHEN should_stop THEN 'completed' ELSE status END,
+    updated_at = now()
+  WHERE id = schedule_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION calculate_post_cost(text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_post_cost(text, integer) TO service_role;
@@ -0,0 +1,366 @@
+/*
+  # Points Ledger
+
+  1. New Tables
+    - `user_points_ledger`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `entry_type` (text, 'opening_balance', 'allocation', 'debit', 'refund')
+      - `amount` (integer, positive for credits, negative for debits)
+      - `status` (text, 'reserved', 'committed', 'refunded')
+      - `scheduled_post_id` (uuid, post the debit paid for)
+      - `schedule_id` (uuid, schedule the debit was made for)
+      - `refund_of` (uuid, debit entry a refund reverses)
+      - `paypal_subscription_id` (text, subscription an allocation came from)
+      - `description` (text)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Functions
+    - `debit_points_for_post` - Reserve the cost of a post before content is generated
+    - `commit_points_for_post` - Attach a reservation to the post it paid for
+    - `refund_points_for_post` - Give back a reservation or the debit of a failed post
+    - `reconcile_user_points` - Rebuild `user_points` from the ledger
+    - `initialize_user_points`, `add_points_to_user`, `allocate_points_with_history` now
+      credit points through the ledger
+
+  3. Triggers
+    - Every ledger entry recalculates `user_points.points_remaining`, so the ledger is the
+      single source for the balance
+    - Posts that end in `failed` refund their debit automatically
+
+  4. Security
+    - Enable RLS on `user_points_ledger`, users can only read their own entries
+    - Ledger writes only happen through SECURITY DEFINER functions, which pin `search_path` to `public` so
+      callers cannot shadow the tables they use
+*/
+
+-- Create user_points_ledger table
+CREATE TABLE IF NOT EXISTS user_points_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  entry_type text NOT NULL CHECK (entry_type IN ('opening_balance', 'allocation', 'debit', 'refund')),
+  amount integer NOT NULL,
+  status text NOT NULL DEFAULT 'committed' CHECK (status IN ('reserved', 'committed', 'refunded')),
+  scheduled_post_id uuid REFERENCES scheduled_posts(id) ON DELETE SET NULL,
+  schedule_id uuid REFERENCES post_schedules(id) ON DELETE SET NULL,
+  refund_of uuid REFERENCES user_points_ledger(id) ON DELETE SET NULL,
+  paypal_subscription_id text,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE user_points_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own points ledger"
+  ON user_points_ledger
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage points ledger"
+  ON user_points_ledger
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_user_points_ledger_user_id ON user_points_ledger(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_points_ledger_scheduled_post_id ON user_points_ledger(scheduled_post_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_points_ledger_refund_of ON user_points_ledger(refund_of) WHERE refund_of IS NOT NULL;
+
+CREATE TRIGGER update_user_points_ledger_updated_at
+  BEFORE UPDATE ON user_points_ledger
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Carry existing balances over as opening entries
+INSERT INTO user_points_ledger (user_id, entry_type, amount, description)
+SELECT user_id, 'opening_balance', points_remaining, 'Balance before points ledger'
+FROM user_points
+WHERE points_remaining <> 0;
+
+-- Recalculate a user's balance from the ledger
+CREATE OR REPLACE FUNCTION reconcile_user_points(target_user_id uuid)
+RETURNS integer AS $$
+DECLARE
+  ledger_balance integer;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO ledger_balance
+  FROM user_points_ledger
+  WHERE user_id = target_user_id;
+
+  INSERT INTO user_points (user_id, points_remaining, points_total, last_reset, updated_at)
+  VALUES (target_user_id, ledger_balance, ledger_balance, now(), now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET
+    points_remaining = ledger_balance,
+    points_total = GREATEST(user_points.points_total, ledger_balance),
+    updated_at = now();
+
+  RETURN ledger_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep user_points in step with the ledger
+CREATE OR REPLACE FUNCTION apply_points_ledger_entry()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM reconcile_user_points(NEW.user_id);
+
+  IF NEW.entry_type = 'allocation' THEN
+    UPDATE user_points SET last_reset = now() WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_points_ledger_entry
+  AFTER INSERT ON user_points_ledger
+  FOR EACH ROW EXECUTE FUNCTION apply_points_ledger_entry();
+
+-- New users get their free plan points as a ledger allocation
+CREATE OR REPLACE FUNCTION initialize_user_points(target_user_id uuid)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO user_points (user_id, points_remaining, points_total, last_reset, updated_at)
+  VALUES (target_user_id, 0, 0, now(), now())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  IF FOUND THEN
+    INSERT INTO user_points_ledger (user_id, entry_type, amount, description)
+    VALUES (target_user_id, 'allocation', 50, 'Free plan points');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate add_points_to_user on top of the ledger
+CREATE OR REPLACE FUNCTION add_points_to_user(
+  target_user_id uuid,
+  points_to_add integer
+)
+RETURNS integer AS $$
+BEGIN
+  PERFORM initialize_user_points(target_user_id);
+
+  INSERT INTO user_points_ledger (user_id, entry_type, amount, description)
+  VALUES (target_user_id, 'allocation', points_to_add, 'Points added');
+
+  RETURN (SELECT points_remaining FROM user_points WHERE user_id = target_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate allocate_points_with_history on top of the ledger
+CREATE OR REPLACE FUNCTION allocate_points_with_history(
+  target_user_id uuid,
+  points_to_add integer,
+  subscription_id text,
+  plan_amount decimal(10,2)
+)
+RETURNS boolean AS $$
+DECLARE
+  existing_count integer;
+  lock_key bigint;
+BEGIN
+  -- Create a unique lock key based on user_id and subscription_id
+  lock_key := ('x' || substr(md5(target_user_id::text || subscription_id), 1, 15))::bit(60)::bigint;
+
+  -- Acquire advisory lock to prevent concurrent execution
+  PERFORM pg_advisory_lock(lock_key);
+
+  BEGIN
+    -- Check if allocation already exists (within the lock)
+    SELECT COUNT(*) INTO existing_count
+    FROM payment_history
+    WHERE user_id = target_user_id
+      AND paypal_subscription_id = subscription_id
+      AND event_type IN ('webhook_points_allocation', 'manual_points_allocation', 'subscription_activated', 'payment_completed', 'atomic_allocation');
+
+    IF existing_count > 0 THEN
+      RAISE NOTICE 'Points already allocated for subscription % (found % existing records)', subscription_id, existing_count;
+      PERFORM pg_advisory_unlock(lock_key);
+      RETURN false;
+    END IF;
+
+    PERFORM initialize_user_points(target_user_id);
+
+    -- Credit the points through the ledger
+    INSERT INTO user_points_ledger (user_id, entry_type, amount, paypal_subscription_id, description)
+    VALUES (target_user_id, 'allocation', points_to_add, subscription_id, 'Subscription points');
+
+    -- Log the allocation
+    INSERT INTO payment_history (
+      user_id,
+      paypal_subscription_id,
+      event_type,
+      amount,
+      currency,
+      created_at
+    ) VALUES (
+      target_user_id,
+      subscription_id,
+      'atomic_allocation',
+      plan_amount,
+      'USD',
+      now()
+    );
+
+    PERFORM pg_advisory_unlock(lock_key);
+
+    RAISE NOTICE 'Successfully allocated % points to user %', points_to_add, target_user_id;
+    RETURN true;
+
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Release lock on any error
+      PERFORM pg_advisory_unlock(lock_key);
+      RAISE;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reserve the cost of a post. Returns the ledger entry id, or NULL when the balance is too low.
+CREATE OR REPLACE FUNCTION debit_points_for_post(
+  target_user_id uuid,
+  frequency_type text,
+  word_count integer,
+  p_schedule_id uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  post_cost integer;
+  current_points integer;
+  entry_id uuid;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> target_user_id THEN
+    RAISE EXCEPTION 'Cannot debit points for another user';
+  END IF;
+
+  PERFORM initialize_user_points(target_user_id);
+
+  post_cost := calculate_post_cost(frequency_type, word_count);
+
+  -- Lock the balance so concurrent reservations cannot overspend
+  SELECT points_remaining INTO current_points
+  FROM user_points
+  WHERE user_id = target_user_id
+  FOR UPDATE;
+
+  IF current_points < post_cost THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO user_points_ledger (user_id, entry_type, amount, status, schedule_id, description)
+  VALUES (target_user_id, 'debit', -post_cost, 'reserved', p_schedule_id, 'Post generation')
+  RETURNING id INTO entry_id;
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Commit a reservation once the post it paid for has been saved
+CREATE OR REPLACE FUNCTION commit_points_for_post(
+  ledger_entry_id uuid,
+  post_id uuid
+)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE user_points_ledger
+  SET
+    status = 'committed',
+    scheduled_post_id = post_id
+  WHERE id = ledger_entry_id
+    AND entry_type = 'debit'
+    AND status = 'reserved'
+    AND (auth.uid() IS NULL OR auth.uid() = user_id);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refund a debit. Only reservations and debits of failed posts can be refunded, and only once.
+CREATE OR REPLACE FUNCTION refund_points_for_post(
+  ledger_entry_id uuid,
+  reason text DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  debit_entry user_points_ledger%ROWTYPE;
+  post_status text;
+BEGIN
+  SELECT * INTO debit_entry
+  FROM user_points_ledger
+  WHERE id = ledger_entry_id
+    AND entry_type = 'debit'
+  FOR UPDATE;
+
+  IF NOT FOUND OR debit_entry.status = 'refunded' THEN
+    RETURN false;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> debit_entry.user_id THEN
+    RAISE EXCEPTION 'Cannot refund points for another user';
+  END IF;
+
+  IF debit_entry.status = 'committed' THEN
+    SELECT status INTO post_status FROM scheduled_posts WHERE id = debit_entry.scheduled_post_id;
+
+    IF post_status IS DISTINCT FROM 'failed' THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  UPDATE user_points_ledger
+  SET status = 'refunded'
+  WHERE id = debit_entry.id;
+
+  INSERT INTO user_points_ledger (user_id, entry_type, amount, scheduled_post_id, schedule_id, refund_of, description)
+  VALUES (
+    debit_entry.user_id,
+    'refund',
+    -debit_entry.amount,
+    debit_entry.scheduled_post_id,
+    debit_entry.schedule_id,
+    debit_entry.id,
+    COALESCE(reason, 'Post failed')
+  );
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refund automatically when a post ends in failed
+CREATE OR REPLACE FUNCTION refund_points_for_failed_post()
+RETURNS trigger AS $$
+DECLARE
+  debit_id uuid;
+BEGIN
+  FOR debit_id IN
+    SELECT id FROM user_points_ledger
+    WHERE scheduled_post_id = NEW.id
+      AND entry_type = 'debit'
+      AND status = 'committed'
+  LOOP
+    PERFORM refund_points_for_post(debit_id, COALESCE(NEW.error_message, 'Post failed'));
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refund_points_for_failed_post
+  AFTER UPDATE OF status ON scheduled_posts
+  FOR EACH ROW
+  WHEN (NEW.status = 'failed' AND OLD.status IS DISTINCT FROM 'failed')
+  EXECUTE FUNCTION refund_points_for_failed_post();
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION debit_points_for_post(uuid, text, integer, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION debit_points_for_post(uuid, text, integer, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION commit_points_for_post(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION commit_points_for_post(uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_points_for_post(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION refund_points_for_post(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION reconcile_user_points(uuid) TO service_role;
@@ -0,0 +1,157 @@
+/*
+  # Publish Retries and Dead Letter Status
+
+  1. Schema Updates
+    - `scheduled_posts.attempt_count` (integer) - Publish attempts made so far
+    - `scheduled_posts.next_attempt_at` (timestamptz) - Earliest time the next attempt may run
+    - `scheduled_posts.last_error` (text) - Error from the most recent attempt
+    - `scheduled_posts.status` now also allows 'dead_letter' for posts that will not be retried
+
+  2. Functions
+    - `record_publish_failure` - Schedules a retry with exponential backoff for transient
+      errors, or moves the post to 'dead_letter' for permanent errors and exhausted retries
+    - `retry_scheduled_post` - Puts a dead-lettered or failed post back in the queue
+    - `refund_points_for_post` - Recreated so dead-lettered posts are refunded too
+
+  3. Triggers
+    - Refund trigger now fires for 'dead_letter' as well as 'failed'
+*/
+
+-- Add retry tracking columns
+ALTER TABLE scheduled_posts
+ADD COLUMN IF NOT EXISTS attempt_count integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz,
+ADD COLUMN IF NOT EXISTS last_error text;
+
+-- Allow the dead_letter status
+ALTER TABLE scheduled_posts DROP CONSTRAINT IF EXISTS scheduled_posts_status_check;
+ALTER TABLE scheduled_posts ADD CONSTRAINT scheduled_posts_status_check
+  CHECK (status IN ('pending', 'published', 'failed', 'draft', 'dead_letter'));
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_next_attempt_at ON scheduled_posts(next_attempt_at) WHERE status = 'pending';
+
+-- Record a failed publish attempt and decide whether to retry
+CREATE OR REPLACE FUNCTION record_publish_failure(
+  post_id uuid,
+  error_text text,
+  is_transient boolean
+)
+RETURNS text AS $$
+DECLARE
+  max_attempts constant integer := 5;
+  base_delay constant interval := interval '2 minutes';
+  max_delay constant interval := interval '6 hours';
+  new_attempt_count integer;
+  new_status text;
+BEGIN
+  SELECT attempt_count + 1 INTO new_attempt_count
+  FROM scheduled_posts
+  WHERE id = post_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF is_transient AND new_attempt_count < max_attempts THEN
+    new_status := 'pending';
+  ELSE
+    new_status := 'dead_letter';
+  END IF;
+
+  UPDATE scheduled_posts
+  SET
+    status = new_status,
+    attempt_count = new_attempt_count,
+    last_error = error_text,
+    error_message = error_text,
+    next_attempt_at = CASE
+      WHEN new_status = 'pending' THEN now() + LEAST(base_delay * power(2, new_attempt_count - 1), max_delay)
+      ELSE NULL
+    END
+  WHERE id = post_id;
+
+  RETURN new_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Put a post back in the queue for an immediate attempt
+CREATE OR REPLACE FUNCTION retry_scheduled_post(post_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE scheduled_posts
+  SET
+    status = 'pending',
+    attempt_count = 0,
+    next_attempt_at = NULL,
+    error_message = NULL
+  WHERE id = post_id
+    AND status IN ('failed', 'dead_letter');
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Dead-lettered posts are refunded the same way as failed ones
+CREATE OR REPLACE FUNCTION refund_points_for_post(
+  ledger_entry_id uuid,
+  reason text DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  debit_entry user_points_ledger%ROWTYPE;
+  post_status text;
+BEGIN
+  SELECT * INTO debit_entry
+  FROM user_points_ledger
+  WHERE id = ledger_entry_id
+    AND entry_type = 'debit'
+  FOR UPDATE;
+
+  IF NOT FOUND OR debit_entry.status = 'refunded' THEN
+    RETURN false;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> debit_entry.user_id THEN
+    RAISE EXCEPTION 'Cannot refund points for another user';
+  END IF;
+
+  IF debit_entry.status = 'committed' THEN
+    SELECT status INTO post_status FROM scheduled_posts WHERE id = debit_entry.scheduled_post_id;
+
+    IF post_status IS NULL OR post_status NOT IN ('failed', 'dead_letter') THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  UPDATE user_points_ledger
+  SET status = 'refunded'
+  WHERE id = debit_entry.id;
+
+  INSERT INTO user_points_ledger (user_id, entry_type, amount, scheduled_post_id, schedule_id, refund_of, description)
+  VALUES (
+    debit_entry.user_id,
+    'refund',
+    -debit_entry.amount,
+    debit_entry.scheduled_post_id,
+    debit_entry.schedule_id,
+    debit_entry.id,
+    COALESCE(reason, 'Post failed')
+  );
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refund_points_for_failed_post ON scheduled_posts;
+CREATE TRIGGER refund_points_for_failed_post
+  AFTER UPDATE OF status ON scheduled_posts
+  FOR EACH ROW
+  WHEN (NEW.status IN ('failed', 'dead_letter') AND OLD.status NOT IN ('failed', 'dead_letter'))
+  EXECUTE FUNCTION refund_points_for_failed_post();
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION record_publish_failure(uuid, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_publish_failure(uuid, text, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION retry_scheduled_post(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION retry_scheduled_post(uuid) TO service_role;
@@ -0,0 +1,200 @@
+/*
+  # Concurrency-Safe Job Claiming
+
+  1. Schema Updates
+    - `scheduled_posts.status` now also allows 'publishing' while a worker holds the post
+    - `scheduled_posts.lease_expires_at` (timestamptz) - When a publishing claim goes stale
+    - `post_schedules.lease_expires_at` (timestamptz) - When a generation claim goes stale
+
+  2. Functions
+    - `claim_scheduled_posts` - Atomically claims due pending posts with FOR UPDATE SKIP LOCKED
+    - `claim_scheduled_post` - Claims a single post, used by "publish now" in the app
+    - `claim_due_schedules` - Atomically claims active schedules whose next post is due
+    - `release_stale_leases` - Returns posts and schedules held by crashed workers to the queue
+    - `update_next_post_date` - Recreated to release the schedule's generation claim
+
+  3. Notes
+    - Overlapping worker runs skip rows another run has locked or leased, so a post is only
+      ever sent to WordPress by one worker at a time
+*/
+
+-- Add lease columns
+ALTER TABLE scheduled_posts
+ADD COLUMN IF NOT EXISTS lease_expires_at timestamptz;
+
+ALTER TABLE post_schedules
+ADD COLUMN IF NOT EXISTS lease_expires_at timestamptz;
+
+-- Allow the publishing status
+ALTER TABLE scheduled_posts DROP CONSTRAINT IF EXISTS scheduled_posts_status_check;
+ALTER TABLE scheduled_posts ADD CONSTRAINT scheduled_posts_status_check
+  CHECK (status IN ('pending', 'publishing', 'published', 'failed', 'draft', 'dead_letter'));
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_lease_expires_at ON scheduled_posts(lease_expires_at) WHERE status = 'publishing';
+
+-- Return work held by workers that never finished to the queue
+CREATE OR REPLACE FUNCTION release_stale_leases()
+RETURNS integer AS $$
+DECLARE
+  stale_post_id uuid;
+  released integer := 0;
+BEGIN
+  -- A stale publish counts as a failed attempt so a post that keeps crashing the worker ends in dead_letter
+  FOR stale_post_id IN
+    SELECT id FROM scheduled_posts
+    WHERE status = 'publishing'
+      AND lease_expires_at < now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM record_publish_failure(stale_post_id, 'Publishing lease expired before the worker finished', true);
+    UPDATE scheduled_posts SET lease_expires_at = NULL WHERE id = stale_post_id;
+    released := released + 1;
+  END LOOP;
+
+  UPDATE post_schedules
+  SET lease_expires_at = NULL
+  WHERE lease_expires_at < now();
+
+  RETURN released;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claim a batch of posts that are ready to be published
+CREATE OR REPLACE FUNCTION claim_scheduled_posts(
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF scheduled_posts AS $$
+BEGIN
+  PERFORM release_stale_leases();
+
+  RETURN QUERY
+  UPDATE scheduled_posts
+  SET
+    status = 'publishing',
+    lease_expires_at = now() + make_interval(secs => lease_seconds)
+  WHERE id IN (
+    SELECT id FROM scheduled_posts
+    WHERE status = 'pending'
+      AND scheduled_for <= now()
+      AND (next_attempt_at IS NULL OR next_attempt_at <= now())
+    ORDER BY scheduled_for
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claim one post for an immediate publish. Returns false if a worker already holds it.
+CREATE OR REPLACE FUNCTION claim_scheduled_post(
+  post_id uuid,
+  lease_seconds integer DEFAULT 300
+)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE scheduled_posts
+  SET
+    status = 'publishing',
+    lease_expires_at = now() + make_interval(secs => lease_seconds)
+  WHERE id = (
+    SELECT id FROM scheduled_posts
+    WHERE id = post_id
+      AND status IN ('pending', 'draft', 'failed')
+    FOR UPDATE SKIP LOCKED
+  );
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claim a batch of schedules whose next post is due
+CREATE OR REPLACE FUNCTION claim_due_schedules(
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 600
+)
+RETURNS SETOF post_schedules AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE post_schedules
+  SET lease_expires_at = now() + make_interval(secs => lease_seconds)
+  WHERE id IN (
+    SELECT id FROM post_schedules
+    WHERE status = 'active'
+      AND next_post_date <= now()
+      AND (lease_expires_at IS NULL OR lease_expires_at < now())
+    ORDER BY next_post_date
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recreate update_next_post_date so advancing a schedule also releases its claim
+CREATE OR REPLACE FUNCTION update_next_post_date(schedule_id uuid)
+RETURNS void AS $$
+DECLARE
+  schedule_record post_schedules%ROWTYPE;
+  step interval;
+  next_date timestamptz;
+  new_posts_generated integer;
+  should_stop boolean := false;
+BEGIN
+  -- Get the schedule record
+  SELECT * INTO schedule_record FROM post_schedules WHERE id = schedule_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  new_posts_generated := COALESCE(schedule_record.posts_generated, 0) + 1;
+
+  -- Calculate the interval based on frequency
+  step := CASE schedule_record.frequency
+    WHEN 'daily' THEN interval '1 day'
+    WHEN 'weekly' THEN interval '1 week'
+    WHEN 'biweekly' THEN interval '2 weeks'
+    WHEN 'monthly' THEN interval '1 month'
+  END;
+
+  next_date := COALESCE(schedule_record.next_post_date, now()) + step;
+
+  -- Skip any slots that were missed while nothing was processing the schedule
+  WHILE next_date <= now() LOOP
+    next_date := next_date + step;
+  END LOOP;
+
+  -- Check stopping conditions
+  CASE schedule_record.stop_condition
+    WHEN 'date' THEN
+      IF schedule_record.stop_date IS NOT NULL AND next_date > schedule_record.stop_date THEN
+        should_stop := true;
+      END IF;
+    WHEN 'post_count' THEN
+      IF schedule_record.max_posts IS NOT NULL AND new_posts_generated >= schedule_record.max_posts THEN
+        should_stop := true;
+      END IF;
+    ELSE
+      -- 'never' keeps going, 'points_exhausted' is checked before each generation
+      should_stop := false;
+  END CASE;
+
+  -- Update the schedule
+  UPDATE post_schedules
+  SET
+    next_post_date = next_date,
+    posts_generated = new_posts_generated,
+    status = CASE WHEN should_stop THEN 'completed' ELSE status END,
+    lease_expires_at = NULL,
+    updated_at = now()
+  WHERE id = schedule_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION claim_scheduled_post(uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_scheduled_post(uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_scheduled_posts(integer, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_due_schedules(integer, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION release_stale_leases() TO service_role;
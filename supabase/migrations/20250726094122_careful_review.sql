@@ -0,0 +1,79 @@
+/*
+  # Draft Review and Approval
+
+  1. Schema Updates
+    - `post_schedules.requires_approval` (boolean) - Generated posts wait for a reviewer before publishing
+    - `scheduled_posts.status` now also allows 'awaiting_review' and 'rejected'
+    - `scheduled_posts.review_notes` (text) - Reviewer feedback from the latest review
+    - `scheduled_posts.reviewed_at` (timestamptz) - When the post was last approved or rejected
+    - `scheduled_posts.reviewed_by` (uuid) - Who approved or rejected the post
+
+  2. Functions
+    - `approve_scheduled_post` - Moves a post from 'awaiting_review' to 'pending' so the worker can publish it
+    - `reject_scheduled_post` - Moves a post from 'awaiting_review' to 'rejected'
+
+  3. Notes
+    - The worker only claims 'pending' posts and "publish now" only claims pending, draft or failed
+      posts, so nothing awaiting review or rejected is ever published
+    - Rejected posts keep their points charge, the content was still generated
+*/
+
+-- Add approval settings and review tracking
+ALTER TABLE post_schedules
+ADD COLUMN IF NOT EXISTS requires_approval boolean NOT NULL DEFAULT false;
+
+ALTER TABLE scheduled_posts
+ADD COLUMN IF NOT EXISTS review_notes text,
+ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Allow the review statuses
+ALTER TABLE scheduled_posts DROP CONSTRAINT IF EXISTS scheduled_posts_status_check;
+ALTER TABLE scheduled_posts ADD CONSTRAINT scheduled_posts_status_check
+  CHECK (status IN ('awaiting_review', 'pending', 'publishing', 'published', 'failed', 'draft', 'dead_letter', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_awaiting_review ON scheduled_posts(user_id) WHERE status = 'awaiting_review';
+
+-- Approve a post for publishing at its scheduled time
+CREATE OR REPLACE FUNCTION approve_scheduled_post(
+  post_id uuid,
+  notes text DEFAULT NULL
+)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE scheduled_posts
+  SET
+    status = 'pending',
+    review_notes = notes,
+    reviewed_at = now(),
+    reviewed_by = auth.uid()
+  WHERE id = post_id
+    AND status = 'awaiting_review';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reject a post so it is never published
+CREATE OR REPLACE FUNCTION reject_scheduled_post(
+  post_id uuid,
+  notes text DEFAULT NULL
+)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE scheduled_posts
+  SET
+    status = 'rejected',
+    review_notes = notes,
+    reviewed_at = now(),
+    reviewed_by = auth.uid()
+  WHERE id = post_id
+    AND status = 'awaiting_review';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION approve_scheduled_post(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_scheduled_post(uuid, text) TO authenticated;
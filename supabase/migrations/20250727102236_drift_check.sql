@@ -0,0 +1,15 @@
+/*
+  # WordPress Sync Tracking
+
+  1. Schema Updates
+    - `scheduled_posts.content_hash` (text) - SHA-256 of the title, content and excerpt as last sent to WordPress
+    - `scheduled_posts.synced_at` (timestamptz) - When the post was last created or updated on WordPress
+
+  2. Notes
+    - Comparing the hash with the local copy shows unpushed edits, comparing it with the
+      remote copy shows edits made directly in WordPress
+*/
+
+ALTER TABLE scheduled_posts
+ADD COLUMN IF NOT EXISTS content_hash text,
+ADD COLUMN IF NOT EXISTS synced_at timestamptz;
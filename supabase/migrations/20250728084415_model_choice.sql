@@ -0,0 +1,12 @@
+/*
+  # Per-Schedule Model Selection
+
+  1. Schema Updates
+    - `post_schedules.model` (text) - Model used to generate the schedule's posts
+
+  2. Notes
+    - NULL uses the default model of the configured provider (LLM_MODEL for edge functions)
+*/
+
+ALTER TABLE post_schedules
+ADD COLUMN IF NOT EXISTS model text;
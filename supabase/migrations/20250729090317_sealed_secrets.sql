@@ -0,0 +1,113 @@
+/*
+  # Encrypted WordPress Application Passwords
+
+  1. Schema Updates
+    - `wordpress_sites.password_secret_id` (uuid) - Supabase Vault secret holding the application password
+    - `wordpress_sites.credentials_rotated_at` (timestamptz) - When the credentials were last replaced
+    - `wordpress_sites.password` is moved into Vault and dropped, so it can no longer be selected
+
+  2. Functions
+    - `store_wordpress_site_password` - Creates or replaces a site's Vault secret
+    - `get_wordpress_site_credentials` - Returns the decrypted credentials for a site
+    - `delete_wordpress_site_secret` - Trigger function removing the secret with its site
+
+  3. Security
+    - The credential functions are only executable by service_role, so passwords are only ever
+      decrypted inside edge functions and never returned to the browser
+*/
+
+ALTER TABLE wordpress_sites
+ADD COLUMN IF NOT EXISTS password_secret_id uuid,
+ADD COLUMN IF NOT EXISTS credentials_rotated_at timestamptz;
+
+-- Move existing plaintext passwords into Vault
+DO $$
+DECLARE
+  site record;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'wordpress_sites' AND column_name = 'password'
+  ) THEN
+    FOR site IN
+      EXECUTE 'SELECT id, password FROM wordpress_sites WHERE password IS NOT NULL AND password_secret_id IS NULL'
+    LOOP
+      UPDATE wordpress_sites
+      SET password_secret_id = vault.create_secret(site.password, 'wordpress_site_password_' || site.id)
+      WHERE id = site.id;
+    END LOOP;
+
+    ALTER TABLE wordpress_sites DROP COLUMN password;
+  END IF;
+END $$;
+
+-- Create or replace the password for a site
+CREATE OR REPLACE FUNCTION store_wordpress_site_password(
+  site_id uuid,
+  new_password text
+)
+RETURNS void AS $$
+DECLARE
+  existing_secret_id uuid;
+BEGIN
+  SELECT password_secret_id INTO existing_secret_id
+  FROM wordpress_sites
+  WHERE id = site_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'WordPress site % not found', site_id;
+  END IF;
+
+  IF existing_secret_id IS NULL THEN
+    UPDATE wordpress_sites
+    SET password_secret_id = vault.create_secret(new_password, 'wordpress_site_password_' || site_id)
+    WHERE id = site_id;
+  ELSE
+    PERFORM vault.update_secret(existing_secret_id, new_password);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Decrypt the credentials for a site
+CREATE OR REPLACE FUNCTION get_wordpress_site_credentials(site_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  url text,
+  username text,
+  password text
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT ws.id, ws.user_id, ws.name, ws.url, ws.username, ds.decrypted_secret
+  FROM wordpress_sites ws
+  LEFT JOIN vault.decrypted_secrets ds ON ds.id = ws.password_secret_id
+  WHERE ws.id = site_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Remove the Vault secret along with its site
+CREATE OR REPLACE FUNCTION delete_wordpress_site_secret()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.password_secret_id IS NOT NULL THEN
+    DELETE FROM vault.secrets WHERE id = OLD.password_secret_id;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS delete_wordpress_site_secret ON wordpress_sites;
+CREATE TRIGGER delete_wordpress_site_secret
+  AFTER DELETE ON wordpress_sites
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_wordpress_site_secret();
+
+-- Only edge functions may read or write credentials
+REVOKE EXECUTE ON FUNCTION store_wordpress_site_password(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_wordpress_site_credentials(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION store_wordpress_site_password(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION get_wordpress_site_credentials(uuid) TO service_role;
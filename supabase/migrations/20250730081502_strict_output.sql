@@ -0,0 +1,14 @@
+/*
+  # Generation Validation Outcome
+
+  1. Schema Updates
+    - `scheduled_posts.generation_validation` (jsonb) - How the generated post passed schema validation:
+      `status` ('valid', 'repaired' or 'retried'), `attempts`, the field `errors` found in the first
+      response and the automatic `repairs` that were applied
+
+  2. Notes
+    - Posts generated before validation existed keep a null value
+*/
+
+ALTER TABLE scheduled_posts
+ADD COLUMN IF NOT EXISTS generation_validation jsonb;
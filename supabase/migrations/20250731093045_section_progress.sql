@@ -0,0 +1,43 @@
+/*
+  # Generation Progress
+
+  1. New Tables
+    - `generation_progress`
+      - `id` (uuid, primary key) - Chosen by the app when it starts a generation
+      - `user_id` (uuid, foreign key to auth.users)
+      - `stage` (text) - 'outline', 'sections' or 'word_count'
+      - `completed_steps` (integer)
+      - `total_steps` (integer)
+      - `message` (text) - Shown to the user, e.g. "Writing section 3 of 6"
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS; users can read their own rows
+    - Rows are written by the generate-post edge function with the service role
+
+  3. Notes
+    - Long-form posts are written one section at a time, so the Post Schedule page polls this table
+      while a post is generated; the row is removed once generation finishes
+*/
+
+CREATE TABLE IF NOT EXISTS generation_progress (
+  id uuid PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  stage text NOT NULL CHECK (stage IN ('outline', 'sections', 'word_count')),
+  completed_steps integer NOT NULL DEFAULT 0,
+  total_steps integer NOT NULL DEFAULT 1,
+  message text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE generation_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own generation progress"
+  ON generation_progress
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS generation_progress_user_id_idx ON generation_progress(user_id);
@@ -0,0 +1,93 @@
+/*
+  # Brand Voice Profiles
+
+  1. New Tables
+    - `brand_voices`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `wordpress_site_id` (uuid, nullable) - Site the voice belongs to; null makes it available for every site
+      - `name` (text)
+      - `tone` (text) - e.g. "Warm and witty, never sarcastic"
+      - `audience` (text) - Who the posts are written for
+      - `reading_level` (text) - 'easy', 'standard', 'advanced' or 'expert'
+      - `banned_words` (text[]) - Words and phrases posts must never use
+      - `preferred_phrases` (text[]) - Phrasing to use where it fits
+      - `sample_paragraphs` (text[]) - Writing the posts should sound like
+      - `is_site_default` (boolean) - Used for the site's schedules that do not pick a voice
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Schema Updates
+    - `post_schedules.brand_voice_id` (uuid) - Voice chosen for the schedule's posts
+
+  3. Security
+    - Enable RLS on `brand_voices`; users manage their own voices
+
+  4. Notes
+    - Only one default voice per site, enforced by a partial unique index
+*/
+
+CREATE TABLE IF NOT EXISTS brand_voices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  wordpress_site_id uuid REFERENCES wordpress_sites(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  tone text NOT NULL DEFAULT '',
+  audience text NOT NULL DEFAULT '',
+  reading_level text NOT NULL DEFAULT 'standard' CHECK (reading_level IN ('easy', 'standard', 'advanced', 'expert')),
+  banned_words text[] NOT NULL DEFAULT '{}',
+  preferred_phrases text[] NOT NULL DEFAULT '{}',
+  sample_paragraphs text[] NOT NULL DEFAULT '{}',
+  is_site_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (NOT is_site_default OR wordpress_site_id IS NOT NULL)
+);
+
+ALTER TABLE brand_voices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own brand voices"
+  ON brand_voices
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own brand voices"
+  ON brand_voices
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own brand voices"
+  ON brand_voices
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own brand voices"
+  ON brand_voices
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS brand_voices_user_id_idx ON brand_voices(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS brand_voices_site_default_idx
+  ON brand_voices(wordpress_site_id) WHERE is_site_default;
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_brand_voices_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_brand_voices_updated_at ON brand_voices;
+CREATE TRIGGER update_brand_voices_updated_at
+  BEFORE UPDATE ON brand_voices
+  FOR EACH ROW EXECUTE FUNCTION update_brand_voices_updated_at();
+
+-- Schedules pick a voice; deleting the voice falls back to the site default
+ALTER TABLE post_schedules
+ADD COLUMN IF NOT EXISTS brand_voice_id uuid REFERENCES brand_voices(id) ON DELETE SET NULL;
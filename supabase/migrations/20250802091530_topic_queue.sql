@@ -0,0 +1,89 @@
+/*
+  # Schedule Topic Queue
+
+  1. New Tables
+    - `schedule_topics`
+      - `id` (uuid, primary key)
+      - `schedule_id` (uuid, foreign key to post_schedules)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `topic` (text) - Topic or keywords for one post
+      - `position` (integer) - Order the topics are used in
+      - `status` (text) - 'queued' or 'used'
+      - `source` (text) - 'manual', 'import' or 'suggested'
+      - `scheduled_post_id` (uuid) - Post generated from the topic
+      - `used_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `reorder_schedule_topics` - Saves a new order for a schedule's topics in one statement
+
+  3. Security
+    - Enable RLS; users manage the topics of their own schedules
+
+  4. Notes
+    - Each generation takes the queued topic with the lowest position; schedules with an empty queue
+      keep using `post_schedules.content_input`
+*/
+
+CREATE TABLE IF NOT EXISTS schedule_topics (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid REFERENCES post_schedules(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  topic text NOT NULL CHECK (length(trim(topic)) > 0),
+  position integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'used')),
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import', 'suggested')),
+  scheduled_post_id uuid REFERENCES scheduled_posts(id) ON DELETE SET NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE schedule_topics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own schedule topics"
+  ON schedule_topics
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own schedule topics"
+  ON schedule_topics
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM post_schedules WHERE id = schedule_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own schedule topics"
+  ON schedule_topics
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own schedule topics"
+  ON schedule_topics
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_topics_queue ON schedule_topics(schedule_id, position) WHERE status = 'queued';
+
+-- Save the order of a schedule's topics. Topics left out of the list keep their position.
+CREATE OR REPLACE FUNCTION reorder_schedule_topics(
+  p_schedule_id uuid,
+  topic_ids uuid[]
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE schedule_topics t
+  SET position = ordered.position
+  FROM unnest(topic_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE t.id = ordered.id
+    AND t.schedule_id = p_schedule_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION reorder_schedule_topics(uuid, uuid[]) TO authenticated;
@@ -0,0 +1,56 @@
+/*
+  # Internal Linking
+
+  1. New Tables
+    - `wordpress_site_posts`
+      - `id` (uuid, primary key)
+      - `wordpress_site_id` (uuid, foreign key to wordpress_sites)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `wordpress_post_id` (integer) - Post ID on WordPress
+      - `title` (text)
+      - `url` (text)
+      - `slug` (text)
+      - `synced_at` (timestamptz) - Sync that last saw the post
+
+  2. Changes
+    - `wordpress_sites.posts_synced_at` - When the cached post list was last refreshed
+    - `post_schedules.internal_link_count` - Links to the site's existing posts added to each post, 0 turns linking off
+    - `scheduled_posts.internal_links` - Links that were inserted, kept for auditing
+
+  3. Security
+    - Enable RLS on `wordpress_site_posts`; users can read their own sites' posts
+    - The cache is only written by edge functions with the service role
+
+  4. Notes
+    - The cache is refreshed from the WordPress REST API when it is older than a day
+*/
+
+CREATE TABLE IF NOT EXISTS wordpress_site_posts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  wordpress_site_id uuid REFERENCES wordpress_sites(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  wordpress_post_id integer NOT NULL,
+  title text NOT NULL,
+  url text NOT NULL,
+  slug text NOT NULL DEFAULT '',
+  synced_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (wordpress_site_id, wordpress_post_id)
+);
+
+ALTER TABLE wordpress_site_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own site posts"
+  ON wordpress_site_posts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE wordpress_sites
+  ADD COLUMN IF NOT EXISTS posts_synced_at timestamptz;
+
+ALTER TABLE post_schedules
+  ADD COLUMN IF NOT EXISTS internal_link_count integer NOT NULL DEFAULT 3
+    CHECK (internal_link_count BETWEEN 0 AND 10);
+
+ALTER TABLE scheduled_posts
+  ADD COLUMN IF NOT EXISTS internal_links jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,17 @@
+/*
+  # On-page SEO Analysis
+
+  1. Changes
+    - `scheduled_posts.seo_score` (integer) - Overall on-page score from 0 to 100
+    - `scheduled_posts.seo_analysis` (jsonb) - Findings per check and the figures they were based on
+
+  2. Notes
+    - Posts are scored when they are generated and again whenever they are saved from the editor
+    - Posts created before this migration have no score until they are next saved
+*/
+
+ALTER TABLE scheduled_posts
+  ADD COLUMN IF NOT EXISTS seo_score integer CHECK (seo_score BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS seo_analysis jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_seo_score ON scheduled_posts(user_id, seo_score);
@@ -0,0 +1,47 @@
+/*
+  # SEO Plugin Detection
+
+  1. Changes
+    - `wordpress_sites.seo_plugin` (text) - 'yoast', 'rank_math' or 'none', detected when the connection is tested
+    - `wordpress_sites.seo_fields_writable` (boolean) - Whether the plugin's SEO fields can be written over REST
+    - `wordpress_sites.seo_checked_at` (timestamptz) - When the plugin was last detected
+
+  2. Functions
+    - `get_wordpress_site_credentials` also returns the detected plugin, so publishing knows where to write
+      the meta description, SEO title and focus keyword
+
+  3. Notes
+    - Sites keep a NULL plugin until their connection is next tested; SEO fields are not sent to them until then
+*/
+
+ALTER TABLE wordpress_sites
+  ADD COLUMN IF NOT EXISTS seo_plugin text CHECK (seo_plugin IN ('yoast', 'rank_math', 'none')),
+  ADD COLUMN IF NOT EXISTS seo_fields_writable boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS seo_checked_at timestamptz;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS get_wordpress_site_credentials(uuid);
+
+CREATE FUNCTION get_wordpress_site_credentials(site_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  url text,
+  username text,
+  password text,
+  seo_plugin text,
+  seo_fields_writable boolean
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT ws.id, ws.user_id, ws.name, ws.url, ws.username, ds.decrypted_secret, ws.seo_plugin, ws.seo_fields_writable
+  FROM wordpress_sites ws
+  LEFT JOIN vault.decrypted_secrets ds ON ds.id = ws.password_secret_id
+  WHERE ws.id = site_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only edge functions may read credentials
+REVOKE EXECUTE ON FUNCTION get_wordpress_site_credentials(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_wordpress_site_credentials(uuid) TO service_role;
@@ -0,0 +1,16 @@
+/*
+  # Featured Images on Scheduled Posts
+
+  1. Changes
+    - `scheduled_posts.featured_image` (jsonb) - Unsplash image chosen at generation time: id, url, altText and attribution
+    - `scheduled_posts.featured_media_id` (integer) - WordPress media id once the image has been uploaded
+
+  2. Notes
+    - Every publish path uploads the stored image as the post's featured media
+    - The media id is kept even when publishing fails, so a retry reuses the upload instead of adding a duplicate
+    - Posts generated before this change have no image and publish without one
+*/
+
+ALTER TABLE scheduled_posts
+  ADD COLUMN IF NOT EXISTS featured_image jsonb,
+  ADD COLUMN IF NOT EXISTS featured_media_id integer;
@@ -0,0 +1,21 @@
+/*
+  # Unsplash Photo Tracking
+
+  1. Changes
+    - `scheduled_posts.unsplash_photo_id` (text) - Generated from `featured_image`, the Unsplash photo chosen for the post
+
+  2. Indexes
+    - `idx_scheduled_posts_unsplash_photo` on (wordpress_site_id, unsplash_photo_id), used to skip photos a site already has
+
+  3. Notes
+    - Image selection leaves out every photo already chosen for a post on the same site
+    - Featured images now carry a linked photographer credit, uploaded as the WordPress caption, and the
+      Unsplash download location, which is requested when the image is uploaded
+*/
+
+ALTER TABLE scheduled_posts
+  ADD COLUMN IF NOT EXISTS unsplash_photo_id text GENERATED ALWAYS AS (featured_image->>'id') STORED;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_unsplash_photo
+  ON scheduled_posts(wordpress_site_id, unsplash_photo_id)
+  WHERE unsplash_photo_id IS NOT NULL;
@@ -0,0 +1,14 @@
+/*
+  # WordPress Connection Diagnostics
+
+  1. Changes
+    - `wordpress_sites.diagnostics` (jsonb) - Report of the last connection test: reachability, REST API,
+      authentication, capabilities, media uploads, SEO plugin and WordPress version, each with a remediation hint
+
+  2. Notes
+    - Written by the wordpress-sites edge function whenever a site is connected, tested or has its credentials rotated
+    - Sites keep a NULL report until their connection is next tested
+*/
+
+ALTER TABLE wordpress_sites
+  ADD COLUMN IF NOT EXISTS diagnostics jsonb;
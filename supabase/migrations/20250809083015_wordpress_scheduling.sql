@@ -0,0 +1,56 @@
+/*
+  # WordPress Native Scheduling
+
+  1. Schema Updates
+    - `post_schedules.wordpress_scheduling` (boolean) - Push posts to WordPress ahead of time as scheduled ('future')
+      posts, so WordPress publishes them even when the worker is down
+    - `scheduled_posts.status` now also allows 'scheduled': sent to WordPress and waiting for it to go live
+
+  2. Functions
+    - `claim_scheduled_posts` - Recreated to also claim pending posts of such schedules before they are due
+
+  3. Notes
+    - The worker reconciles 'scheduled' posts once their time has passed: 'published' when WordPress published
+      them, 'failed' when they were deleted or unscheduled on WordPress in the meantime
+    - "Publish now" does not claim 'scheduled' posts, they already exist on WordPress
+*/
+
+ALTER TABLE post_schedules
+ADD COLUMN IF NOT EXISTS wordpress_scheduling boolean NOT NULL DEFAULT false;
+
+-- Allow the scheduled status
+ALTER TABLE scheduled_posts DROP CONSTRAINT IF EXISTS scheduled_posts_status_check;
+ALTER TABLE scheduled_posts ADD CONSTRAINT scheduled_posts_status_check
+  CHECK (status IN ('awaiting_review', 'pending', 'publishing', 'scheduled', 'published', 'failed', 'draft', 'dead_letter', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_scheduled ON scheduled_posts(scheduled_for) WHERE status = 'scheduled';
+
+-- Claim due pending posts, and pending posts of WordPress-scheduled schedules straight away
+CREATE OR REPLACE FUNCTION claim_scheduled_posts(
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF scheduled_posts AS $$
+BEGIN
+  PERFORM release_stale_leases();
+
+  RETURN QUERY
+  UPDATE scheduled_posts
+  SET
+    status = 'publishing',
+    lease_expires_at = now() + make_interval(secs => lease_seconds)
+  WHERE id IN (
+    SELECT sp.id FROM scheduled_posts sp
+    LEFT JOIN post_schedules ps ON ps.id = sp.schedule_id
+    WHERE sp.status = 'pending'
+      AND (sp.scheduled_for <= now() OR ps.wordpress_scheduling)
+      AND (sp.next_attempt_at IS NULL OR sp.next_attempt_at <= now())
+    ORDER BY sp.scheduled_for
+    LIMIT batch_size
+    FOR UPDATE OF sp SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION claim_scheduled_posts(integer, integer) TO service_role;
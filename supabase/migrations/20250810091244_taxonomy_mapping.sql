@@ -0,0 +1,22 @@
+/*
+  # Category and Tag Mapping
+
+  1. Schema Updates
+    - `post_schedules.category_ids` (integer[]) - Existing WordPress categories every post of the schedule is filed under
+    - `post_schedules.tag_policy` (text) - How the model's tags become WordPress tags:
+      'existing_only' (matched to existing tags), 'allow_new' (matched, otherwise created) or 'none'
+    - `scheduled_posts.category_ids` and `scheduled_posts.tag_policy` - Copied from the schedule when the post is
+      generated, or chosen for a "post now" post, and used by every publish path
+
+  2. Notes
+    - Tags are matched to existing ones regardless of case, punctuation, plurals and small typos before anything is created
+    - 'allow_new' is the default so existing schedules keep creating tags as before
+*/
+
+ALTER TABLE post_schedules
+ADD COLUMN IF NOT EXISTS category_ids integer[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS tag_policy text NOT NULL DEFAULT 'allow_new' CHECK (tag_policy IN ('existing_only', 'allow_new', 'none'));
+
+ALTER TABLE scheduled_posts
+ADD COLUMN IF NOT EXISTS category_ids integer[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS tag_policy text NOT NULL DEFAULT 'allow_new' CHECK (tag_policy IN ('existing_only', 'allow_new', 'none'));
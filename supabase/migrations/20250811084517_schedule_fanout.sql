@@ -0,0 +1,110 @@
+/*
+  # Multi-Site Schedules
+
+  1. New Tables
+    - `schedule_sites`
+      - `schedule_id` (uuid, foreign key to post_schedules)
+      - `wordpress_site_id` (uuid, foreign key to wordpress_sites) - Site every post of the schedule is also sent to
+      - `user_id` (uuid, foreign key to auth.users)
+      - `created_at` (timestamptz)
+
+  2. Schema Updates
+    - `post_schedules.fanout_mode` (text) - How posts reach the extra sites: 'unique' (a separately generated
+      variant per site, to avoid duplicate content) or 'canonical' (the primary site's post, pointing its
+      canonical URL at the primary copy)
+    - `scheduled_posts.primary_post_id` (uuid) - The post on the schedule's own site that this one was fanned out from
+    - `scheduled_posts.canonical_to_primary` (boolean) - Publish with the primary post's URL as canonical URL
+    - `scheduled_posts.wordpress_post_url` (text) - Permalink on WordPress once the post has been sent
+
+  3. Functions
+    - `claim_scheduled_posts` - Recreated to hold canonical copies back until their primary post is on WordPress
+
+  4. Security
+    - Enable RLS; users manage the extra sites of their own schedules
+
+  5. Notes
+    - The schedule's `wordpress_site_id` stays the primary site; each site gets its own post row, so status,
+      retries and review are tracked per site
+    - Categories chosen on the schedule belong to the primary site, posts on extra sites use the site's default category
+    - Canonical URLs are set through Yoast SEO or Rank Math, sites without a writable SEO plugin get the copy without one
+*/
+
+CREATE TABLE IF NOT EXISTS schedule_sites (
+  schedule_id uuid REFERENCES post_schedules(id) ON DELETE CASCADE NOT NULL,
+  wordpress_site_id uuid REFERENCES wordpress_sites(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (schedule_id, wordpress_site_id)
+);
+
+ALTER TABLE schedule_sites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own schedule sites"
+  ON schedule_sites
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own schedule sites"
+  ON schedule_sites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM post_schedules WHERE id = schedule_id AND user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM wordpress_sites WHERE id = wordpress_site_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own schedule sites"
+  ON schedule_sites
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE post_schedules
+ADD COLUMN IF NOT EXISTS fanout_mode text NOT NULL DEFAULT 'unique' CHECK (fanout_mode IN ('unique', 'canonical'));
+
+ALTER TABLE scheduled_posts
+ADD COLUMN IF NOT EXISTS primary_post_id uuid REFERENCES scheduled_posts(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS canonical_to_primary boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS wordpress_post_url text;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_primary ON scheduled_posts(primary_post_id) WHERE primary_post_id IS NOT NULL;
+
+-- Canonical copies wait for their primary post's URL
+CREATE OR REPLACE FUNCTION claim_scheduled_posts(
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF scheduled_posts AS $$
+BEGIN
+  PERFORM release_stale_leases();
+
+  RETURN QUERY
+  UPDATE scheduled_posts
+  SET
+    status = 'publishing',
+    lease_expires_at = now() + make_interval(secs => lease_seconds)
+  WHERE id IN (
+    SELECT sp.id FROM scheduled_posts sp
+    LEFT JOIN post_schedules ps ON ps.id = sp.schedule_id
+    WHERE sp.status = 'pending'
+      AND (sp.scheduled_for <= now() OR ps.wordpress_scheduling)
+      AND (sp.next_attempt_at IS NULL OR sp.next_attempt_at <= now())
+      AND (
+        NOT sp.canonical_to_primary
+        OR sp.primary_post_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM scheduled_posts primary_post
+          WHERE primary_post.id = sp.primary_post_id AND primary_post.wordpress_post_url IS NOT NULL
+        )
+      )
+    ORDER BY sp.scheduled_for
+    LIMIT batch_size
+    FOR UPDATE OF sp SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION claim_scheduled_posts(integer, integer) TO service_role;
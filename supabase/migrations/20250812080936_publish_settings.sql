@@ -0,0 +1,58 @@
+/*
+  # Publish Settings
+
+  1. Schema Updates
+    - `wordpress_sites.publish_settings` (jsonb) - Site defaults for where and how posts are created:
+      `postType` (REST base, e.g. 'posts', 'pages' or a custom type), `authorId`, `format`, `commentStatus` and `sticky`
+    - `post_schedules.publish_settings` (jsonb) - Overrides the site defaults for the schedule's posts
+    - `scheduled_posts.publish_settings` (jsonb) - Copied from the schedule when the post is generated, or chosen
+      for a "post now" post
+    - `scheduled_posts.wordpress_post_type` (text) - REST base the post was created under, used to update,
+      check and trash it later
+
+  2. Functions
+    - `get_wordpress_site_credentials` also returns the site's publish settings
+
+  3. Notes
+    - Empty settings keep the previous behaviour: a standard post by the connected user with WordPress' defaults
+    - The options offered in the app are read from each site's REST index
+    - Posts fanned out to a schedule's extra sites use those sites' own defaults, authors differ between sites
+*/
+
+ALTER TABLE wordpress_sites
+ADD COLUMN IF NOT EXISTS publish_settings jsonb NOT NULL DEFAULT '{}';
+
+ALTER TABLE post_schedules
+ADD COLUMN IF NOT EXISTS publish_settings jsonb NOT NULL DEFAULT '{}';
+
+ALTER TABLE scheduled_posts
+ADD COLUMN IF NOT EXISTS publish_settings jsonb NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS wordpress_post_type text NOT NULL DEFAULT 'posts';
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS get_wordpress_site_credentials(uuid);
+
+CREATE FUNCTION get_wordpress_site_credentials(site_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  url text,
+  username text,
+  password text,
+  seo_plugin text,
+  seo_fields_writable boolean,
+  publish_settings jsonb
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT ws.id, ws.user_id, ws.name, ws.url, ws.username, ds.decrypted_secret, ws.seo_plugin, ws.seo_fields_writable, ws.publish_settings
+  FROM wordpress_sites ws
+  LEFT JOIN vault.decrypted_secrets ds ON ds.id = ws.password_secret_id
+  WHERE ws.id = site_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only edge functions may read credentials
+REVOKE EXECUTE ON FUNCTION get_wordpress_site_credentials(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_wordpress_site_credentials(uuid) TO service_role;
@@ -0,0 +1,94 @@
+/*
+  # Schedule Generation Backoff
+
+  1. Schema Updates
+    - `post_schedules.failure_count` (integer) - Generation attempts that failed in a row
+    - `post_schedules.next_attempt_at` (timestamptz) - Earliest time the next generation attempt may run
+    - `post_schedules.last_error` (text) - Error from the most recent failed attempt
+
+  2. Functions
+    - `record_schedule_failure` - Backs the schedule off exponentially after a failed generation and pauses
+      it once the attempts are exhausted
+    - `claim_due_schedules` - Recreated to skip schedules that are backing off
+
+  3. Notes
+    - A successful generation resets the failure count; resuming a paused schedule does too
+    - Points reserved for a failed generation are refunded before the failure is recorded
+*/
+
+ALTER TABLE post_schedules
+ADD COLUMN IF NOT EXISTS failure_count integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz,
+ADD COLUMN IF NOT EXISTS last_error text;
+
+-- Record a failed generation, back off and pause the schedule after too many failures in a row
+CREATE OR REPLACE FUNCTION record_schedule_failure(
+  p_schedule_id uuid,
+  error_text text
+)
+RETURNS text AS $$
+DECLARE
+  max_attempts constant integer := 5;
+  base_delay constant interval := interval '15 minutes';
+  max_delay constant interval := interval '12 hours';
+  new_failure_count integer;
+  new_status text;
+BEGIN
+  SELECT failure_count + 1 INTO new_failure_count
+  FROM post_schedules
+  WHERE id = p_schedule_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF new_failure_count < max_attempts THEN
+    new_status := 'active';
+  ELSE
+    new_status := 'paused';
+  END IF;
+
+  UPDATE post_schedules
+  SET
+    status = new_status,
+    failure_count = new_failure_count,
+    last_error = error_text,
+    next_attempt_at = CASE
+      WHEN new_status = 'active' THEN now() + LEAST(base_delay * power(2, new_failure_count - 1), max_delay)
+      ELSE NULL
+    END,
+    lease_expires_at = NULL,
+    updated_at = now()
+  WHERE id = p_schedule_id;
+
+  RETURN new_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claim a batch of due schedules that are not backing off after a failure
+CREATE OR REPLACE FUNCTION claim_due_schedules(
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 600
+)
+RETURNS SETOF post_schedules AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE post_schedules
+  SET lease_expires_at = now() + make_interval(secs => lease_seconds)
+  WHERE id IN (
+    SELECT id FROM post_schedules
+    WHERE status = 'active'
+      AND next_post_date <= now()
+      AND (next_attempt_at IS NULL OR next_attempt_at <= now())
+      AND (lease_expires_at IS NULL OR lease_expires_at < now())
+    ORDER BY next_post_date
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION record_schedule_failure(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_due_schedules(integer, integer) TO service_role;
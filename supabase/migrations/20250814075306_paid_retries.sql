@@ -0,0 +1,137 @@
+/*
+  # Paid Publish Retries
+
+  1. Functions
+    - `retry_scheduled_post` - Recreated to charge a post again when failing refunded its points, and to check
+      that the post belongs to the caller
+    - `record_publish_failure` - No longer executable by app users, the `wordpress-sites` edge function records
+      failed attempts from the app
+    - `guard_scheduled_post_status` - Trigger function that keeps app users from moving posts in and out of
+      the failed statuses directly
+
+  2. Triggers
+    - `guard_scheduled_post_status` on `scheduled_posts`
+
+  3. Security
+    - Failing a post refunds it, so only the server may decide that a post failed, and a refunded post is only
+      queued again through `retry_scheduled_post`, which charges for it
+*/
+
+-- Put a post back in the queue for an immediate attempt, paying for it again if its points were refunded
+CREATE OR REPLACE FUNCTION retry_scheduled_post(post_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  post_record scheduled_posts%ROWTYPE;
+  refunded_debit user_points_ledger%ROWTYPE;
+  current_points integer;
+BEGIN
+  SELECT * INTO post_record
+  FROM scheduled_posts
+  WHERE id = post_id
+    AND status IN ('failed', 'dead_letter')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> post_record.user_id THEN
+    RAISE EXCEPTION 'Cannot retry a post of another user';
+  END IF;
+
+  -- Posts that were never charged, such as canonical copies, stay free
+  IF NOT EXISTS (
+    SELECT 1 FROM user_points_ledger
+    WHERE scheduled_post_id = post_id
+      AND entry_type = 'debit'
+      AND status = 'committed'
+  ) THEN
+    SELECT * INTO refunded_debit
+    FROM user_points_ledger
+    WHERE scheduled_post_id = post_id
+      AND entry_type = 'debit'
+      AND status = 'refunded'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      -- Lock the balance so concurrent reservations cannot overspend
+      SELECT points_remaining INTO current_points
+      FROM user_points
+      WHERE user_id = post_record.user_id
+      FOR UPDATE;
+
+      IF COALESCE(current_points, 0) < -refunded_debit.amount THEN
+        RAISE EXCEPTION 'Not enough points to retry this post';
+      END IF;
+
+      INSERT INTO user_points_ledger (user_id, entry_type, amount, status, scheduled_post_id, schedule_id, description)
+      VALUES (
+        post_record.user_id,
+        'debit',
+        refunded_debit.amount,
+        'committed',
+        post_id,
+        refunded_debit.schedule_id,
+        'Post retry'
+      );
+    END IF;
+  END IF;
+
+  UPDATE scheduled_posts
+  SET
+    status = 'pending',
+    attempt_count = 0,
+    next_attempt_at = NULL,
+    error_message = NULL
+  WHERE id = post_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Failing refunds a post, so app users cannot fail posts themselves or requeue refunded ones without paying
+CREATE OR REPLACE FUNCTION guard_scheduled_post_status()
+RETURNS trigger AS $$
+BEGIN
+  -- The worker and edge functions use the service role, which has no user
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('failed', 'dead_letter') AND OLD.status NOT IN ('failed', 'dead_letter') THEN
+    RAISE EXCEPTION 'Only the server can mark a post as failed';
+  END IF;
+
+  IF OLD.status IN ('failed', 'dead_letter') AND NEW.status NOT IN ('failed', 'dead_letter')
+    AND EXISTS (
+      SELECT 1 FROM user_points_ledger
+      WHERE scheduled_post_id = NEW.id
+        AND entry_type = 'debit'
+        AND status = 'refunded'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM user_points_ledger
+      WHERE scheduled_post_id = NEW.id
+        AND entry_type = 'debit'
+        AND status = 'committed'
+    ) THEN
+    RAISE EXCEPTION 'The points for this post were refunded, retry it to publish it again';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_scheduled_post_status ON scheduled_posts;
+CREATE TRIGGER guard_scheduled_post_status
+  BEFORE UPDATE OF status ON scheduled_posts
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION guard_scheduled_post_status();
+
+-- Failed attempts from the app are recorded by the wordpress-sites edge function
+REVOKE EXECUTE ON FUNCTION record_publish_failure(uuid, text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_publish_failure(uuid, text, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION retry_scheduled_post(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION retry_scheduled_post(uuid) TO service_role;
@@ -0,0 +1,102 @@
+/*
+  # Paid Generation Requests
+
+  1. Schema Updates
+    - `user_points_ledger.generation_started_at` (timestamptz) - When the generate-post edge function started the
+      generation a reservation pays for
+
+  2. Functions
+    - `start_generation_for_reservation` - Uses up one of the caller's reservations for a generation, returns
+      false when there is no unused reservation that covers the requested length
+    - `refund_points_for_post` - Recreated so app users cannot refund a reservation once content was generated for it
+
+  3. Notes
+    - The app reserves a post's points before asking generate-post for content, and the edge function refuses
+      to generate without a reservation, so generation cannot be called for free
+    - Each reservation pays for one generation. generate-post refunds it when the generation fails, otherwise the
+      app commits it to the post
+    - The worker generates in-process after reserving points itself and does not go through this check
+*/
+
+ALTER TABLE user_points_ledger
+ADD COLUMN IF NOT EXISTS generation_started_at timestamptz;
+
+-- Use up a reservation for one generation. It must cover at least the word count part of the cost,
+-- which is what regenerating a post is charged.
+CREATE OR REPLACE FUNCTION start_generation_for_reservation(
+  ledger_entry_id uuid,
+  p_word_count integer
+)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE user_points_ledger
+  SET generation_started_at = now()
+  WHERE id = ledger_entry_id
+    AND user_id = auth.uid()
+    AND entry_type = 'debit'
+    AND status = 'reserved'
+    AND generation_started_at IS NULL
+    AND -amount >= calculate_post_cost('regenerate', p_word_count);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refunds of started reservations are left to generate-post, which only refunds when generation failed
+CREATE OR REPLACE FUNCTION refund_points_for_post(
+  ledger_entry_id uuid,
+  reason text DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  debit_entry user_points_ledger%ROWTYPE;
+  post_status text;
+BEGIN
+  SELECT * INTO debit_entry
+  FROM user_points_ledger
+  WHERE id = ledger_entry_id
+    AND entry_type = 'debit'
+  FOR UPDATE;
+
+  IF NOT FOUND OR debit_entry.status = 'refunded' THEN
+    RETURN false;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> debit_entry.user_id THEN
+    RAISE EXCEPTION 'Cannot refund points for another user';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND debit_entry.status = 'reserved' AND debit_entry.generation_started_at IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  IF debit_entry.status = 'committed' THEN
+    SELECT status INTO post_status FROM scheduled_posts WHERE id = debit_entry.scheduled_post_id;
+
+    IF post_status IS NULL OR post_status NOT IN ('failed', 'dead_letter') THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  UPDATE user_points_ledger
+  SET status = 'refunded'
+  WHERE id = debit_entry.id;
+
+  INSERT INTO user_points_ledger (user_id, entry_type, amount, scheduled_post_id, schedule_id, refund_of, description)
+  VALUES (
+    debit_entry.user_id,
+    'refund',
+    -debit_entry.amount,
+    debit_entry.scheduled_post_id,
+    debit_entry.schedule_id,
+    debit_entry.id,
+    COALESCE(reason, 'Post failed')
+  );
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION start_generation_for_reservation(uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION refund_points_for_post(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION refund_points_for_post(uuid, text) TO service_role;
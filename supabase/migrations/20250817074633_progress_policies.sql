@@ -0,0 +1,27 @@
+/*
+  # Generation Progress Written by the User
+
+  1. Security
+    - Users can insert, update and delete their own `generation_progress` rows
+    - The generate-post edge function now writes progress as the caller instead of with the service role, so
+      a progress id sent by one user can never overwrite or remove another user's row
+*/
+
+CREATE POLICY "Users can insert their own generation progress"
+  ON generation_progress
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own generation progress"
+  ON generation_progress
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own generation progress"
+  ON generation_progress
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,41 @@
+/*
+  # Brand Voice Site Ownership
+
+  1. Security
+    - Brand voices can only be attached to the user's own WordPress sites when they are created or edited
+
+  2. Indexes
+    - `brand_voices_site_default_idx` is now unique per user and site, so another user's voice can never claim
+      or block a site's default
+*/
+
+DROP POLICY IF EXISTS "Users can insert their own brand voices" ON brand_voices;
+CREATE POLICY "Users can insert their own brand voices"
+  ON brand_voices
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      wordpress_site_id IS NULL
+      OR EXISTS (SELECT 1 FROM wordpress_sites WHERE id = wordpress_site_id AND user_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update their own brand voices" ON brand_voices;
+CREATE POLICY "Users can update their own brand voices"
+  ON brand_voices
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      wordpress_site_id IS NULL
+      OR EXISTS (SELECT 1 FROM wordpress_sites WHERE id = wordpress_site_id AND user_id = auth.uid())
+    )
+  );
+
+DROP INDEX IF EXISTS brand_voices_site_default_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS brand_voices_site_default_idx
+  ON brand_voices(user_id, wordpress_site_id) WHERE is_site_default;
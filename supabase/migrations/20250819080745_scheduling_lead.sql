@@ -0,0 +1,42 @@
+/*
+  # WordPress Scheduling Lead Time
+
+  1. Functions
+    - `claim_due_schedules` - Recreated to claim schedules that use WordPress scheduling up to 12 hours before
+      their next post is due
+
+  2. Notes
+    - Their posts are generated ahead of `next_post_date` and keep it as `scheduled_for`, so the worker sends
+      them to WordPress as scheduled posts and WordPress publishes them on time even if the worker is down then
+    - Other schedules are still claimed once their next post is due
+*/
+
+CREATE OR REPLACE FUNCTION claim_due_schedules(
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 600
+)
+RETURNS SETOF post_schedules AS $$
+DECLARE
+  wordpress_lead constant interval := interval '12 hours';
+BEGIN
+  RETURN QUERY
+  UPDATE post_schedules
+  SET lease_expires_at = now() + make_interval(secs => lease_seconds)
+  WHERE id IN (
+    SELECT id FROM post_schedules
+    WHERE status = 'active'
+      AND (
+        next_post_date <= now()
+        OR (wordpress_scheduling AND next_post_date <= now() + wordpress_lead)
+      )
+      AND (next_attempt_at IS NULL OR next_attempt_at <= now())
+      AND (lease_expires_at IS NULL OR lease_expires_at < now())
+    ORDER BY next_post_date
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION claim_due_schedules(integer, integer) TO service_role;
@@ -0,0 +1,44 @@
+/*
+  # Stale Publish Check
+
+  1. Functions
+    - `release_stale_leases` - Recreated to record why a stale post is requeued
+
+  2. Notes
+    - A worker that died mid-publish may have created the post on WordPress already. Releasing the lease records
+      a failed attempt, and a post with an earlier attempt first searches its site for a post with its title
+      created since the row was, adopting that post instead of creating a second one
+*/
+
+CREATE OR REPLACE FUNCTION release_stale_leases()
+RETURNS integer AS $$
+DECLARE
+  stale_post_id uuid;
+  released integer := 0;
+BEGIN
+  -- A stale publish counts as a failed attempt so a post that keeps crashing the worker ends in dead_letter.
+  -- The retry checks WordPress for a post the interrupted attempt created before posting again.
+  FOR stale_post_id IN
+    SELECT id FROM scheduled_posts
+    WHERE status = 'publishing'
+      AND lease_expires_at < now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM record_publish_failure(
+      stale_post_id,
+      'Publishing was interrupted. The next attempt checks WordPress for the post before creating it again.',
+      true
+    );
+    UPDATE scheduled_posts SET lease_expires_at = NULL WHERE id = stale_post_id;
+    released := released + 1;
+  END LOOP;
+
+  UPDATE post_schedules
+  SET lease_expires_at = NULL
+  WHERE lease_expires_at < now();
+
+  RETURN released;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION release_stale_leases() TO service_role;
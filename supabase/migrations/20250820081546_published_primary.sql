@@ -0,0 +1,49 @@
+/*
+  # Canonical Copies Wait For Publishing
+
+  1. Functions
+    - `claim_scheduled_posts` - Recreated to hold canonical copies back until their primary post is published
+
+  2. Notes
+    - A primary post sent to WordPress as a scheduled post only has a preview link (`?p=ID`) until WordPress
+      publishes it. Reconciling stores its final permalink when it is marked published, so copies wait for that
+*/
+
+CREATE OR REPLACE FUNCTION claim_scheduled_posts(
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF scheduled_posts AS $$
+BEGIN
+  PERFORM release_stale_leases();
+
+  RETURN QUERY
+  UPDATE scheduled_posts
+  SET
+    status = 'publishing',
+    lease_expires_at = now() + make_interval(secs => lease_seconds)
+  WHERE id IN (
+    SELECT sp.id FROM scheduled_posts sp
+    LEFT JOIN post_schedules ps ON ps.id = sp.schedule_id
+    WHERE sp.status = 'pending'
+      AND (sp.scheduled_for <= now() OR ps.wordpress_scheduling)
+      AND (sp.next_attempt_at IS NULL OR sp.next_attempt_at <= now())
+      AND (
+        NOT sp.canonical_to_primary
+        OR sp.primary_post_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM scheduled_posts primary_post
+          WHERE primary_post.id = sp.primary_post_id
+            AND primary_post.status = 'published'
+            AND primary_post.wordpress_post_url IS NOT NULL
+        )
+      )
+    ORDER BY sp.scheduled_for
+    LIMIT batch_size
+    FOR UPDATE OF sp SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION claim_scheduled_posts(integer, integer) TO service_role;
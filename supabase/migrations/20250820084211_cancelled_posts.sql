@@ -0,0 +1,15 @@
+/*
+  # Cancelled Posts
+
+  1. Schema Updates
+    - `scheduled_posts.status` - New 'cancelled' status for posts sent to WordPress as scheduled posts that were
+      deleted or unscheduled there before they went live
+
+  2. Notes
+    - Those posts were delivered and the site owner withdrew them, so they are not failures and keep their points.
+      Moving a post to 'failed' refunds it.
+*/
+
+ALTER TABLE scheduled_posts DROP CONSTRAINT IF EXISTS scheduled_posts_status_check;
+ALTER TABLE scheduled_posts ADD CONSTRAINT scheduled_posts_status_check
+  CHECK (status IN ('awaiting_review', 'pending', 'publishing', 'scheduled', 'published', 'failed', 'draft', 'dead_letter', 'rejected', 'cancelled'));
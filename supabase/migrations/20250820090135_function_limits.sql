@@ -0,0 +1,70 @@
+/*
+  # Edge Function Rate Limits
+
+  1. New Tables
+    - `function_usage`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `function_name` (text) - Edge function that was called
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `consume_rate_limit` - Records a call of an edge function by the caller, returns false without recording
+      it once the caller reached the limit within the window
+
+  3. Security
+    - Enable RLS without policies, usage is only read and written through `consume_rate_limit`
+
+  4. Notes
+    - Used by edge functions that spend API credits without a points reservation, such as suggest-topics and humanize
+    - Calls older than the window are deleted as the caller makes new ones
+*/
+
+CREATE TABLE IF NOT EXISTS function_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  function_name text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE function_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_function_usage_user_function ON function_usage(user_id, function_name, created_at);
+
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  p_function text,
+  p_limit integer,
+  p_window_seconds integer
+)
+RETURNS boolean AS $$
+DECLARE
+  window_start timestamptz := now() - make_interval(secs => p_window_seconds);
+  used integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Concurrent calls of one user wait for each other, so they cannot all pass the check
+  PERFORM pg_advisory_xact_lock(hashtext(auth.uid()::text || ':' || p_function));
+
+  DELETE FROM function_usage
+  WHERE user_id = auth.uid()
+    AND function_name = p_function
+    AND created_at <= window_start;
+
+  SELECT count(*) INTO used
+  FROM function_usage
+  WHERE user_id = auth.uid()
+    AND function_name = p_function;
+
+  IF used >= p_limit THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO function_usage (user_id, function_name) VALUES (auth.uid(), p_function);
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION consume_rate_limit(text, integer, integer) TO authenticated;